@@ -0,0 +1,61 @@
+// The original remap, kept only as a benchmark baseline: it builds a palette
+// key and searches the mappings for every pixel of every frame, then rebuilds
+// every patch.
+import { rgbKey } from "../src/lib";
+import type { ColorMapping, GifFrame } from "../src/lib";
+
+const MISSING_COLOR: [number, number, number] = [0, 0, 0];
+
+const buildPatch = (
+  pixels: number[],
+  colorTable: [number, number, number][],
+  transparentIndex?: number
+): Uint8ClampedArray => {
+  const totalPixels = pixels.length;
+  const patch = new Uint8ClampedArray(totalPixels * 4);
+
+  for (let i = 0; i < totalPixels; i++) {
+    const pos = i * 4;
+    const colorIndex = pixels[i];
+    const color = colorTable[colorIndex] || MISSING_COLOR;
+
+    patch[pos] = color[0];
+    patch[pos + 1] = color[1];
+    patch[pos + 2] = color[2];
+    patch[pos + 3] = colorIndex !== transparentIndex ? 255 : 0;
+  }
+
+  return patch;
+};
+
+export const legacyApplyMappings = (
+  frames: GifFrame[],
+  mappings: ColorMapping[]
+): GifFrame[] => {
+  if (mappings.length === 0) return [...frames];
+
+  return frames.map((frame) => {
+    const newColorTable = [...frame.colorTable];
+
+    frame.pixels.forEach((pixelIndex) => {
+      if (pixelIndex === frame.transparentIndex) return;
+
+      const originalRgb = frame.colorTable[pixelIndex] || MISSING_COLOR;
+      const originalColorKey = rgbKey(originalRgb);
+
+      const mapping = mappings.find(
+        (m) => m.originalColor === originalColorKey
+      );
+
+      if (mapping) {
+        newColorTable[pixelIndex] = mapping.newRgb;
+      }
+    });
+
+    return {
+      ...frame,
+      colorTable: newColorTable,
+      patch: buildPatch(frame.pixels, newColorTable, frame.transparentIndex),
+    };
+  });
+};
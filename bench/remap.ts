@@ -0,0 +1,145 @@
+#!/usr/bin/env bun
+// Remap benchmark: the original per-pixel remap against the lookup-table
+// remap and the incremental engine. Run with
+//   bun bench/remap.ts [input.gif] [--frames 300] [--size 512] [--runs 5]
+// Without a GIF, synthetic frames are generated where each color only
+// appears in a run of consecutive frames, like most real animations.
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  applyMappings,
+  createRemapEngine,
+  getPalette,
+  loadGif,
+  rgbKey,
+} from "../src/lib";
+import type { ColorMapping, GifFrame } from "../src/lib";
+import { legacyApplyMappings } from "./legacyRemap";
+
+const { values, positionals } = parseArgs({
+  args: process.argv.slice(2),
+  allowPositionals: true,
+  options: {
+    frames: { type: "string", default: "120" },
+    size: { type: "string", default: "256" },
+    runs: { type: "string", default: "3" },
+    mappings: { type: "string", default: "20" },
+  },
+});
+
+// Colors per synthetic frame, and how far the window of colors moves on
+// from one frame to the next
+const COLORS_PER_FRAME = 64;
+const COLOR_DRIFT = 4;
+
+const syntheticFrames = (count: number, size: number): GifFrame[] =>
+  Array.from({ length: count }, (_, frameIndex) => {
+    const colorTable = Array.from(
+      { length: COLORS_PER_FRAME },
+      (_, i): [number, number, number] => {
+        const color = frameIndex * COLOR_DRIFT + i;
+        return [color % 256, (color * 7) % 256, (color * 13) % 256];
+      }
+    );
+    const pixels = Array.from(
+      { length: size * size },
+      (_, i) => (i * 31 + frameIndex) % COLORS_PER_FRAME
+    );
+
+    return {
+      dims: { width: size, height: size, top: 0, left: 0 },
+      delay: 100,
+      disposalType: 1,
+      patch: new Uint8ClampedArray(size * size * 4),
+      pixels,
+      colorTable,
+    };
+  });
+
+const readFrames = (path: string): GifFrame[] => {
+  const bytes = readFileSync(path);
+  return loadGif(
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+  ).frames;
+};
+
+// Median time of several runs, in milliseconds
+const time = (runs: number, run: () => void): number => {
+  const times = Array.from({ length: runs }, () => {
+    const start = performance.now();
+    run();
+    return performance.now() - start;
+  }).sort((a, b) => a - b);
+  return times[Math.floor(times.length / 2)];
+};
+
+const frames = positionals[0]
+  ? readFrames(positionals[0])
+  : syntheticFrames(Number(values.frames), Number(values.size));
+const runs = Math.max(1, Number(values.runs));
+const pixelCount = frames.reduce((sum, frame) => sum + frame.pixels.length, 0);
+
+// Map evenly spread colors of the palette to their inverse
+const palette = getPalette(frames);
+const step = Math.max(1, Math.floor(palette.length / Number(values.mappings)));
+const mappings: ColorMapping[] = palette
+  .filter((_, i) => i % step === 0)
+  .slice(0, Number(values.mappings))
+  .map(({ color, rgb }) => {
+    const newRgb: [number, number, number] = [
+      255 - rgb[0],
+      255 - rgb[1],
+      255 - rgb[2],
+    ];
+    return {
+      originalColor: color,
+      originalRgb: rgb,
+      newColor: rgbKey(newRgb),
+      newRgb,
+    };
+  });
+
+// Results must match before timings mean anything
+const expected = legacyApplyMappings(frames, mappings);
+const actual = applyMappings(frames, mappings);
+expected.forEach((frame, i) => {
+  const patch = actual[i].patch;
+  if (!frame.patch.every((value, j) => value === patch[j])) {
+    throw new Error(`Frame ${i + 1} differs from the original remap`);
+  }
+});
+
+// Incremental edit: change one mapping's target after a committed remap
+const engine = createRemapEngine(frames);
+const initial = engine.prepare(mappings, []);
+frames.forEach((_, i) => initial.remapFrame(i));
+initial.commit();
+
+const edited = mappings.map((mapping, i) =>
+  i === 0
+    ? { ...mapping, newRgb: [1, 2, 3] as [number, number, number] }
+    : mapping
+);
+let rebuilt = 0;
+const incremental = time(runs, () => {
+  const job = engine.prepare(edited, []);
+  rebuilt = frames.filter((_, i) => job.remapFrame(i) !== null).length;
+});
+
+const legacy = time(runs, () => legacyApplyMappings(frames, mappings));
+const full = time(runs, () => applyMappings(frames, mappings));
+
+const size = frames[0]?.dims;
+console.log(
+  `${frames.length} frames, ${size?.width}x${size?.height}, ` +
+    `${(pixelCount / 1e6).toFixed(1)}M pixels, ${palette.length} colors, ` +
+    `${mappings.length} mappings, median of ${runs} runs\n`
+);
+console.table({
+  "original remap": { ms: Math.round(legacy), frames: frames.length },
+  "lookup-table remap": { ms: Math.round(full), frames: frames.length },
+  "incremental, one color edited": {
+    ms: Math.round(incremental),
+    frames: rebuilt,
+  },
+});
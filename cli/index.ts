@@ -0,0 +1,213 @@
+#!/usr/bin/env node
+// Command-line batch recoloring. Uses the same parse/remap code as the app so
+// results are identical to what the Remapped view shows.
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  realpathSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { basename, join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  loadGif,
+  getPalette,
+  applyMappings,
+  encodeGif,
+  rgbToHex,
+  parsePreset,
+  matchPresetToPalette,
+} from "../src/lib";
+import type { ColorCount, ColorMapping } from "../src/lib";
+
+const USAGE = `Usage:
+  color-me-new recolor <input.gif|dir> --map <preset.json> -o <output.gif|dir> [--snap]
+  color-me-new palette <input.gif> [--format json|csv]
+
+Commands:
+  recolor   Apply a saved preset (or ColorMapping[] file) to one GIF or every
+            GIF in a directory. --snap moves preset colors missing from a GIF
+            onto its nearest existing color.
+  palette   Print the colors used by a GIF, most used first`;
+
+// Errors that should be reported as a plain message rather than a stack trace
+class CliError extends Error {}
+
+const readGif = (path: string) => {
+  const bytes = readFileSync(path);
+  // Copy into a standalone ArrayBuffer; Node buffers may share a larger pool
+  return loadGif(
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+  );
+};
+
+// Accepts a saved preset or a bare ColorMapping[] array
+const readMappings = (path: string): ColorMapping[] => {
+  let json: string;
+  try {
+    json = readFileSync(path, "utf8");
+  } catch {
+    throw new CliError(`Could not read mapping file ${path}`);
+  }
+
+  try {
+    return parsePreset(json).mappings;
+  } catch (err) {
+    throw new CliError(`${path}: ${(err as Error).message}`);
+  }
+};
+
+const isDirectory = (path: string) =>
+  existsSync(path) && statSync(path).isDirectory();
+
+// Whether two paths name the same file, following symlinks where they exist
+const isSamePath = (a: string, b: string) => {
+  const real = (path: string) =>
+    existsSync(path) ? realpathSync(path) : resolve(path);
+  return real(a) === real(b);
+};
+
+const recolorFile = (
+  input: string,
+  output: string,
+  mappings: ColorMapping[],
+  snapToNearest: boolean
+) => {
+  const { frames, info } = readGif(input);
+
+  // Report preset colors this GIF doesn't use, like the app does on import
+  const match = matchPresetToPalette(
+    mappings,
+    getPalette(frames),
+    snapToNearest
+  );
+  match.missing.forEach((mapping) => {
+    console.warn(`${input}: ${mapping.originalColor} not found`);
+  });
+  match.snapped.forEach(({ from, to }) => {
+    console.warn(
+      `${input}: ${from.originalColor} snapped to ${to.originalColor}`
+    );
+  });
+
+  const remapped = applyMappings(frames, match.mappings);
+  writeFileSync(output, encodeGif(remapped, info));
+  console.log(`${input} -> ${output}`);
+};
+
+const recolor = (
+  input: string,
+  mapPath?: string,
+  output?: string,
+  snapToNearest = false
+) => {
+  if (!mapPath) throw new CliError("recolor requires --map <mapping.json>");
+  if (!output) throw new CliError("recolor requires -o <output>");
+  if (!existsSync(input)) throw new CliError(`Input not found: ${input}`);
+
+  const mappings = readMappings(mapPath);
+
+  if (!statSync(input).isDirectory()) {
+    // An existing directory receives the GIF under its own name
+    const target = isDirectory(output)
+      ? join(output, basename(input))
+      : output;
+    if (isSamePath(input, target)) {
+      throw new CliError(`Output would overwrite the input: ${target}`);
+    }
+    recolorFile(input, target, mappings, snapToNearest);
+    return;
+  }
+
+  // Directory mode writes each recolored GIF under the same name, so it must
+  // not write into the input directory itself
+  if (isSamePath(input, output)) {
+    throw new CliError(`Output would overwrite the input GIFs: ${output}`);
+  }
+  if (existsSync(output) && !isDirectory(output)) {
+    throw new CliError(`Output must be a directory: ${output}`);
+  }
+
+  const gifs = readdirSync(input).filter((name) => /\.gif$/i.test(name));
+  if (gifs.length === 0) throw new CliError(`No GIF files in ${input}`);
+
+  mkdirSync(output, { recursive: true });
+  gifs.forEach((name) => {
+    recolorFile(
+      join(input, name),
+      join(output, basename(name)),
+      mappings,
+      snapToNearest
+    );
+  });
+};
+
+const formatPaletteCsv = (palette: ColorCount[]): string => {
+  const rows = palette.map(
+    ({ color, count, rgb }) =>
+      `"${color}",${rgbToHex(rgb)},${rgb[0]},${rgb[1]},${rgb[2]},${count}`
+  );
+  return ["color,hex,r,g,b,count", ...rows].join("\n");
+};
+
+const palette = (input: string, format = "json") => {
+  if (!existsSync(input)) throw new CliError(`Input not found: ${input}`);
+
+  const colors = getPalette(readGif(input).frames);
+
+  if (format === "csv") {
+    console.log(formatPaletteCsv(colors));
+  } else if (format === "json") {
+    console.log(JSON.stringify(colors, null, 2));
+  } else {
+    throw new CliError(`Unknown palette format: ${format}`);
+  }
+};
+
+const main = (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      map: { type: "string", short: "m" },
+      output: { type: "string", short: "o" },
+      format: { type: "string", short: "f" },
+      snap: { type: "boolean", short: "s" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [command, input] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (!input) throw new CliError(`${command} requires an input path`);
+
+  switch (command) {
+    case "recolor":
+      recolor(input, values.map, values.output, values.snap);
+      break;
+    case "palette":
+      palette(input, values.format);
+      break;
+    default:
+      throw new CliError(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+};
+
+try {
+  main(process.argv.slice(2));
+} catch (err) {
+  if (err instanceof CliError || (err instanceof TypeError && "code" in err)) {
+    // parseArgs reports bad flags as TypeErrors with an ERR_PARSE_ARGS code
+    console.error(err.message);
+  } else {
+    console.error(err);
+  }
+  process.exit(1);
+}
@@ -1,66 +1,444 @@
-import { useState, useRef, useEffect, useCallback } from "react";
-import { parseGIF, decompressFrames } from "gifuct-js";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
+import {
+  buildColorLookup,
+  reorderFrames,
+  setFrameDelays,
+  reorderFrameScope,
+  reorderMappingScopes,
+  reorderMaskLayers,
+  trackMask,
+  cloneFrames,
+  encodeGif,
+  createZip,
+  createFrameCompositor,
+  compositeFrames,
+  getScreenSize,
+  hexToRgb,
+  rgbToHex,
+  validateHexColor,
+  serializePreset,
+  parsePreset,
+  matchPresetToPalette,
+  isFrameInScope,
+  describeFrameScope,
+  mappingKey,
+  mergeMappings,
+  previewHslAdjustment,
+  getMaskLayer,
+  editMaskLayer,
+  pointerToPixel,
+  inspectPixel,
+  rgbKey,
+  countColorByFrame,
+  dimOtherColors,
+  tintColor,
+  playbackDelay,
+  nextPlaybackPosition,
+  createVariant,
+  setVariantMappings,
+  mapVariantMappings,
+  uniqueVariantSlugs,
+  CVD_TYPES,
+  simulateCvd,
+  createCvdSimulator,
+  findConfusableColors,
+} from "./lib";
+import type {
+  GifFrame,
+  GifInfo,
+  ColorCount,
+  ColorMapping,
+  DecodedGif,
+  FrameScope,
+  PresetMatch,
+  PlaybackMode,
+  PaletteVariant,
+  CvdType,
+  ConfusableColor,
+  RegionMask,
+  HslPreview,
+} from "./lib";
+import { downloadFile } from "./download";
+import { decodeImageFile } from "./imagePixels";
+import { colors } from "./theme";
+import { useHistory } from "./hooks/useHistory";
+import { useFrameWorker } from "./hooks/useFrameWorker";
+import HistoryPanel from "./components/HistoryPanel";
+import PaletteTransferPanel from "./components/PaletteTransferPanel";
+import HslAdjustPanel from "./components/HslAdjustPanel";
+import TargetPalettePanel from "./components/TargetPalettePanel";
+import PaletteExportMenu from "./components/PaletteExportMenu";
+import FrameScopeEditor from "./components/FrameScopeEditor";
+import MaskPanel from "./components/MaskPanel";
+import MaskOverlay from "./components/MaskOverlay";
+import type { MaskToolSettings } from "./components/MaskOverlay";
+import PixelInspector from "./components/PixelInspector";
+import FrameUsageStrip from "./components/FrameUsageStrip";
+import FrameTimeline from "./components/FrameTimeline";
+import PlaybackControls from "./components/PlaybackControls";
+import VariantBar from "./components/VariantBar";
+import VariantGrid from "./components/VariantGrid";
+import ConfusableFlag from "./components/ConfusableFlag";
+import ContrastReportPanel from "./components/ContrastReportPanel";
+import ReducePalettePanel from "./components/ReducePalettePanel";
+import SpriteSheetImport from "./components/SpriteSheetImport";
+import SpriteSheetExport from "./components/SpriteSheetExport";
 import "./App.css";
 
-// Minimal dark mode colors
-const colors = {
-  background: "#121212",
-  surface: "#1E1E1E",
-  text: "#E1E1E1",
-  accent: "#555555",
-  border: "#333333",
-  primary: "#BB86FC",
-};
-
-// Types for our GIF data
-interface GifFrame {
-  dims: {
-    width: number;
-    height: number;
-    top: number;
-    left: number;
-  };
-  delay: number;
-  disposalType: number;
-  patch: Uint8ClampedArray;
-  pixels: number[];
-  transparentIndex?: number;
-  colorTable: [number, number, number][];
+// Pixel data for one thumbnail in the unrolled frames view
+interface FrameImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
 }
 
-interface ColorCount {
-  color: string;
-  count: number;
-  rgb: [number, number, number];
-}
+// How the selected color is singled out in the views
+type IsolateMode = "off" | "dim" | "flash";
+
+// Overlay color for flashing the selected color's pixels
+const HIGHLIGHT_RGB = hexToRgb(colors.primary);
+
+// How often flashing pixels toggle, in milliseconds
+const FLASH_INTERVAL_MS = 400;
 
-interface ColorMapping {
-  originalColor: string;
-  originalRgb: [number, number, number];
-  newColor: string;
-  newRgb: [number, number, number];
+// Non-GIF uploads, decoded frame by frame by the browser
+const IMAGE_TYPES = ["image/png", "image/apng", "image/webp"];
+
+// Which of a color's mappings is being edited: one per frame scope and mask
+type MappingTarget = Pick<ColorMapping, "frames" | "maskId">;
+
+// Everything undo and redo step through. Frames are included so timeline
+// edits can be undone, and masks because their layers follow the frames.
+interface EditState {
+  frames: GifFrame[];
+  // Each variant is a named set of mappings; edits go to the active one
+  variants: PaletteVariant[];
+  masks: RegionMask[];
 }
 
+// Mapping fields for a target, leaving out the unset ones
+const targetFields = (target: MappingTarget): MappingTarget => ({
+  ...(target.frames ? { frames: target.frames } : {}),
+  ...(target.maskId ? { maskId: target.maskId } : {}),
+});
+
+// Draw a composited screen buffer to a canvas and its zoomed counterpart
+const drawScreen = (
+  screen: Uint8ClampedArray,
+  canvas: HTMLCanvasElement,
+  zoomedCanvas: HTMLCanvasElement
+) => {
+  const ctx = canvas.getContext("2d")!;
+  const imageData = ctx.createImageData(canvas.width, canvas.height);
+  // Canvas may not have been resized for a newly loaded GIF yet
+  if (imageData.data.length !== screen.length) return;
+  imageData.data.set(screen);
+  ctx.putImageData(imageData, 0, 0);
+
+  const zoomedCtx = zoomedCanvas.getContext("2d")!;
+  zoomedCtx.clearRect(0, 0, zoomedCanvas.width, zoomedCanvas.height);
+
+  // Set pixelated scaling
+  zoomedCtx.imageSmoothingEnabled = false;
+
+  zoomedCtx.drawImage(
+    canvas,
+    0,
+    0,
+    canvas.width,
+    canvas.height,
+    0,
+    0,
+    zoomedCanvas.width,
+    zoomedCanvas.height
+  );
+};
+
 function App() {
+  // Undoable edit state, see EditState
+  const editHistory = useHistory<EditState>(
+    { frames: [], variants: [createVariant([])], masks: [] },
+    "Start"
+  );
+  const { frames, variants, masks } = editHistory.state;
+  const { undo, redo } = editHistory;
+  // Record an edit of part of the state as one undo step
+  const pushEdit = (
+    edit: Partial<EditState>,
+    label: string,
+    coalesceKey?: string
+  ) => editHistory.push({ ...editHistory.state, ...edit }, label, coalesceKey);
+
   // State for file upload and GIF data
-  const [frames, setFrames] = useState<GifFrame[]>([]);
+  const [gifInfo, setGifInfo] = useState<GifInfo | null>(null);
+  const [fileName, setFileName] = useState("");
+  // Counts loaded animations, so panels can start afresh with each one
+  const [loadCount, setLoadCount] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+
+  // Decoding and remapping run in a worker to keep the page responsive
+  const {
+    decode: decodeInWorker,
+    load: loadIntoWorker,
+    remap: remapInWorker,
+    remapVariant: remapVariantInWorker,
+    progress: workerProgress,
+  } = useFrameWorker();
   const [currentFrameIndex, setCurrentFrameIndex] = useState(0);
+  // Lets effects redraw the shown frame without depending on its index
+  const currentFrameIndexRef = useRef(0);
+  currentFrameIndexRef.current = currentFrameIndex;
   const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  const [playbackMode, setPlaybackMode] = useState<PlaybackMode>("loop");
+  // Playback state that outlives animation loop restarts: the direction and
+  // passes played so far, time spent on the shown frame, and whether the last
+  // run stopped at the end of the animation
+  const playbackRef = useRef({
+    direction: 1 as 1 | -1,
+    pass: 0,
+    elapsed: 0,
+    ended: false,
+  });
+  // Time of the animation loop's last tick, kept across restarts of the loop
+  // so no time is lost; null while paused
+  const lastTickRef = useRef<number | null>(null);
   const [zoomLevel, setZoomLevel] = useState(3);
   const [showUnrolled, setShowUnrolled] = useState(false);
+  const [showRawPatches, setShowRawPatches] = useState(false);
+  const [showSheetImport, setShowSheetImport] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  // Reduce PNG/WebP input with too many colors instead of rejecting it
+  const [quantizeInput, setQuantizeInput] = useState(false);
   const [colorPalette, setColorPalette] = useState<ColorCount[]>([]);
-
-  // State for color remapping
-  const [colorMappings, setColorMappings] = useState<ColorMapping[]>([]);
+  // Frames the palette was counted from
+  const paletteSourceRef = useRef<GifFrame[]>([]);
+
+  // Variant whose mappings are shown and edited
+  const [activeVariantId, setActiveVariantId] = useState(variants[0].id);
+  // Undo can remove the active variant, in which case the first one is shown
+  const activeVariant =
+    variants.find((variant) => variant.id === activeVariantId) ?? variants[0];
+  const colorMappings = activeVariant.mappings;
+  const pushMappings = (
+    mappings: ColorMapping[],
+    label: string,
+    coalesceKey?: string
+  ) =>
+    pushEdit(
+      { variants: setVariantMappings(variants, activeVariant.id, mappings) },
+      label,
+      coalesceKey
+    );
+  const [showVariantGrid, setShowVariantGrid] = useState(false);
   const [selectedColor, setSelectedColor] = useState<ColorCount | null>(null);
-  const [remappedFrames, setRemappedFrames] = useState<GifFrame[]>([]);
+  const [selectedTarget, setSelectedTarget] = useState<MappingTarget>({});
+  const selectedMapping = selectedColor
+    ? colorMappings.find(
+        (m) =>
+          mappingKey(m) ===
+          mappingKey({ originalColor: selectedColor.color, ...selectedTarget })
+      )
+    : undefined;
+
+  // Region masks are painted on the original zoomed view
+  const [activeMaskId, setActiveMaskId] = useState<string | null>(null);
+  const [maskSettings, setMaskSettings] = useState<MaskToolSettings>({
+    tool: "brush",
+    brushSize: 1,
+    erase: false,
+  });
+  const activeMask = masks.find((mask) => mask.id === activeMaskId);
+
+  // Isolating the selected color in the views
+  const [isolateMode, setIsolateMode] = useState<IsolateMode>("off");
+  const [flashOn, setFlashOn] = useState(false);
+  const isIsolating = !!selectedColor && isolateMode !== "off";
+
+  // What each palette color resolves to on every frame, including tolerance
+  // matches; frame-scoped and masked mappings are left out
+  const paletteLookup = useMemo(
+    () =>
+      buildColorLookup(
+        colorPalette.map((color) => color.rgb),
+        colorMappings.filter((mapping) => !mapping.frames && !mapping.maskId)
+      ),
+    [colorPalette, colorMappings]
+  );
+
+  // Color vision deficiency simulated on the remapped views and swatches
+  const [cvdMode, setCvdMode] = useState<CvdType | "none">("none");
+  const cvdSimulator = useMemo(
+    () => (cvdMode === "none" ? null : createCvdSimulator(cvdMode)),
+    [cvdMode]
+  );
+  const simulateImage = useCallback(
+    (image: Uint8ClampedArray) => (cvdSimulator ? cvdSimulator(image) : image),
+    [cvdSimulator]
+  );
+  // CSS color of a swatch as seen with the simulated deficiency
+  const swatchColor = (css: string, rgb: [number, number, number]) =>
+    cvdMode === "none" ? css : rgbToHex(simulateCvd(rgb, cvdMode));
+
+  // Mapped colors that become hard to tell apart from another color of the
+  // remapped palette with the simulated deficiency, keyed by rgbKey
+  const confusableColors = useMemo(() => {
+    if (cvdMode === "none") return new Map<string, ConfusableColor[]>();
+    const remappedPalette = [
+      ...colorPalette.map(
+        (color) => paletteLookup.get(color.color)?.rgb ?? color.rgb
+      ),
+      ...colorMappings.map((mapping) => mapping.newRgb),
+    ];
+    return findConfusableColors(
+      colorMappings.map((mapping) => mapping.newRgb),
+      remappedPalette,
+      cvdMode
+    );
+  }, [cvdMode, colorPalette, paletteLookup, colorMappings]);
+
+  // Uncommitted adjustment shown while it is being dragged
+  const [hslPreview, setHslPreview] = useState<HslPreview | null>(null);
+  const displayedMappings = useMemo(
+    () =>
+      hslPreview
+        ? previewHslAdjustment(colorPalette, colorMappings, hslPreview)
+        : colorMappings,
+    [hslPreview, colorPalette, colorMappings]
+  );
+
+  // Latest remap from the worker and the frames, mappings and masks it was
+  // made from
+  const [remapResult, setRemapResult] = useState<{
+    source: GifFrame[];
+    mappings: ColorMapping[];
+    masks: RegionMask[];
+    frames: GifFrame[];
+  } | null>(null);
+
+  // Pixel counts change with timeline edits and their undo, so the palette is
+  // recounted. This runs before the remap below, whose frames the load would
+  // otherwise replace.
+  useEffect(() => {
+    if (frames.length === 0 || paletteSourceRef.current === frames) return;
+    paletteSourceRef.current = frames;
+
+    loadIntoWorker(frames)
+      .then((palette) => {
+        if (paletteSourceRef.current === frames) setColorPalette(palette);
+      })
+      .catch((err) => console.error(err));
+  }, [frames, loadIntoWorker]);
+
+  // Undo can remove frames from the end. The ref is updated here too, so the
+  // frames are redrawn at the clamped index.
+  useEffect(() => {
+    if (frames.length > 0 && currentFrameIndex >= frames.length) {
+      currentFrameIndexRef.current = frames.length - 1;
+      setCurrentFrameIndex(frames.length - 1);
+    }
+  }, [frames, currentFrameIndex]);
+
+  // Remapped frames follow the edit state, so undo/redo re-renders them
+  // too. While a remap is running the previous result stays on screen.
+  useEffect(() => {
+    if (frames.length === 0 || displayedMappings.length === 0) return;
+
+    remapInWorker(frames, displayedMappings, masks)
+      .then((remapped) => {
+        if (remapped) {
+          setRemapResult({
+            source: frames,
+            mappings: displayedMappings,
+            masks,
+            frames: remapped,
+          });
+        }
+      })
+      .catch((err) => {
+        setError("Failed to remap colors");
+        console.error(err);
+      });
+  }, [frames, displayedMappings, masks, remapInWorker]);
+
+  const remappedFrames = useMemo(
+    () =>
+      displayedMappings.length > 0 && remapResult?.source === frames
+        ? remapResult.frames
+        : cloneFrames(frames),
+    [frames, displayedMappings, remapResult]
+  );
+
+  // Frames remapped with a variant's committed mappings, for the grid view and
+  // exports. The shown remap is reused when it was made from exactly these;
+  // otherwise, e.g. while a preview is shown or a remap is still running,
+  // the worker remaps them on demand and they are kept until their mappings,
+  // the frames or the masks change.
+  const variantRemapCache = useRef(
+    new WeakMap<
+      ColorMapping[],
+      { source: GifFrame[]; masks: RegionMask[]; frames: Promise<GifFrame[]> }
+    >()
+  );
+  const remapVariant = useCallback(
+    (variant: PaletteVariant): Promise<GifFrame[]> => {
+      if (variant.mappings.length === 0) return Promise.resolve(frames);
+      if (
+        remapResult?.source === frames &&
+        remapResult.mappings === variant.mappings &&
+        remapResult.masks === masks
+      ) {
+        return Promise.resolve(remapResult.frames);
+      }
+
+      const cache = variantRemapCache.current;
+      const cached = cache.get(variant.mappings);
+      if (cached?.source === frames && cached.masks === masks) {
+        return cached.frames;
+      }
+      const remapped = remapVariantInWorker(frames, variant.mappings, masks);
+      cache.set(variant.mappings, { source: frames, masks, frames: remapped });
+      // Failures are not kept, so the next request tries again
+      remapped.catch(() => cache.delete(variant.mappings));
+      return remapped;
+    },
+    [remapResult, frames, masks, remapVariantInWorker]
+  );
+
+  // Variants shown in the grid with their frames. The last finished set
+  // stays on screen while a newer one is remapped.
+  const [variantGrid, setVariantGrid] = useState<{
+    variants: PaletteVariant[];
+    frames: GifFrame[][];
+  } | null>(null);
+  useEffect(() => {
+    if (!showVariantGrid) {
+      setVariantGrid(null);
+      return;
+    }
+
+    let isCurrent = true;
+    Promise.all(variants.map(remapVariant))
+      .then((variantFrames) => {
+        if (isCurrent) setVariantGrid({ variants, frames: variantFrames });
+      })
+      .catch((err) => {
+        setError("Failed to remap variants");
+        console.error(err);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [showVariantGrid, variants, remapVariant]);
+
+  // State for mapping presets
+  const [snapToNearest, setSnapToNearest] = useState(false);
+  const [presetReport, setPresetReport] = useState<PresetMatch | null>(null);
 
   // Refs for canvas elements
   const regularCanvasRef = useRef<HTMLCanvasElement>(null);
   const zoomedCanvasRef = useRef<HTMLCanvasElement>(null);
-  const tempCanvasRef = useRef<HTMLCanvasElement>(null);
 
   // Refs for remapped canvas elements
   const remappedCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -75,144 +453,228 @@ function App() {
       const selectedFile = event.target.files[0];
       if (selectedFile.type === "image/gif") {
         parseGifFile(selectedFile);
+      } else if (IMAGE_TYPES.includes(selectedFile.type)) {
+        parseImageFile(selectedFile);
       } else {
-        setError("Please upload a GIF file");
+        setError("Please upload a GIF, PNG, APNG or WebP file");
       }
     }
   };
 
-  // Parse the GIF file using gifuct-js
+  // Show a newly loaded animation (a GIF or an imported sprite sheet)
+  const showAnimation = (
+    { frames: parsedFrames, info }: DecodedGif,
+    name: string,
+    palette: ColorCount[]
+  ) => {
+    setGifInfo(info);
+    setFileName(name);
+    setLoadCount((count) => count + 1);
+    setCurrentFrameIndex(0);
+    playbackRef.current = { direction: 1, pass: 0, elapsed: 0, ended: false };
+
+    // Start a fresh history, without mappings or masks, for a new GIF
+    const firstVariant = createVariant([]);
+    editHistory.reset({
+      frames: parsedFrames,
+      variants: [firstVariant],
+      masks: [],
+    });
+    setActiveVariantId(firstVariant.id);
+    setHslPreview(null);
+    setSelectedColor(null);
+    setPresetReport(null);
+    setActiveMaskId(null);
+
+    paletteSourceRef.current = parsedFrames;
+    setColorPalette(palette);
+
+    // Start animation if we have frames
+    if (parsedFrames.length > 0) {
+      setIsPlaying(true);
+    }
+  };
+
+  const handleSheetImport = async (decoded: DecodedGif, name: string) => {
+    setError(null);
+    setShowSheetImport(false);
+    setIsLoading(true);
+
+    try {
+      const palette = await loadIntoWorker(decoded.frames);
+      showAnimation(decoded, name, palette);
+    } catch (err) {
+      setError("Failed to load sprite sheet");
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Parse the GIF file in the worker
   const parseGifFile = async (gifFile: File) => {
     setIsLoading(true);
     setError(null);
 
     try {
       const arrayBuffer = await gifFile.arrayBuffer();
-      const gif = parseGIF(arrayBuffer);
-      const parsedFrames = decompressFrames(gif, true);
-
-      setFrames(parsedFrames);
-      setCurrentFrameIndex(0);
-
-      // Reset color mappings when loading a new GIF
-      setColorMappings([]);
-      setSelectedColor(null);
-
-      // Initialize remapped frames with deep copies of original frames (no changes yet)
-      // We need to create deep copies to avoid reference issues
-      const initialRemappedFrames = parsedFrames.map((frame) => ({
-        ...frame,
-        colorTable: [...frame.colorTable],
-        patch: new Uint8ClampedArray(frame.patch),
-      }));
-      setRemappedFrames(initialRemappedFrames);
+      const { decoded, palette } = await decodeInWorker(arrayBuffer);
+      showAnimation(decoded, gifFile.name, palette);
+    } catch (err) {
+      setError("Failed to parse GIF file");
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      // Extract color palette
-      extractColorPalette(parsedFrames);
+  // Decode a PNG, APNG or WebP into indexed frames
+  const parseImageFile = async (imageFile: File) => {
+    setIsLoading(true);
+    setError(null);
 
-      // Start animation if we have frames
-      if (parsedFrames.length > 0) {
-        setIsPlaying(true);
-      }
+    try {
+      const decoded = await decodeImageFile(imageFile, {
+        quantize: quantizeInput,
+      });
+      const palette = await loadIntoWorker(decoded.frames);
+      showAnimation(decoded, imageFile.name, palette);
     } catch (err) {
-      setError("Failed to parse GIF file");
+      setError(
+        err instanceof Error ? err.message : "Failed to decode image file"
+      );
       console.error(err);
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Extract color palette from all frames
-  const extractColorPalette = (gifFrames: GifFrame[]) => {
-    const colorMap = new Map<
-      string,
-      { count: number; rgb: [number, number, number] }
-    >();
+  // Logical screen size shared by both the original and remapped views
+  const screenSize = useMemo(
+    () => getScreenSize(frames, gifInfo),
+    [frames, gifInfo]
+  );
 
-    gifFrames.forEach((frame) => {
-      const { pixels, colorTable, transparentIndex } = frame;
+  // Compositors keep a back buffer so disposal methods are honored
+  const compositor = useMemo(
+    () =>
+      createFrameCompositor(frames, screenSize.width, screenSize.height),
+    [frames, screenSize]
+  );
+  const remappedCompositor = useMemo(
+    () =>
+      createFrameCompositor(
+        remappedFrames,
+        screenSize.width,
+        screenSize.height
+      ),
+    [remappedFrames, screenSize]
+  );
 
-      pixels.forEach((pixelIndex) => {
-        // Skip transparent pixels
-        if (pixelIndex === transparentIndex) return;
+  // Thumbnails for the unrolled view: fully composited frames by default,
+  // or the raw per-frame patches as stored in the file
+  const toFrameImages = useCallback(
+    (frameList: GifFrame[]): FrameImage[] => {
+      if (!showUnrolled) return [];
+
+      if (showRawPatches) {
+        return frameList.map((frame) => ({
+          data: frame.patch,
+          width: frame.dims.width,
+          height: frame.dims.height,
+        }));
+      }
 
-        const rgb = colorTable[pixelIndex];
-        const colorKey = `rgb(${rgb[0]},${rgb[1]},${rgb[2]})`;
+      const { width, height } = screenSize;
+      return compositeFrames(frameList, width, height).map((data) => ({
+        data,
+        width,
+        height,
+      }));
+    },
+    [showUnrolled, showRawPatches, screenSize]
+  );
+  const unrolledFrames = useMemo(
+    () => toFrameImages(frames),
+    [frames, toFrameImages]
+  );
+  const unrolledRemappedFrames = useMemo(
+    () => toFrameImages(remappedFrames),
+    [remappedFrames, toFrameImages]
+  );
 
-        if (colorMap.has(colorKey)) {
-          const current = colorMap.get(colorKey)!;
-          colorMap.set(colorKey, { count: current.count + 1, rgb });
-        } else {
-          colorMap.set(colorKey, { count: 1, rgb });
-        }
-      });
-    });
+  // Timeline thumbnails show the frames as remapped
+  const timelineThumbnails = useMemo(
+    () =>
+      showTimeline
+        ? compositeFrames(remappedFrames, screenSize.width, screenSize.height)
+        : [],
+    [showTimeline, remappedFrames, screenSize]
+  );
+
+  // Apply the isolate mode to an image; pixels are matched by the original
+  // view's image so both views single out the same pixels
+  const isolateImage = useCallback(
+    (image: Uint8ClampedArray, reference: Uint8ClampedArray) => {
+      if (!selectedColor || isolateMode === "off") return image;
+      if (isolateMode === "dim") {
+        return dimOtherColors(image, reference, selectedColor.rgb);
+      }
+      return flashOn
+        ? tintColor(image, reference, selectedColor.rgb, HIGHLIGHT_RGB)
+        : image;
+    },
+    [selectedColor, isolateMode, flashOn]
+  );
 
-    // Convert map to array and sort by count (descending)
-    const sortedColors = Array.from(colorMap.entries())
-      .map(([color, { count, rgb }]) => ({ color, count, rgb }))
-      .sort((a, b) => b.count - a.count);
+  const isolatedUnrolledFrames = useMemo(
+    () =>
+      unrolledFrames.map((image) => ({
+        ...image,
+        data: isolateImage(image.data, image.data),
+      })),
+    [unrolledFrames, isolateImage]
+  );
+  const isolatedUnrolledRemappedFrames = useMemo(
+    () =>
+      unrolledRemappedFrames.map((image, index) => ({
+        ...image,
+        data: simulateImage(
+          isolateImage(image.data, unrolledFrames[index]?.data ?? image.data)
+        ),
+      })),
+    [unrolledRemappedFrames, unrolledFrames, isolateImage, simulateImage]
+  );
 
-    setColorPalette(sortedColors);
-  };
+  // Where the selected color appears, frame by frame
+  const selectedColorFrameCounts = useMemo(
+    () => (selectedColor ? countColorByFrame(frames, selectedColor.color) : []),
+    [frames, selectedColor]
+  );
+
+  // Toggle the flash overlay while flashing is on
+  useEffect(() => {
+    if (!isIsolating || isolateMode !== "flash") return;
+
+    const timer = setInterval(
+      () => setFlashOn((prev) => !prev),
+      FLASH_INTERVAL_MS
+    );
+    return () => clearInterval(timer);
+  }, [isIsolating, isolateMode]);
 
   // Render a frame to canvas
   const renderFrame = useCallback(
     (frameIndex: number) => {
-      if (
-        !frames.length ||
-        !regularCanvasRef.current ||
-        !zoomedCanvasRef.current ||
-        !tempCanvasRef.current
-      )
+      if (!frames.length || !regularCanvasRef.current || !zoomedCanvasRef.current)
         return;
 
       // Render original frame
-      const frame = frames[frameIndex];
-      const { dims, patch } = frame;
-
-      // Set up temp canvas for frame rendering
-      const tempCanvas = tempCanvasRef.current;
-      tempCanvas.width = dims.width;
-      tempCanvas.height = dims.height;
-      const tempCtx = tempCanvas.getContext("2d")!;
-
-      // Create ImageData and set patch data
-      const imageData = tempCtx.createImageData(dims.width, dims.height);
-      imageData.data.set(patch);
-      tempCtx.putImageData(imageData, 0, 0);
-
-      // Render to regular size canvas
-      const regularCanvas = regularCanvasRef.current;
-      const regularCtx = regularCanvas.getContext("2d")!;
-
-      // Always clear the canvas before drawing a new frame
-      regularCtx.clearRect(0, 0, regularCanvas.width, regularCanvas.height);
-
-      // Draw the frame at its position
-      regularCtx.drawImage(tempCanvas, dims.left, dims.top);
-
-      // Render to zoomed canvas with pixelated scaling
-      const zoomedCanvas = zoomedCanvasRef.current;
-      const zoomedCtx = zoomedCanvas.getContext("2d")!;
-
-      // Clear zoomed canvas
-      zoomedCtx.clearRect(0, 0, zoomedCanvas.width, zoomedCanvas.height);
-
-      // Set pixelated scaling
-      zoomedCtx.imageSmoothingEnabled = false;
-
-      // Draw the zoomed frame
-      zoomedCtx.drawImage(
-        regularCanvas,
-        0,
-        0,
-        regularCanvas.width,
-        regularCanvas.height,
-        0,
-        0,
-        zoomedCanvas.width,
-        zoomedCanvas.height
+      const original = compositor.render(frameIndex);
+      drawScreen(
+        isolateImage(original, original),
+        regularCanvasRef.current,
+        zoomedCanvasRef.current
       );
 
       // Render remapped frame if available
@@ -221,91 +683,82 @@ function App() {
         remappedCanvasRef.current &&
         remappedZoomedCanvasRef.current
       ) {
-        const remappedFrame = remappedFrames[frameIndex];
-
-        // Reuse the temp canvas for remapped frame
-        tempCanvas.width = dims.width;
-        tempCanvas.height = dims.height;
-
-        // Create ImageData for remapped frame
-        const remappedImageData = tempCtx.createImageData(
-          dims.width,
-          dims.height
-        );
-        remappedImageData.data.set(remappedFrame.patch);
-        tempCtx.putImageData(remappedImageData, 0, 0);
-
-        // Render to remapped regular size canvas
-        const remappedCanvas = remappedCanvasRef.current;
-        const remappedCtx = remappedCanvas.getContext("2d")!;
-
-        // Clear canvas
-        remappedCtx.clearRect(
-          0,
-          0,
-          remappedCanvas.width,
-          remappedCanvas.height
-        );
-
-        // Draw the remapped frame
-        remappedCtx.drawImage(tempCanvas, dims.left, dims.top);
-
-        // Render to remapped zoomed canvas
-        const remappedZoomedCanvas = remappedZoomedCanvasRef.current;
-        const remappedZoomedCtx = remappedZoomedCanvas.getContext("2d")!;
-
-        // Clear canvas
-        remappedZoomedCtx.clearRect(
-          0,
-          0,
-          remappedZoomedCanvas.width,
-          remappedZoomedCanvas.height
-        );
-
-        // Set pixelated scaling
-        remappedZoomedCtx.imageSmoothingEnabled = false;
-
-        // Draw the zoomed remapped frame
-        remappedZoomedCtx.drawImage(
-          remappedCanvas,
-          0,
-          0,
-          remappedCanvas.width,
-          remappedCanvas.height,
-          0,
-          0,
-          remappedZoomedCanvas.width,
-          remappedZoomedCanvas.height
+        drawScreen(
+          simulateImage(
+            isolateImage(remappedCompositor.render(frameIndex), original)
+          ),
+          remappedCanvasRef.current,
+          remappedZoomedCanvasRef.current
         );
       }
     },
-    [frames, remappedFrames]
+    [
+      frames,
+      remappedFrames,
+      compositor,
+      remappedCompositor,
+      isolateImage,
+      simulateImage,
+    ]
   );
+  // Lets the animation loop draw with the latest remap and overlays without
+  // restarting whenever they change
+  const renderFrameRef = useRef(renderFrame);
+  renderFrameRef.current = renderFrame;
 
-  // Animation loop
+  // Animation loop. Time left over after a frame's delay carries into the
+  // next frame, so playback keeps pace with the delays instead of drifting.
   useEffect(() => {
-    if (!frames.length || !isPlaying) return;
+    if (!frames.length || !isPlaying) {
+      lastTickRef.current = null;
+      return;
+    }
 
-    let lastTimestamp = 0;
-    let accumulatedTime = 0;
+    const playback = playbackRef.current;
 
     const animate = (timestamp: number) => {
-      if (!lastTimestamp) lastTimestamp = timestamp;
-
-      const deltaTime = timestamp - lastTimestamp;
-      lastTimestamp = timestamp;
-
-      accumulatedTime += deltaTime;
+      if (lastTickRef.current !== null) {
+        // Skip ahead at most one second, e.g. after the tab was hidden
+        const deltaTime = Math.min(timestamp - lastTickRef.current, 1000);
+        playback.elapsed += deltaTime * playbackSpeed;
+      }
+      lastTickRef.current = timestamp;
 
-      const currentFrame = frames[currentFrameIndex];
-      if (accumulatedTime >= currentFrame.delay) {
-        accumulatedTime = 0;
-        const nextFrameIndex = (currentFrameIndex + 1) % frames.length;
-        setCurrentFrameIndex(nextFrameIndex);
-        renderFrame(nextFrameIndex);
+      const shownIndex = Math.min(
+        currentFrameIndexRef.current,
+        frames.length - 1
+      );
+      let index = shownIndex;
+      let delay = playbackDelay(frames[index].delay);
+      while (playback.elapsed >= delay) {
+        const next = nextPlaybackPosition(
+          { index, direction: playback.direction, pass: playback.pass },
+          frames.length,
+          playbackMode,
+          gifInfo?.loopCount
+        );
+        if (!next) {
+          playback.elapsed = 0;
+          playback.ended = true;
+          setIsPlaying(false);
+          break;
+        }
+        playback.elapsed -= delay;
+        playback.direction = next.direction;
+        playback.pass = next.pass;
+        index = next.index;
+        delay = playbackDelay(frames[index].delay);
       }
 
-      animationRef.current = requestAnimationFrame(animate);
+      if (index !== shownIndex) {
+        // Keep the ref current until the next render
+        currentFrameIndexRef.current = index;
+        setCurrentFrameIndex(index);
+        renderFrameRef.current(index);
+      }
+      if (!playback.ended) {
+        animationRef.current = requestAnimationFrame(animate);
+      }
     };
 
     animationRef.current = requestAnimationFrame(animate);
@@ -315,7 +768,7 @@ function App() {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [frames, currentFrameIndex, isPlaying, renderFrame]);
+  }, [frames, isPlaying, playbackSpeed, playbackMode, gifInfo]);
 
   // Initialize canvas sizes when frames are loaded
   useEffect(() => {
@@ -323,13 +776,7 @@ function App() {
       return;
 
     // Find the dimensions of the GIF
-    let width = 0;
-    let height = 0;
-
-    frames.forEach((frame) => {
-      width = Math.max(width, frame.dims.left + frame.dims.width);
-      height = Math.max(height, frame.dims.top + frame.dims.height);
-    });
+    const { width, height } = screenSize;
 
     // Set canvas sizes for original GIF
     const regularCanvas = regularCanvasRef.current;
@@ -351,19 +798,108 @@ function App() {
       remappedZoomedCanvas.height = height * zoomLevel;
     }
 
-    // Render the first frame
-    renderFrame(0);
+    // Render the frame being shown (the first one after loading)
+    renderFrame(currentFrameIndexRef.current);
   }, [
     frames,
+    screenSize,
     zoomLevel,
     renderFrame,
     remappedCanvasRef,
     remappedZoomedCanvasRef,
   ]);
 
-  // Toggle play/pause
+  // Replace the frames after a timeline edit, along with any other state that
+  // follows them, as one undo step. The remapped frames get the same edit
+  // right away, so the remapped view doesn't wait for the worker.
+  const editFrames = (
+    edit: (frameList: GifFrame[]) => GifFrame[],
+    label: string,
+    update: Partial<EditState> = {}
+  ) => {
+    const nextFrames = edit(frames);
+    pushEdit({ ...update, frames: nextFrames }, label);
+    setRemapResult((result) =>
+      result?.source === frames
+        ? { ...result, source: nextFrames, frames: edit(result.frames) }
+        : result
+    );
+  };
+
+  const handleSetDelay = (frameIndices: number[], delay: number) => {
+    editFrames(
+      (frameList) => setFrameDelays(frameList, frameIndices, delay),
+      frameIndices.length === 1
+        ? `Set delay of frame ${frameIndices[0] + 1}`
+        : `Set delay of ${frameIndices.length} frames`
+    );
+  };
+
+  // Reorder, delete or duplicate frames. Frame-scoped mappings, tracked masks
+  // and the selection follow their frames.
+  const handleReorderFrames = (order: number[], label: string) => {
+    const { width, height } = screenSize;
+    try {
+      editFrames(
+        (frameList) => reorderFrames(frameList, order, width, height),
+        label,
+        {
+          variants: mapVariantMappings(variants, (mappings) =>
+            reorderMappingScopes(mappings, order)
+          ),
+          masks: masks.map((mask) => reorderMaskLayers(mask, order)),
+        }
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to edit frames");
+      return;
+    }
+
+    if (selectedTarget.frames) {
+      const scope = reorderFrameScope(selectedTarget.frames, order);
+      if (scope) {
+        setSelectedTarget({ ...selectedTarget, frames: scope });
+      } else {
+        setSelectedColor(null);
+        setSelectedTarget({});
+      }
+    }
+    setCurrentFrameIndex(Math.min(currentFrameIndex, order.length - 1));
+  };
+
+  // Show a frame right away; it gets its full delay once playback resumes
+  const showFrame = (frameIndex: number) => {
+    playbackRef.current.elapsed = 0;
+    playbackRef.current.ended = false;
+    currentFrameIndexRef.current = frameIndex;
+    setCurrentFrameIndex(frameIndex);
+    renderFrame(frameIndex);
+  };
+
+  // Pause and show a frame, e.g. from the scrubber or the timeline
+  const seekFrame = (frameIndex: number) => {
+    setIsPlaying(false);
+    showFrame(frameIndex);
+  };
+
+  // Toggle play/pause. Playing again after the animation ran out starts over.
   const togglePlayPause = () => {
-    setIsPlaying((prev) => !prev);
+    if (!isPlaying && playbackRef.current.ended) {
+      playbackRef.current = { direction: 1, pass: 0, elapsed: 0, ended: false };
+      showFrame(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  // A new mode counts its passes from the frame being shown
+  const handlePlaybackModeChange = (mode: PlaybackMode) => {
+    playbackRef.current = {
+      ...playbackRef.current,
+      direction: 1,
+      pass: 0,
+      ended: false,
+    };
+    setPlaybackMode(mode);
   };
 
   // Change zoom level
@@ -371,69 +907,118 @@ function App() {
     setZoomLevel(Number(e.target.value));
   };
 
-  // Toggle unrolled frames view
-  const toggleUnrolled = () => {
-    setShowUnrolled((prev) => !prev);
+  // Base name for exported files, derived from the uploaded file
+  const baseName = fileName.replace(/\.[^.]+$/, "") || "animation";
+
+  const currentDelay = frames[currentFrameIndex]?.delay ?? 0;
+
+  // Exports use the committed mappings of the active variant, never a
+  // preview or a remap that is still catching up
+  const getExportFrames = () => remapVariant(activeVariant);
+
+  // Export the remapped animation as a GIF file
+  const handleExportGif = async () => {
+    if (!gifInfo || !frames.length) return;
+
+    try {
+      const bytes = encodeGif(await getExportFrames(), gifInfo);
+      downloadFile(bytes, `${baseName}-remapped.gif`, "image/gif");
+    } catch (err) {
+      setError("Failed to export GIF");
+      console.error(err);
+    }
+  };
+
+  // Export a GIF for every variant, named after the variant, in one zip file.
+  // Browsers block a burst of separate downloads.
+  const handleExportAllVariants = async () => {
+    if (!gifInfo || !frames.length) return;
+
+    try {
+      const variantFrames = await Promise.all(variants.map(remapVariant));
+      const slugs = uniqueVariantSlugs(variants);
+      const zip = createZip(
+        variantFrames.map((frameList, index) => ({
+          name: `${baseName}-${slugs[index]}.gif`,
+          data: encodeGif(frameList, gifInfo),
+        }))
+      );
+      downloadFile(zip, `${baseName}-variants.zip`, "application/zip");
+    } catch (err) {
+      setError("Failed to export variants");
+      console.error(err);
+    }
   };
 
+  // Switch the mappings being edited and shown to another variant
+  const handleSelectVariant = (variantId: string) => {
+    setActiveVariantId(variantId);
+    setHslPreview(null);
+    setPresetReport(null);
+  };
 
-  // Function to determine if a color is light or dark
-  const isLightColor = (rgb: [number, number, number]): boolean => {
-    // Calculate relative luminance using the formula
-    // L = 0.299*R + 0.587*G + 0.114*B
-    const luminance = (0.299 * rgb[0] + 0.587 * rgb[1] + 0.114 * rgb[2]) / 255;
-    // Return true if the color is light (luminance > 0.5)
-    return luminance > 0.5;
+  // Save the current mappings as a versioned preset file
+  const handleSavePreset = () => {
+    downloadFile(
+      serializePreset(colorMappings, baseName),
+      `${baseName}-preset.json`,
+      "application/json"
+    );
   };
 
-  // Function to convert HEX to RGB
-  const hexToRgb = (hex: string): [number, number, number] => {
-    // Ensure the hex string has a # prefix
-    const formattedHex = hex.startsWith("#") ? hex : `#${hex}`;
-
-    // Handle both 3-digit and 6-digit hex formats
-    let result;
-    if (formattedHex.length === 4) {
-      // For 3-digit hex (#RGB), convert to 6-digit format (#RRGGBB)
-      result = /^#?([a-f\d])([a-f\d])([a-f\d])$/i.exec(formattedHex);
-      return result
-        ? [
-            parseInt(result[1] + result[1], 16),
-            parseInt(result[2] + result[2], 16),
-            parseInt(result[3] + result[3], 16),
-          ]
-        : [0, 0, 0];
-    } else {
-      // For 6-digit hex (#RRGGBB)
-      result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(formattedHex);
-      return result
-        ? [
-            parseInt(result[1], 16),
-            parseInt(result[2], 16),
-            parseInt(result[3], 16),
-          ]
-        : [0, 0, 0];
+  // Load a preset file and apply it to the current GIF
+  const handleLoadPreset = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const presetFile = event.target.files?.[0];
+    // Allow loading the same file again
+    event.target.value = "";
+    if (!presetFile) return;
+
+    try {
+      const preset = parsePreset(await presetFile.text());
+      const match = matchPresetToPalette(
+        preset.mappings,
+        colorPalette,
+        snapToNearest
+      );
+
+      pushMappings(match.mappings, `Load preset ${presetFile.name}`);
+      setSelectedColor(null);
+      setPresetReport(match);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load preset");
+      console.error(err);
     }
   };
 
-  // Function to convert RGB to HEX
-  const rgbToHex = (rgb: [number, number, number]): string => {
-    // Convert each RGB component to a 2-digit hex value
-    const r = rgb[0].toString(16).padStart(2, '0');
-    const g = rgb[1].toString(16).padStart(2, '0');
-    const b = rgb[2].toString(16).padStart(2, '0');
+  // Toggle unrolled frames view
+  const toggleUnrolled = () => {
+    setShowUnrolled((prev) => !prev);
+  };
 
-    // Return the hex color with # prefix
-    return `#${r}${g}${b}`;
+  // Frame scope and mask of a mapping for history labels
+  const describeTarget = (target: MappingTarget) => {
+    const mask = masks.find((m) => m.id === target.maskId);
+    return (
+      (target.frames ? ` on ${describeFrameScope(target.frames)}` : "") +
+      (mask ? ` in ${mask.name}` : "")
+    );
   };
 
   // Function to handle color selection for remapping
-  const handleColorSelect = (colorInfo: ColorCount) => {
+  const handleColorSelect = (
+    colorInfo: ColorCount,
+    target: MappingTarget = {}
+  ) => {
     setSelectedColor(colorInfo);
+    setSelectedTarget(target);
 
     // Check if this color is already mapped
+    const key = mappingKey({ originalColor: colorInfo.color, ...target });
     const existingMapping = colorMappings.find(
-      (mapping) => mapping.originalColor === colorInfo.color
+      (mapping) => mappingKey(mapping) === key
     );
 
     if (!existingMapping) {
@@ -443,35 +1028,19 @@ function App() {
         originalRgb: colorInfo.rgb,
         newColor: colorInfo.color,
         newRgb: colorInfo.rgb,
+        ...targetFields(target),
       };
-      setColorMappings([...colorMappings, newMapping]);
-    }
-  };
-
-  // Function to validate and format a hex color
-  const validateHexColor = (color: string): string | null => {
-    // Check if it's a valid hex color
-    const hexRegex = /^#?([a-f\d]{3}|[a-f\d]{6})$/i;
-    if (!hexRegex.test(color)) {
-      return null;
-    }
-
-    // Ensure it has a # prefix
-    const formattedColor = color.startsWith("#") ? color : `#${color}`;
-
-    // Convert 3-digit hex to 6-digit if needed
-    if (formattedColor.length === 4) {
-      const r = formattedColor[1];
-      const g = formattedColor[2];
-      const b = formattedColor[3];
-      return `#${r}${r}${g}${g}${b}${b}`;
+      pushMappings(
+        [...colorMappings, newMapping],
+        `Add ${colorInfo.color}${describeTarget(target)}`
+      );
     }
-
-    return formattedColor;
   };
 
-  // Function to update a color mapping
-  const updateColorMapping = (newColor: string) => {
+  // Function to update a color mapping. Continuous input, like a color picker
+  // drag, fires on every tick and is coalesced into one history entry;
+  // discrete picks such as target palette clicks each get their own.
+  const updateColorMapping = (newColor: string, isContinuous = false) => {
     if (!selectedColor) return;
 
     // Validate and format the hex color
@@ -485,7 +1054,7 @@ function App() {
     const newRgb = hexToRgb(validatedColor);
 
     const updatedMappings = colorMappings.map((mapping) => {
-      if (mapping.originalColor === selectedColor.color) {
+      if (mapping === selectedMapping) {
         return {
           ...mapping,
           newColor: validatedColor,
@@ -495,90 +1064,303 @@ function App() {
       return mapping;
     });
 
-    setColorMappings(updatedMappings);
+    // The mapping may be gone if its creation was undone while selected
+    if (!selectedMapping) {
+      updatedMappings.push({
+        originalColor: selectedColor.color,
+        originalRgb: selectedColor.rgb,
+        newColor: validatedColor,
+        newRgb,
+        ...targetFields(selectedTarget),
+      });
+    }
+
+    pushMappings(
+      updatedMappings,
+      `${selectedColor.color} → ${validatedColor}` +
+        describeTarget(selectedTarget),
+      isContinuous
+        ? `update:${mappingKey({
+            originalColor: selectedColor.color,
+            ...selectedTarget,
+          })}`
+        : undefined
+    );
+  };
+
+  // Function to change how far a mapping reaches into similar colors
+  const updateMappingTolerance = (tolerance: number) => {
+    if (!selectedMapping) return;
+
+    const updatedMappings = colorMappings.map((mapping) =>
+      mapping === selectedMapping ? { ...mapping, tolerance } : mapping
+    );
+
+    pushMappings(
+      updatedMappings,
+      `${selectedMapping.originalColor} tolerance ${tolerance}`,
+      `tolerance:${mappingKey(selectedMapping)}`
+    );
+  };
+
+  // Function to move the selected mapping to another frame scope or mask
+  const retargetSelectedMapping = (
+    target: MappingTarget,
+    label: string,
+    coalesceKey: string
+  ) => {
+    if (!selectedMapping) return;
+
+    const updated: ColorMapping = { ...selectedMapping };
+    delete updated.frames;
+    delete updated.maskId;
+    Object.assign(updated, targetFields(target));
+
+    // A mapping that already had the new target is replaced by this one
+    const key = mappingKey(updated);
+    const updatedMappings = colorMappings
+      .filter(
+        (mapping) => mapping === selectedMapping || mappingKey(mapping) !== key
+      )
+      .map((mapping) => (mapping === selectedMapping ? updated : mapping));
+
+    pushMappings(updatedMappings, label, coalesceKey);
+    setSelectedTarget(target);
+  };
+
+  // Function to limit the selected mapping to some frames (or none)
+  const updateMappingScope = (scope: FrameScope | undefined) => {
+    if (!selectedMapping) return;
+
+    retargetSelectedMapping(
+      { frames: scope, maskId: selectedMapping.maskId },
+      `${selectedMapping.originalColor} on ${describeFrameScope(scope)}`,
+      `scope:${selectedMapping.originalColor}`
+    );
+  };
+
+  // Function to bind the selected mapping to a region mask (or unbind it)
+  const updateMappingMask = (maskId: string | undefined) => {
+    if (!selectedMapping) return;
+
+    const mask = masks.find((m) => m.id === maskId);
+    retargetSelectedMapping(
+      { frames: selectedMapping.frames, maskId },
+      mask
+        ? `${selectedMapping.originalColor} in ${mask.name}`
+        : `${selectedMapping.originalColor} on whole image`,
+      `mask:${selectedMapping.originalColor}`
+    );
+  };
+
+  // Function to add a mapping that overrides the selected color on the
+  // current frame only
+  const addFrameOverride = () => {
+    if (!selectedColor) return;
 
-    // Apply the color mappings to create remapped frames
-    if (frames.length > 0) {
-      const newRemappedFrames = remapFramesColors(frames, updatedMappings);
-      setRemappedFrames(newRemappedFrames);
+    const scope: FrameScope = {
+      type: "range",
+      start: currentFrameIndex,
+      end: currentFrameIndex,
+    };
+    const target = { ...selectedTarget, frames: scope };
+    const key = mappingKey({ originalColor: selectedColor.color, ...target });
+    const exists = colorMappings.some((mapping) => mappingKey(mapping) === key);
+
+    if (!exists) {
+      const base = selectedMapping ?? {
+        originalColor: selectedColor.color,
+        originalRgb: selectedColor.rgb,
+        newColor: selectedColor.color,
+        newRgb: selectedColor.rgb,
+        ...targetFields(selectedTarget),
+      };
+      pushMappings(
+        [...colorMappings, { ...base, frames: scope }],
+        `Add ${selectedColor.color}${describeTarget(target)}`
+      );
     }
+    setSelectedTarget(target);
+  };
+
+  // Toggle a frame in the selected mapping's picked frames
+  const toggleScopeFrame = (frameIndex: number) => {
+    const scope = selectedMapping?.frames;
+    if (scope?.type !== "set") return;
+
+    const frames = scope.frames.includes(frameIndex)
+      ? scope.frames.filter((frame) => frame !== frameIndex)
+      : [...scope.frames, frameIndex].sort((a, b) => a - b);
+    // Keep at least one frame; "All" is the way to widen the scope
+    if (frames.length === 0) return;
+
+    updateMappingScope({ type: "set", frames });
   };
 
   // Function to remove a specific color mapping
-  const removeColorMapping = (originalColor: string) => {
-    // Filter out the mapping with the specified original color
+  const removeColorMapping = (removed: ColorMapping) => {
     const updatedMappings = colorMappings.filter(
-      (mapping) => mapping.originalColor !== originalColor
+      (mapping) => mapping !== removed
     );
 
-    setColorMappings(updatedMappings);
+    pushMappings(
+      updatedMappings,
+      `Remove ${removed.originalColor}${describeTarget(removed)}`
+    );
 
-    // If the selected color was the one removed, deselect it
-    if (selectedColor?.color === originalColor) {
+    // If the selected mapping was the one removed, deselect it
+    if (removed === selectedMapping) {
       setSelectedColor(null);
     }
-
-    // Apply the updated color mappings to create remapped frames
-    if (frames.length > 0) {
-      const newRemappedFrames = remapFramesColors(frames, updatedMappings);
-      setRemappedFrames(newRemappedFrames);
-    }
   };
 
-  // Function to remap colors in frames
-  const remapFramesColors = (
-    originalFrames: GifFrame[],
-    mappings: ColorMapping[]
-  ): GifFrame[] => {
-    if (mappings.length === 0) return [...originalFrames];
+  // Screen pixel under the pointer on either zoomed canvas
+  const [hoveredPixel, setHoveredPixel] = useState<[number, number] | null>(
+    null
+  );
 
-    return originalFrames.map((frame) => {
-      // Create a new color table by applying mappings
-      const newColorTable = [...frame.colorTable];
+  // Zoom and CSS scaling are both covered by measuring the displayed canvas
+  const pixelFromEvent = (event: React.MouseEvent<HTMLCanvasElement>) =>
+    pointerToPixel(
+      event.clientX,
+      event.clientY,
+      event.currentTarget.getBoundingClientRect(),
+      screenSize.width,
+      screenSize.height
+    );
 
-      // For each pixel, check if its color needs to be remapped
-      frame.pixels.forEach((pixelIndex) => {
-        // Skip transparent pixels
-        if (pixelIndex === frame.transparentIndex) return;
+  const handleCanvasMouseMove = (
+    event: React.MouseEvent<HTMLCanvasElement>
+  ) => {
+    const pixel = pixelFromEvent(event);
+    // Only re-render when the pointer moves onto another pixel
+    setHoveredPixel((prev) =>
+      prev && pixel && prev[0] === pixel[0] && prev[1] === pixel[1]
+        ? prev
+        : pixel
+    );
+  };
 
-        const originalRgb = frame.colorTable[pixelIndex];
-        const originalColorKey = `rgb(${originalRgb[0]},${originalRgb[1]},${originalRgb[2]})`;
+  // RGBA of a composited screen at a pixel
+  const readScreenPixel = (screen: Uint8ClampedArray, [x, y]: number[]) => {
+    const offset = (y * screenSize.width + x) * 4;
+    return screen.slice(offset, offset + 4);
+  };
 
-        // Find if this color has a mapping
-        const mapping = mappings.find(
-          (m) => m.originalColor === originalColorKey
-        );
+  // Eyedropper: clicking either view selects the original color shown at
+  // that pixel, so recolored pixels lead back to their source color
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const pixel = pixelFromEvent(event);
+    if (!pixel) return;
 
-        if (mapping) {
-          // Update the color table for this index
-          newColorTable[pixelIndex] = mapping.newRgb;
-        }
-      });
+    const rgba = readScreenPixel(compositor.render(currentFrameIndex), pixel);
+    if (rgba[3] === 0) return;
 
-      // Regenerate the patch data with the new color table
-      const totalPixels = frame.pixels.length;
-      const newPatch = new Uint8ClampedArray(totalPixels * 4);
+    const colorInfo = colorPalette.find(
+      (color) => color.color === rgbKey(rgba)
+    );
+    if (colorInfo) handleColorSelect(colorInfo);
+  };
 
-      for (let i = 0; i < totalPixels; i++) {
-        const pos = i * 4;
-        const colorIndex = frame.pixels[i];
-        const color = newColorTable[colorIndex] || [0, 0, 0];
+  const inspection =
+    hoveredPixel && frames[currentFrameIndex]
+      ? inspectPixel(frames[currentFrameIndex], ...hoveredPixel)
+      : null;
 
-        newPatch[pos] = color[0]; // R
-        newPatch[pos + 1] = color[1]; // G
-        newPatch[pos + 2] = color[2]; // B
-        newPatch[pos + 3] = colorIndex !== frame.transparentIndex ? 255 : 0; // Alpha
-      }
+  // Start or stop painting a mask; playback pauses so strokes land on the
+  // frame being shown
+  const handleSelectMask = (maskId: string | null) => {
+    setActiveMaskId(maskId);
+    if (maskId) setIsPlaying(false);
+  };
 
-      // Create a new frame with the updated color table and patch
-      return {
-        ...frame,
-        colorTable: newColorTable,
-        patch: newPatch,
-      };
+  // Tracked masks that were edited follow their painted regions through the
+  // frames again. The frames are only composited when one needs it.
+  const trackEditedMasks = (maskList: RegionMask[]) => {
+    let screens: Uint8ClampedArray[] | undefined;
+    return maskList.map((mask) => {
+      if (!mask.tracked || masks.includes(mask)) return mask;
+      if (!screens) {
+        screens = compositeFrames(frames, screenSize.width, screenSize.height);
+      }
+      return trackMask(mask, screens);
     });
   };
 
+  // Apply a finished mask edit to the current frame of the active mask
+  const handleMaskEdit = (edit: (layer: Uint8Array) => void) => {
+    if (!activeMask) return;
+    pushEdit(
+      {
+        masks: trackEditedMasks(
+          masks.map((mask) =>
+            mask.id === activeMask.id
+              ? editMaskLayer(mask, currentFrameIndex, edit)
+              : mask
+          )
+        ),
+      },
+      `Paint ${activeMask.name}`
+    );
+  };
+
+  // Delete a mask together with the mappings bound to it
+  const handleDeleteMask = (deleted: RegionMask) => {
+    if (activeMaskId === deleted.id) setActiveMaskId(null);
+
+    // Masks are shared, so every variant loses its mappings to the mask
+    const usesMask = (mapping: ColorMapping) => mapping.maskId === deleted.id;
+    pushEdit(
+      {
+        masks: masks.filter((mask) => mask.id !== deleted.id),
+        variants: variants.some((variant) => variant.mappings.some(usesMask))
+          ? mapVariantMappings(variants, (mappings) =>
+              mappings.filter((mapping) => !usesMask(mapping))
+            )
+          : variants,
+      },
+      `Delete ${deleted.name}`
+    );
+    if (selectedTarget.maskId === deleted.id) setSelectedColor(null);
+  };
+
+  // Clicking a frame in the unrolled grid shows it and, while the selected
+  // mapping uses picked frames, adds or removes it from the mapping
+  const handleFrameClick = (frameIndex: number) => {
+    showFrame(frameIndex);
+    toggleScopeFrame(frameIndex);
+  };
+
+  // Mark the frames the selected scoped mapping applies to
+  const scopeOutline = (frameIndex: number) =>
+    selectedMapping?.frames &&
+    isFrameInScope(selectedMapping.frames, frameIndex)
+      ? `2px solid ${colors.primary}`
+      : undefined;
+
+  // Keyboard shortcuts for undo/redo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      // Leave text fields their native undo behavior
+      const target = event.target;
+      if (target instanceof HTMLInputElement && target.type === "text") return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
   return (
     <div
       className="container px-4 py-4"
@@ -589,20 +1371,46 @@ function App() {
         <span className="whitespace-nowrap">Upload GIF:</span>
         <input
           type="file"
-          accept="image/gif"
+          accept={["image/gif", ...IMAGE_TYPES].join(",")}
           onChange={handleFileChange}
           className="py-0 h-7 text-xs flex-grow-0"
           style={{ backgroundColor: colors.surface, maxWidth: "10rem" }}
         />
+        <button
+          onClick={() => setShowSheetImport(!showSheetImport)}
+          className="px-2 py-0 h-7 text-xs whitespace-nowrap"
+          style={{
+            backgroundColor: showSheetImport ? colors.primary : colors.surface,
+            color: colors.text,
+          }}
+        >
+          Sprite Sheet…
+        </button>
+        <label
+          className="flex items-center gap-1 text-xs whitespace-nowrap"
+          title="Reduce PNG and WebP images with more than 256 colors"
+        >
+          <input
+            type="checkbox"
+            checked={quantizeInput}
+            onChange={(e) => setQuantizeInput(e.target.checked)}
+          />
+          Quantize
+        </label>
         {frames.length > 0 && (
           <>
-            <button
-              onClick={togglePlayPause}
-              className="px-2 py-0 h-7 text-xs whitespace-nowrap"
-              style={{ backgroundColor: colors.surface, color: colors.text }}
-            >
-              {isPlaying ? "Pause" : "Play"}
-            </button>
+            <PlaybackControls
+              frameCount={frames.length}
+              currentFrameIndex={currentFrameIndex}
+              isPlaying={isPlaying}
+              speed={playbackSpeed}
+              mode={playbackMode}
+              loopCount={gifInfo?.loopCount}
+              onTogglePlay={togglePlayPause}
+              onSeek={seekFrame}
+              onSpeedChange={setPlaybackSpeed}
+              onModeChange={handlePlaybackModeChange}
+            />
             <span className="whitespace-nowrap">Zoom: {zoomLevel}x</span>
             <input
               type="range"
@@ -619,18 +1427,79 @@ function App() {
             >
               {showUnrolled ? "Hide" : "Show"}
             </button>
-            <span className="text-xs whitespace-nowrap">
-              Delay: {frames[currentFrameIndex]?.delay}ms
+            <span
+              className="text-xs whitespace-nowrap"
+              title="Browsers show delays of 10ms or less as 100ms"
+            >
+              Delay: {currentDelay}ms
+              {playbackDelay(currentDelay) !== currentDelay &&
+                ` (plays ${playbackDelay(currentDelay)}ms)`}
             </span>
+            <button
+              onClick={() => setShowTimeline(!showTimeline)}
+              className="px-2 py-0 h-7 text-xs whitespace-nowrap"
+              style={{
+                backgroundColor: showTimeline ? colors.primary : colors.surface,
+                color: colors.text,
+              }}
+            >
+              Timeline
+            </button>
+            <button
+              onClick={handleExportGif}
+              className="px-2 py-0 h-7 text-xs whitespace-nowrap"
+              style={{ backgroundColor: colors.surface, color: colors.text }}
+            >
+              Export GIF
+            </button>
           </>
         )}
         {error && <span className="text-red-500 text-xs">{error}</span>}
-        {isLoading && <span className="text-xs">Loading...</span>}
+        {workerProgress ? (
+          <span className="text-xs whitespace-nowrap">
+            {workerProgress.task === "decode" ? "Decoding" : "Remapping"}{" "}
+            {Math.round((workerProgress.done / workerProgress.total) * 100)}%
+          </span>
+        ) : (
+          isLoading && <span className="text-xs">Loading...</span>
+        )}
       </div>
 
+      {showSheetImport && (
+        <SpriteSheetImport
+          quantize={quantizeInput}
+          onImport={handleSheetImport}
+          onError={setError}
+        />
+      )}
+
+      {showTimeline && frames.length > 0 && (
+        <FrameTimeline
+          thumbnails={timelineThumbnails}
+          width={screenSize.width}
+          height={screenSize.height}
+          delays={frames.map((frame) => frame.delay)}
+          currentFrameIndex={currentFrameIndex}
+          onSelectFrame={seekFrame}
+          onSetDelay={handleSetDelay}
+          onReorder={handleReorderFrames}
+        />
+      )}
+
       {frames.length > 0 && (
         <>
           <div className="mb-6">
+            <VariantBar
+              variants={variants}
+              activeVariantId={activeVariant.id}
+              showGrid={showVariantGrid}
+              onSelectVariant={handleSelectVariant}
+              onVariantsChange={(variantList, label) =>
+                pushEdit({ variants: variantList }, label)
+              }
+              onToggleGrid={() => setShowVariantGrid(!showVariantGrid)}
+              onExportAll={handleExportAllVariants}
+            />
             <div className="flex justify-between gap-4">
               <div className="">
                 <h2 className="text-lg mb-2">Original GIF</h2>
@@ -645,22 +1514,61 @@ function App() {
                         borderColor: colors.border,
                       }}
                     ></canvas>
-                    <canvas
-                      ref={zoomedCanvasRef}
-                      className="border"
-                      style={{
-                        maxWidth: "100%",
-                        height: "auto",
-                        imageRendering: "pixelated",
-                        borderColor: colors.border,
-                      }}
-                    ></canvas>
+                    <div className="relative inline-block">
+                      <canvas
+                        ref={zoomedCanvasRef}
+                        className="border cursor-crosshair"
+                        onClick={handleCanvasClick}
+                        onMouseMove={handleCanvasMouseMove}
+                        onMouseLeave={() => setHoveredPixel(null)}
+                        style={{
+                          maxWidth: "100%",
+                          height: "auto",
+                          imageRendering: "pixelated",
+                          borderColor: colors.border,
+                        }}
+                      ></canvas>
+                      {activeMask && (
+                        <MaskOverlay
+                          width={activeMask.width}
+                          height={activeMask.height}
+                          layer={getMaskLayer(activeMask, currentFrameIndex)}
+                          settings={maskSettings}
+                          getScreen={() => compositor.render(currentFrameIndex)}
+                          onEdit={handleMaskEdit}
+                        />
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
 
               <div className="">
-                <h2 className="text-lg mb-2">Remapped GIF</h2>
+                <div className="flex items-center gap-2 mb-2">
+                  <h2 className="text-lg">
+                    Remapped GIF
+                    {variants.length > 1 && ` (${activeVariant.name})`}
+                  </h2>
+                  <select
+                    value={cvdMode}
+                    onChange={(e) =>
+                      setCvdMode(e.target.value as CvdType | "none")
+                    }
+                    className="h-6 px-1 rounded text-xs capitalize"
+                    style={{
+                      backgroundColor: colors.surface,
+                      color: colors.text,
+                    }}
+                    title="Simulate color vision deficiency"
+                  >
+                    <option value="none">Normal vision</option>
+                    {CVD_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                </div>
                 <div className="mt-4">
                   <div className="overflow-auto">
                     <canvas
@@ -674,7 +1582,10 @@ function App() {
                     ></canvas>
                     <canvas
                       ref={remappedZoomedCanvasRef}
-                      className="border"
+                      className="border cursor-crosshair"
+                      onClick={handleCanvasClick}
+                      onMouseMove={handleCanvasMouseMove}
+                      onMouseLeave={() => setHoveredPixel(null)}
                       style={{
                         maxWidth: "100%",
                         height: "auto",
@@ -687,6 +1598,40 @@ function App() {
               </div>
             </div>
 
+            {showVariantGrid && variantGrid && (
+              <VariantGrid
+                variants={variantGrid.variants}
+                variantFrames={variantGrid.frames}
+                width={screenSize.width}
+                height={screenSize.height}
+                zoom={zoomLevel}
+                currentFrameIndex={currentFrameIndex}
+                activeVariantId={activeVariant.id}
+                onSelectVariant={handleSelectVariant}
+              />
+            )}
+
+            {/* Pixel inspector - fixed height keeps the layout still */}
+            <div className="my-2 h-5">
+              {inspection ? (
+                <PixelInspector
+                  inspection={inspection}
+                  original={readScreenPixel(
+                    compositor.render(currentFrameIndex),
+                    hoveredPixel!
+                  )}
+                  mapped={readScreenPixel(
+                    remappedCompositor.render(currentFrameIndex),
+                    hoveredPixel!
+                  )}
+                />
+              ) : (
+                <span className="text-xs opacity-70">
+                  Hover a zoomed view to inspect pixels, click to pick a color
+                </span>
+              )}
+            </div>
+
             {/* Color Remapping Controls */}
             <div className="flex flex-col h-full">
               <div className="flex flex-col md:flex-row gap-4">
@@ -698,6 +1643,13 @@ function App() {
                       <h3 className="text-md font-medium">
                         Color Palette ({colorPalette.length} colors)
                       </h3>
+                      <PaletteExportMenu
+                        palette={colorPalette}
+                        getRemappedFrames={getExportFrames}
+                        mappings={colorMappings}
+                        baseName={baseName}
+                        onError={setError}
+                      />
                     </div>
 
                     <div className="flex flex-wrap gap-2 overflow-y-auto">
@@ -706,6 +1658,15 @@ function App() {
                           (mapping) =>
                             mapping.originalColor === colorInfo.color
                         );
+                        // Colors pulled in by another mapping's tolerance
+                        const capturedBy = paletteLookup.get(colorInfo.color)
+                          ?.mapping;
+                        const isCaptured =
+                          !!capturedBy &&
+                          capturedBy.originalColor !== colorInfo.color;
+                        const isCapturedBySelected =
+                          isCaptured &&
+                          capturedBy.originalColor === selectedColor?.color;
                         return (
                           <div
                             key={index}
@@ -718,7 +1679,10 @@ function App() {
                             <div
                               className=""
                               style={{
-                                backgroundColor: colorInfo.color,
+                                backgroundColor: swatchColor(
+                                  colorInfo.color,
+                                  colorInfo.rgb
+                                ),
                                 borderColor: colors.border,
                                 width: "36px",
                                 height: "36px",
@@ -726,7 +1690,18 @@ function App() {
                                 borderRadius: "4px",
                                 border: "1px solid " + colors.border,
                                 position: "relative",
+                                outline: isCapturedBySelected
+                                  ? `2px solid ${colors.primary}`
+                                  : isCaptured
+                                    ? `2px dashed ${colors.accent}`
+                                    : undefined,
+                                outlineOffset: "1px",
                               }}
+                              title={
+                                isCaptured
+                                  ? `Within tolerance of ${capturedBy.originalColor}`
+                                  : undefined
+                              }
                             >
                               {isInRemapping && (
                                 <div
@@ -749,6 +1724,12 @@ function App() {
                       })}
                     </div>
                   </div>
+
+                  {/* Target palette to assign new colors from */}
+                  <TargetPalettePanel
+                    canAssign={!!selectedColor}
+                    onAssign={(hexColor) => updateColorMapping(hexColor)}
+                  />
                 </div>
 
                 {/* Selected color + active mappings */}
@@ -769,7 +1750,7 @@ function App() {
                               value={rgbToHex(selectedColor.rgb)
                               }
                               onChange={(e) =>
-                                updateColorMapping(e.target.value)
+                                updateColorMapping(e.target.value, true)
                               }
                             />
                             <input
@@ -780,17 +1761,75 @@ function App() {
                                 color: colors.text,
                               }}
                               value={
-                                colorMappings.find(
-                                  (m) => m.originalColor === selectedColor.color
-                                )?.newColor || rgbToHex(selectedColor.rgb)
+                                selectedMapping?.newColor ||
+                                rgbToHex(selectedColor.rgb)
                               }
                               onChange={(e) =>
-                                updateColorMapping(e.target.value)
+                                updateColorMapping(e.target.value, true)
                               }
                             />
                           </div>
                         </div>
 
+                        {/* Tolerance - also recolor similar shades */}
+                        <div className="mb-3 flex items-center gap-2 text-xs">
+                          <span className="whitespace-nowrap">
+                            Tolerance ΔE: {selectedMapping?.tolerance || 0}
+                          </span>
+                          <input
+                            type="range"
+                            min="0"
+                            max="50"
+                            step="0.5"
+                            value={selectedMapping?.tolerance || 0}
+                            onChange={(e) =>
+                              updateMappingTolerance(Number(e.target.value))
+                            }
+                            className="flex-1 h-4"
+                          />
+                        </div>
+
+                        {/* Frame scope - limit the mapping to some frames */}
+                        {selectedMapping && (
+                          <FrameScopeEditor
+                            scope={selectedMapping.frames}
+                            frameCount={frames.length}
+                            currentFrameIndex={currentFrameIndex}
+                            onChange={(scope) => {
+                              updateMappingScope(scope);
+                              // Frames are picked in the unrolled grid
+                              if (scope?.type === "set") setShowUnrolled(true);
+                            }}
+                            onAddOverride={addFrameOverride}
+                          />
+                        )}
+
+                        {/* Mask - limit the mapping to a painted region */}
+                        {selectedMapping && masks.length > 0 && (
+                          <div className="mb-3 flex items-center gap-2 text-xs">
+                            <span>Mask:</span>
+                            <select
+                              value={selectedMapping.maskId ?? ""}
+                              onChange={(e) =>
+                                updateMappingMask(e.target.value || undefined)
+                              }
+                              className="h-6 px-1 rounded"
+                              style={{
+                                backgroundColor: colors.surface,
+                                color: colors.text,
+                                border: "1px solid " + colors.border,
+                              }}
+                            >
+                              <option value="">Whole image</option>
+                              {masks.map((mask) => (
+                                <option key={mask.id} value={mask.id}>
+                                  {mask.name}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
+
                         {/* Preview - Enhanced with background */}
                         <div
                           className="flex items-center mb-3 p-2 rounded"
@@ -815,10 +1854,8 @@ function App() {
                               className="mx-auto border rounded"
                               style={{
                                 backgroundColor:
-                                  colorMappings.find(
-                                    (m) =>
-                                      m.originalColor === selectedColor.color
-                                  )?.newColor || rgbToHex(selectedColor.rgb),
+                                  selectedMapping?.newColor ||
+                                  rgbToHex(selectedColor.rgb),
                                 borderColor: colors.border,
                                 width: "32px",
                                 height: "32px",
@@ -826,6 +1863,35 @@ function App() {
                             ></div>
                           </div>
                         </div>
+
+                        {/* Isolate - show where the color is used */}
+                        <div className="my-3 flex items-center gap-2 text-xs">
+                          <span>Isolate:</span>
+                          {(["off", "dim", "flash"] as IsolateMode[]).map(
+                            (mode) => (
+                              <button
+                                key={mode}
+                                className="px-2 py-0 h-6 rounded capitalize"
+                                style={{
+                                  backgroundColor: colors.surface,
+                                  color: colors.text,
+                                  outline:
+                                    isolateMode === mode
+                                      ? `1px solid ${colors.text}`
+                                      : undefined,
+                                }}
+                                onClick={() => setIsolateMode(mode)}
+                              >
+                                {mode}
+                              </button>
+                            )
+                          )}
+                        </div>
+                        <FrameUsageStrip
+                          counts={selectedColorFrameCounts}
+                          currentFrameIndex={currentFrameIndex}
+                          onSelectFrame={seekFrame}
+                        />
                       </div>
                     ) : (
                       <div className="text-sm p-4 flex items-center justify-center h-24 text-center opacity-70">
@@ -848,23 +1914,91 @@ function App() {
                             color: colors.text,
                           }}
                           onClick={() => {
-                            // Reset all color mappings
-                            setColorMappings([]);
-                            // Reset remapped frames to original frames
-                            const initialRemappedFrames = frames.map(
-                              (frame) => ({
-                                ...frame,
-                                colorTable: [...frame.colorTable],
-                                patch: new Uint8ClampedArray(frame.patch),
-                              })
-                            );
-                            setRemappedFrames(initialRemappedFrames);
+                            // Reset all color mappings (undoable)
+                            pushMappings([], "Reset all");
+                            setPresetReport(null);
                           }}
                         >
                           Reset All
                         </button>
                       )}
+                      <div className="flex items-center gap-2 ml-auto text-xs">
+                        <label className="flex items-center gap-1 whitespace-nowrap">
+                          <input
+                            type="checkbox"
+                            checked={snapToNearest}
+                            onChange={(e) => setSnapToNearest(e.target.checked)}
+                          />
+                          Snap to nearest
+                        </label>
+                        <label
+                          className="px-2 py-1 rounded cursor-pointer"
+                          style={{
+                            backgroundColor: colors.surface,
+                            color: colors.text,
+                            border: "1px solid " + colors.border,
+                          }}
+                        >
+                          Load Preset
+                          <input
+                            type="file"
+                            accept="application/json,.json"
+                            onChange={handleLoadPreset}
+                            style={{ display: "none" }}
+                          />
+                        </label>
+                        {colorMappings.length > 0 && (
+                          <button
+                            className="px-2 py-1 rounded"
+                            style={{
+                              backgroundColor: colors.surface,
+                              color: colors.text,
+                            }}
+                            onClick={handleSavePreset}
+                          >
+                            Save Preset
+                          </button>
+                        )}
+                      </div>
                     </div>
+
+                    {/* Result of the last preset import */}
+                    {presetReport &&
+                      (presetReport.missing.length > 0 ||
+                        presetReport.snapped.length > 0) && (
+                        <div
+                          className="text-xs mb-3 p-2 rounded"
+                          style={{ backgroundColor: colors.surface }}
+                        >
+                          {presetReport.missing.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-1 mb-1">
+                              <span>
+                                {presetReport.missing.length} preset color(s)
+                                not in this GIF:
+                              </span>
+                              {presetReport.missing.map((mapping) => (
+                                <div
+                                  key={mapping.originalColor}
+                                  className="border rounded"
+                                  title={mapping.originalColor}
+                                  style={{
+                                    backgroundColor: mapping.originalColor,
+                                    borderColor: colors.border,
+                                    width: "14px",
+                                    height: "14px",
+                                  }}
+                                ></div>
+                              ))}
+                            </div>
+                          )}
+                          {presetReport.snapped.length > 0 && (
+                            <div>
+                              Snapped {presetReport.snapped.length} color(s)
+                              to the nearest palette color
+                            </div>
+                          )}
+                        </div>
+                      )}
                       <div className="flex flex-wrap gap-4 min-h-48">
                         {colorMappings.map((mapping, index) => (
                           <div
@@ -873,6 +2007,10 @@ function App() {
                             style={{
                               backgroundColor: colors.surface,
                               padding: "1rem",
+                              outline:
+                                mapping === selectedMapping
+                                  ? `1px solid ${colors.text}`
+                                  : undefined,
                             }}
                           >
                             <div
@@ -884,14 +2022,20 @@ function App() {
                                     color.color === mapping.originalColor
                                 );
                                 if (colorInfo) {
-                                  handleColorSelect(colorInfo);
+                                  handleColorSelect(colorInfo, {
+                                    frames: mapping.frames,
+                                    maskId: mapping.maskId,
+                                  });
                                 }
                               }}
                             >
                               <div
                                 className="mr-1 border rounded"
                                 style={{
-                                  backgroundColor: mapping.originalColor,
+                                  backgroundColor: swatchColor(
+                                    mapping.originalColor,
+                                    mapping.originalRgb
+                                  ),
                                   borderColor: colors.border,
                                   width: "20px",
                                   height: "20px",
@@ -903,7 +2047,10 @@ function App() {
                               <div
                                 className="mr-2 border rounded"
                                 style={{
-                                  backgroundColor: mapping.newColor,
+                                  backgroundColor: swatchColor(
+                                    mapping.newColor,
+                                    mapping.newRgb
+                                  ),
                                   borderColor: colors.border,
                                   width: "20px",
                                   height: "20px",
@@ -911,6 +2058,36 @@ function App() {
                                   minHeight: "20px",
                                 }}
                               ></div>
+                              {!!mapping.tolerance && (
+                                <span className="text-xs opacity-70">
+                                  ±{mapping.tolerance}
+                                </span>
+                              )}
+                              {mapping.frames && (
+                                <span className="text-xs opacity-70 ml-1">
+                                  {describeFrameScope(mapping.frames)}
+                                </span>
+                              )}
+                              {mapping.maskId && (
+                                <span className="text-xs opacity-70 ml-1">
+                                  in{" "}
+                                  {masks.find((m) => m.id === mapping.maskId)
+                                    ?.name ?? "missing mask"}
+                                </span>
+                              )}
+                              {cvdMode !== "none" &&
+                                confusableColors.has(
+                                  rgbKey(mapping.newRgb)
+                                ) && (
+                                  <ConfusableFlag
+                                    confusable={
+                                      confusableColors.get(
+                                        rgbKey(mapping.newRgb)
+                                      )!
+                                    }
+                                    cvdType={cvdMode}
+                                  />
+                                )}
                             </div>
 
                             {/* X button to remove this color mapping */}
@@ -922,7 +2099,7 @@ function App() {
                               }}
                               onClick={(e) => {
                                 e.stopPropagation(); // Prevent triggering the parent onClick
-                                removeColorMapping(mapping.originalColor);
+                                removeColorMapping(mapping);
                               }}
                               title="Remove this color mapping"
                             >
@@ -932,6 +2109,78 @@ function App() {
                         ))}
                       </div>
                   </div>
+
+                  <MaskPanel
+                    masks={masks}
+                    activeMaskId={activeMaskId}
+                    settings={maskSettings}
+                    screenWidth={screenSize.width}
+                    screenHeight={screenSize.height}
+                    currentFrameIndex={currentFrameIndex}
+                    onSelectMask={handleSelectMask}
+                    onMasksChange={(maskList, label) =>
+                      pushEdit({ masks: trackEditedMasks(maskList) }, label)
+                    }
+                    onDeleteMask={handleDeleteMask}
+                    onSettingsChange={setMaskSettings}
+                  />
+
+                  <HslAdjustPanel
+                    // Variant ids repeat between files, so the load count
+                    // is part of the key that resets the panel
+                    key={`${loadCount}:${activeVariant.id}`}
+                    palette={colorPalette}
+                    mappings={colorMappings}
+                    onPreview={setHslPreview}
+                    onApply={(mappings, label) => {
+                      pushMappings(mappings, label);
+                    }}
+                  />
+
+                  <ReducePalettePanel
+                    palette={colorPalette}
+                    mappings={colorMappings}
+                    onApply={(mappings, label) => {
+                      pushMappings(
+                        mergeMappings(colorMappings, mappings),
+                        label
+                      );
+                      setSelectedColor(null);
+                    }}
+                  />
+
+                  <PaletteTransferPanel
+                    sourcePalette={colorPalette}
+                    onApply={(mappings, label) => {
+                      pushMappings(
+                        mergeMappings(colorMappings, mappings),
+                        label
+                      );
+                      setSelectedColor(null);
+                    }}
+                    onError={setError}
+                  />
+
+                  <ContrastReportPanel frames={remappedFrames} />
+
+                  <SpriteSheetExport
+                    frameCount={frames.length}
+                    getFrames={getExportFrames}
+                    screenWidth={screenSize.width}
+                    screenHeight={screenSize.height}
+                    baseName={baseName}
+                    onError={setError}
+                  />
+
+                  <HistoryPanel
+                    entries={editHistory.entries}
+                    index={editHistory.index}
+                    canUndo={editHistory.canUndo}
+                    canRedo={editHistory.canRedo}
+                    onUndo={undo}
+                    onRedo={redo}
+                    onJump={editHistory.jumpTo}
+                  />
                 </div>
               </div>
             </div>
@@ -940,22 +2189,32 @@ function App() {
           {/* Unrolled Frames Section - Full Width */}
           {showUnrolled && (
             <div className="mt-6">
-              <h2 className="text-lg mb-2">All Frames</h2>
+              <div className="flex items-center gap-2 mb-2">
+                <h2 className="text-lg">All Frames</h2>
+                <button
+                  onClick={() => setShowRawPatches((prev) => !prev)}
+                  className="px-2 py-0 h-7 text-xs whitespace-nowrap"
+                  style={{ backgroundColor: colors.surface, color: colors.text }}
+                >
+                  {showRawPatches ? "Show Composited" : "Show Raw Patches"}
+                </button>
+              </div>
 
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-4">
                 {/* Original Frames */}
                 <div>
                   <h3 className="text-md mb-2">Original Frames</h3>
                   <div className="flex flex-wrap gap-4">
-                    {frames.map((frame, index) => (
+                    {isolatedUnrolledFrames.map((image, index) => (
                       <div
                         key={index}
                         className="relative"
-                        onClick={() => setCurrentFrameIndex(index)}
+                        onClick={() => handleFrameClick(index)}
+                        style={{ outline: scopeOutline(index) }}
                       >
                         <canvas
-                          width={frame.dims.width * zoomLevel}
-                          height={frame.dims.height * zoomLevel}
+                          width={image.width * zoomLevel}
+                          height={image.height * zoomLevel}
                           className="border cursor-pointer"
                           style={{
                             imageRendering: "pixelated",
@@ -973,16 +2232,16 @@ function App() {
                               // Create temp canvas for the frame
                               const tempCanvas =
                                 document.createElement("canvas");
-                              tempCanvas.width = frame.dims.width;
-                              tempCanvas.height = frame.dims.height;
+                              tempCanvas.width = image.width;
+                              tempCanvas.height = image.height;
                               const tempCtx = tempCanvas.getContext("2d")!;
 
                               // Draw the frame
                               const imageData = tempCtx.createImageData(
-                                frame.dims.width,
-                                frame.dims.height
+                                image.width,
+                                image.height
                               );
-                              imageData.data.set(frame.patch);
+                              imageData.data.set(image.data);
                               tempCtx.putImageData(imageData, 0, 0);
 
                               // Draw to the zoomed canvas
@@ -990,12 +2249,12 @@ function App() {
                                 tempCanvas,
                                 0,
                                 0,
-                                frame.dims.width,
-                                frame.dims.height,
+                                image.width,
+                                image.height,
                                 0,
                                 0,
-                                frame.dims.width * zoomLevel,
-                                frame.dims.height * zoomLevel
+                                image.width * zoomLevel,
+                                image.height * zoomLevel
                               );
                             }
                           }}
@@ -1003,6 +2262,11 @@ function App() {
                         <div className="absolute bottom-0 right-0 bg-black text-white text-xs px-1">
                           {index + 1}
                         </div>
+                        {isIsolating && (
+                          <div className="absolute top-0 left-0 bg-black text-white text-xs px-1">
+                            {selectedColorFrameCounts[index]} px
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -1013,15 +2277,16 @@ function App() {
                   <div>
                     <h3 className="text-md mb-2">Remapped Frames</h3>
                     <div className="flex flex-wrap gap-4">
-                      {remappedFrames.map((frame, index) => (
+                      {isolatedUnrolledRemappedFrames.map((image, index) => (
                         <div
                           key={index}
                           className="relative"
-                          onClick={() => setCurrentFrameIndex(index)}
+                          onClick={() => handleFrameClick(index)}
+                          style={{ outline: scopeOutline(index) }}
                         >
                           <canvas
-                            width={frame.dims.width * zoomLevel}
-                            height={frame.dims.height * zoomLevel}
+                            width={image.width * zoomLevel}
+                            height={image.height * zoomLevel}
                             className="border cursor-pointer"
                             style={{
                               imageRendering: "pixelated",
@@ -1039,16 +2304,16 @@ function App() {
                                 // Create temp canvas for the frame
                                 const tempCanvas =
                                   document.createElement("canvas");
-                                tempCanvas.width = frame.dims.width;
-                                tempCanvas.height = frame.dims.height;
+                                tempCanvas.width = image.width;
+                                tempCanvas.height = image.height;
                                 const tempCtx = tempCanvas.getContext("2d")!;
 
                                 // Draw the frame
                                 const imageData = tempCtx.createImageData(
-                                  frame.dims.width,
-                                  frame.dims.height
+                                  image.width,
+                                  image.height
                                 );
-                                imageData.data.set(frame.patch);
+                                imageData.data.set(image.data);
                                 tempCtx.putImageData(imageData, 0, 0);
 
                                 // Draw to the zoomed canvas
@@ -1056,12 +2321,12 @@ function App() {
                                   tempCanvas,
                                   0,
                                   0,
-                                  frame.dims.width,
-                                  frame.dims.height,
+                                  image.width,
+                                  image.height,
                                   0,
                                   0,
-                                  frame.dims.width * zoomLevel,
-                                  frame.dims.height * zoomLevel
+                                  image.width * zoomLevel,
+                                  image.height * zoomLevel
                                 );
                               }
                             }}
@@ -1079,9 +2344,6 @@ function App() {
           )}
         </>
       )}
-
-      {/* Hidden temp canvas for rendering */}
-      <canvas ref={tempCanvasRef} style={{ display: "none" }}></canvas>
     </div>
   );
 }
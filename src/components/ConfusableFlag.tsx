@@ -0,0 +1,47 @@
+import { colors } from "../theme";
+import { rgbKey, rgbToHex } from "../lib";
+import type { ConfusableColor, CvdType } from "../lib";
+
+interface ConfusableFlagProps {
+  // Colors the mapped color is hard to tell apart from, closest first
+  confusable: ConfusableColor[];
+  cvdType: CvdType;
+}
+
+// How many of the confusable colors get a swatch; the tooltip lists them all
+const MAX_SWATCHES = 3;
+
+// Warning next to a mapping whose color blends into others for color-blind
+// viewers
+function ConfusableFlag({ confusable, cvdType }: ConfusableFlagProps) {
+  const details = confusable
+    .map(
+      (other) =>
+        `Hard to tell apart from ${rgbToHex(other.rgb)} with ${cvdType} ` +
+        `(ΔE ${other.deltaE.toFixed(1)})`
+    )
+    .join("\n");
+
+  return (
+    <span
+      className="flex items-center gap-px text-xs ml-2 text-yellow-400"
+      title={details}
+    >
+      ⚠
+      {confusable.slice(0, MAX_SWATCHES).map((other) => (
+        <span
+          key={rgbKey(other.rgb)}
+          className="inline-block border rounded"
+          style={{
+            backgroundColor: rgbToHex(other.rgb),
+            borderColor: colors.border,
+            width: "10px",
+            height: "10px",
+          }}
+        ></span>
+      ))}
+    </span>
+  );
+}
+
+export default ConfusableFlag;
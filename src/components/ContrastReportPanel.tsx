@@ -0,0 +1,153 @@
+import { useMemo, useState } from "react";
+import { colors } from "../theme";
+import {
+  MIN_GRAPHIC_CONTRAST,
+  buildContrastReport,
+  countAdjacentColors,
+  getPalette,
+  isLightColor,
+  rgbToHex,
+} from "../lib";
+import type { GifFrame } from "../lib";
+
+interface ContrastReportPanelProps {
+  // Remapped frames; their palette is the one reported on
+  frames: GifFrame[];
+}
+
+// Rows shown at once; long palettes have thousands of pairs
+const MAX_ROWS = 50;
+
+// Swatch labelled with its hex code in whichever of black or white reads
+// better on it
+const LabelledSwatch = ({ rgb }: { rgb: [number, number, number] }) => (
+  <span
+    className="px-1 rounded font-mono border"
+    style={{
+      backgroundColor: rgbToHex(rgb),
+      color: isLightColor(rgb) ? "#000000" : "#FFFFFF",
+      borderColor: colors.border,
+    }}
+  >
+    {rgbToHex(rgb)}
+  </span>
+);
+
+// WCAG contrast and ΔE between every pair of remapped colors, with pairs that
+// touch in the image and lack contrast at the top
+function ContrastReportPanel({ frames }: ContrastReportPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [problemsOnly, setProblemsOnly] = useState(true);
+  const [touchingOnly, setTouchingOnly] = useState(false);
+
+  // Only worked out while the panel is open
+  const report = useMemo(
+    () =>
+      isOpen
+        ? buildContrastReport(
+            getPalette(frames).map((color) => color.rgb),
+            countAdjacentColors(frames)
+          )
+        : [],
+    [isOpen, frames]
+  );
+
+  const rows = report.filter(
+    (pair) =>
+      (!problemsOnly || pair.isProblem) && (!touchingOnly || pair.adjacency > 0)
+  );
+  const problemCount = report.filter((pair) => pair.isProblem).length;
+
+  return (
+    <div
+      className="border p-3 mb-4 rounded text-xs"
+      style={{ borderColor: colors.border }}
+    >
+      <div className="flex items-center">
+        <span className="text-sm font-medium mr-auto">Contrast Report</span>
+        <button
+          className="px-2 py-1 rounded"
+          style={{ backgroundColor: colors.surface, color: colors.text }}
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          {isOpen ? "Hide" : "Show"}
+        </button>
+      </div>
+
+      {isOpen && (
+        <>
+          <div className="flex flex-wrap items-center gap-3 my-2">
+            <span>
+              {problemCount} of {report.length} pairs need attention
+            </span>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={problemsOnly}
+                onChange={(e) => setProblemsOnly(e.target.checked)}
+              />
+              Problems only
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={touchingOnly}
+                onChange={(e) => setTouchingOnly(e.target.checked)}
+              />
+              Touching only
+            </label>
+          </div>
+
+          <div className="flex flex-col gap-1 max-h-64 overflow-y-auto">
+            {rows.slice(0, MAX_ROWS).map((pair) => (
+              <div
+                key={`${rgbToHex(pair.a)}${rgbToHex(pair.b)}`}
+                className="flex items-center gap-2 p-1 rounded"
+                style={{
+                  backgroundColor: pair.isProblem
+                    ? colors.surface
+                    : "transparent",
+                  outline:
+                    pair.isProblem && pair.adjacency > 0
+                      ? "1px solid #facc15"
+                      : undefined,
+                }}
+              >
+                <LabelledSwatch rgb={pair.a} />
+                <LabelledSwatch rgb={pair.b} />
+                <span
+                  className={
+                    pair.contrast < MIN_GRAPHIC_CONTRAST
+                      ? "text-yellow-400"
+                      : undefined
+                  }
+                  title="WCAG contrast ratio; 3:1 is the minimum for graphics"
+                >
+                  {pair.contrast.toFixed(2)}:1
+                </span>
+                <span title="Perceptual difference (CIEDE2000)">
+                  ΔE {pair.deltaE.toFixed(1)}
+                </span>
+                <span className="ml-auto opacity-70">
+                  {pair.adjacency > 0
+                    ? `touch ${pair.adjacency} px`
+                    : "never touch"}
+                </span>
+              </div>
+            ))}
+            {rows.length === 0 && (
+              <span className="opacity-70">No pairs to show</span>
+            )}
+            {rows.length > MAX_ROWS && (
+              <span className="opacity-70">
+                {rows.length - MAX_ROWS} more pairs not shown
+              </span>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ContrastReportPanel;
@@ -0,0 +1,124 @@
+import { colors } from "../theme";
+import { describeFrameScope } from "../lib";
+import type { FrameScope } from "../lib";
+
+interface FrameScopeEditorProps {
+  scope: FrameScope | undefined;
+  frameCount: number;
+  currentFrameIndex: number;
+  onChange: (scope: FrameScope | undefined) => void;
+  // Add a mapping for the same color limited to the current frame
+  onAddOverride: () => void;
+}
+
+const clampFrame = (value: number, frameCount: number) =>
+  Math.min(frameCount - 1, Math.max(0, value));
+
+// Choose whether the selected mapping applies to all frames, a range, or
+// frames picked in the "All Frames" grid
+function FrameScopeEditor({
+  scope,
+  frameCount,
+  currentFrameIndex,
+  onChange,
+  onAddOverride,
+}: FrameScopeEditorProps) {
+  const mode = scope ? scope.type : "all";
+
+  const handleModeChange = (nextMode: string) => {
+    if (nextMode === "range") {
+      onChange({
+        type: "range",
+        start: currentFrameIndex,
+        end: currentFrameIndex,
+      });
+    } else if (nextMode === "set") {
+      onChange({ type: "set", frames: [currentFrameIndex] });
+    } else {
+      onChange(undefined);
+    }
+  };
+
+  // Range inputs are 1-based like the frame labels
+  const updateRange = (start: number, end: number) => {
+    const from = clampFrame(start - 1, frameCount);
+    const to = clampFrame(end - 1, frameCount);
+    onChange({
+      type: "range",
+      start: Math.min(from, to),
+      end: Math.max(from, to),
+    });
+  };
+
+  const inputStyle = {
+    backgroundColor: colors.surface,
+    color: colors.text,
+    width: "3.5rem",
+  };
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
+      <span>Frames:</span>
+      <select
+        value={mode}
+        onChange={(e) => handleModeChange(e.target.value)}
+        className="h-6 px-1 rounded"
+        style={{
+          backgroundColor: colors.surface,
+          color: colors.text,
+          border: "1px solid " + colors.border,
+        }}
+      >
+        <option value="all">All</option>
+        <option value="range">Range</option>
+        <option value="set">Picked</option>
+      </select>
+
+      {scope?.type === "range" && (
+        <>
+          <input
+            type="number"
+            min="1"
+            max={frameCount}
+            value={scope.start + 1}
+            onChange={(e) =>
+              updateRange(Number(e.target.value), scope.end + 1)
+            }
+            className="px-1 rounded"
+            style={inputStyle}
+          />
+          <span>to</span>
+          <input
+            type="number"
+            min="1"
+            max={frameCount}
+            value={scope.end + 1}
+            onChange={(e) =>
+              updateRange(scope.start + 1, Number(e.target.value))
+            }
+            className="px-1 rounded"
+            style={inputStyle}
+          />
+        </>
+      )}
+      {scope?.type === "set" && (
+        <span className="opacity-70">
+          {describeFrameScope(scope)} — click frames in All Frames to toggle
+        </span>
+      )}
+
+      {!scope && (
+        <button
+          className="px-2 py-0 h-6 rounded ml-auto"
+          style={{ backgroundColor: colors.surface, color: colors.text }}
+          onClick={onAddOverride}
+          title="Add a mapping for this color that only applies to some frames"
+        >
+          + Override on frame {currentFrameIndex + 1}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default FrameScopeEditor;
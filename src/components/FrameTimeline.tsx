@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { colors } from "../theme";
+import {
+  deleteFramesOrder,
+  duplicateFramesOrder,
+  moveFrameOrder,
+  pingPongOrder,
+  reverseOrder,
+  snapDelay,
+} from "../lib";
+
+interface FrameTimelineProps {
+  // Composited screen of each frame, as shown in the remapped view
+  thumbnails: Uint8ClampedArray[];
+  width: number;
+  height: number;
+  delays: number[];
+  currentFrameIndex: number;
+  onSelectFrame: (frameIndex: number) => void;
+  onSetDelay: (frameIndices: number[], delay: number) => void;
+  // order lists, for each new frame, the index of the frame it comes from;
+  // label names the edit in the undo history
+  onReorder: (order: number[], label: string) => void;
+}
+
+// Height of a thumbnail in CSS pixels
+const THUMBNAIL_HEIGHT = 48;
+
+// Editable strip of frames: per-frame and bulk delays, drag to reorder, and
+// delete, duplicate, reverse or ping-pong the sequence
+function FrameTimeline({
+  thumbnails,
+  width,
+  height,
+  delays,
+  currentFrameIndex,
+  onSelectFrame,
+  onSetDelay,
+  onReorder,
+}: FrameTimelineProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [anchor, setAnchor] = useState<number | null>(null);
+  const [bulkDelay, setBulkDelay] = useState(100);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const count = delays.length;
+  // Selections from before a frame count change no longer apply
+  const selection = selected.filter((index) => index < count);
+
+  // Click selects one frame; Ctrl/Cmd toggles, Shift extends a range
+  const handleClick = (event: React.MouseEvent, index: number) => {
+    if (event.shiftKey && anchor !== null) {
+      const start = Math.min(anchor, index);
+      const end = Math.max(anchor, index);
+      setSelected(
+        Array.from({ length: end - start + 1 }, (_, i) => start + i)
+      );
+    } else if (event.ctrlKey || event.metaKey) {
+      setSelected(
+        selection.includes(index)
+          ? selection.filter((i) => i !== index)
+          : [...selection, index].sort((a, b) => a - b)
+      );
+      setAnchor(index);
+    } else {
+      setSelected([index]);
+      setAnchor(index);
+    }
+    onSelectFrame(index);
+  };
+
+  const reorder = (order: number[], label: string) => {
+    setSelected([]);
+    setAnchor(null);
+    onReorder(order, label);
+  };
+
+  // "frame 3" or "4 frames", for history labels
+  const describeSelection = () =>
+    selection.length === 1
+      ? `frame ${selection[0] + 1}`
+      : `${selection.length} frames`;
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      reorder(
+        moveFrameOrder(count, dragIndex, index),
+        `Move frame ${dragIndex + 1}`
+      );
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  // Delays are saved in 10ms steps, so the input shows the snapped value
+  const commitDelay = (input: HTMLInputElement, index: number) => {
+    const delay = snapDelay(Number(input.value));
+    if (!Number.isFinite(delay)) {
+      input.value = String(delays[index]);
+    } else if (delay !== delays[index]) {
+      onSetDelay([index], delay);
+    } else {
+      input.value = String(delay);
+    }
+  };
+
+  const buttonStyle = { backgroundColor: colors.surface, color: colors.text };
+  const totalDuration = delays.reduce((sum, delay) => sum + delay, 0);
+
+  return (
+    <div
+      className="border p-3 mb-4 rounded text-xs"
+      style={{ borderColor: colors.border }}
+    >
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <span className="text-sm font-medium">Timeline</span>
+        <span className="opacity-70">
+          {count} frames, {(totalDuration / 1000).toFixed(2)}s
+        </span>
+        <div className="flex items-center gap-1 ml-auto">
+          <button
+            className="px-2 py-1 rounded"
+            style={buttonStyle}
+            onClick={() =>
+              setSelected(Array.from({ length: count }, (_, i) => i))
+            }
+          >
+            Select all
+          </button>
+          <input
+            type="number"
+            min="0"
+            step="10"
+            value={bulkDelay}
+            onChange={(e) => setBulkDelay(Number(e.target.value))}
+            className="px-1 rounded"
+            style={{ ...buttonStyle, width: "4rem" }}
+          />
+          <span>ms</span>
+          <button
+            className="px-2 py-1 rounded"
+            style={buttonStyle}
+            disabled={selection.length === 0}
+            onClick={() => {
+              const delay = snapDelay(bulkDelay);
+              setBulkDelay(delay);
+              onSetDelay(selection, delay);
+            }}
+          >
+            Set delay
+          </button>
+          <button
+            className="px-2 py-1 rounded"
+            style={buttonStyle}
+            disabled={selection.length === 0}
+            onClick={() =>
+              reorder(
+                duplicateFramesOrder(count, selection),
+                `Duplicate ${describeSelection()}`
+              )
+            }
+          >
+            Duplicate
+          </button>
+          <button
+            className="px-2 py-1 rounded"
+            style={buttonStyle}
+            // At least one frame has to stay
+            disabled={selection.length === 0 || selection.length === count}
+            onClick={() =>
+              reorder(
+                deleteFramesOrder(count, selection),
+                `Delete ${describeSelection()}`
+              )
+            }
+          >
+            Delete
+          </button>
+          <button
+            className="px-2 py-1 rounded"
+            style={buttonStyle}
+            disabled={count < 2}
+            onClick={() => reorder(reverseOrder(count), "Reverse frames")}
+          >
+            Reverse
+          </button>
+          <button
+            className="px-2 py-1 rounded"
+            style={buttonStyle}
+            disabled={count < 3}
+            onClick={() => reorder(pingPongOrder(count), "Ping-pong frames")}
+          >
+            Ping-pong
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {thumbnails.map((data, index) => (
+          <div
+            key={index}
+            draggable
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDragLeave={() => setDropIndex(null)}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            onClick={(e) => handleClick(e, index)}
+            className="flex flex-col items-center gap-1 p-1 rounded cursor-pointer"
+            style={{
+              backgroundColor: selection.includes(index)
+                ? colors.surface
+                : "transparent",
+              outline:
+                dropIndex === index && dragIndex !== index
+                  ? `2px dashed ${colors.primary}`
+                  : index === currentFrameIndex
+                    ? `1px solid ${colors.text}`
+                    : "none",
+              opacity: dragIndex === index ? 0.5 : 1,
+            }}
+          >
+            <canvas
+              width={width}
+              height={height}
+              style={{
+                height: `${THUMBNAIL_HEIGHT}px`,
+                width: `${(THUMBNAIL_HEIGHT * width) / height}px`,
+                imageRendering: "pixelated",
+                border: "1px solid " + colors.border,
+              }}
+              ref={(canvas) => {
+                if (!canvas) return;
+                const ctx = canvas.getContext("2d")!;
+                const imageData = ctx.createImageData(width, height);
+                imageData.data.set(data);
+                ctx.putImageData(imageData, 0, 0);
+              }}
+            ></canvas>
+            <span>{index + 1}</span>
+            <input
+              // Remount when the delay changes elsewhere, e.g. a bulk edit
+              key={delays[index]}
+              type="number"
+              min="0"
+              step="10"
+              defaultValue={delays[index]}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={(e) => commitDelay(e.currentTarget, index)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") e.currentTarget.blur();
+              }}
+              className="px-1 rounded"
+              style={{ ...buttonStyle, width: "3.5rem" }}
+              title="Delay in milliseconds"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default FrameTimeline;
@@ -0,0 +1,50 @@
+import { colors } from "../theme";
+
+interface FrameUsageStripProps {
+  // Pixel count of the color in each frame
+  counts: number[];
+  currentFrameIndex: number;
+  onSelectFrame: (frameIndex: number) => void;
+}
+
+// Bar per frame showing how much of a color it uses; click to jump there
+function FrameUsageStrip({
+  counts,
+  currentFrameIndex,
+  onSelectFrame,
+}: FrameUsageStripProps) {
+  const max = Math.max(1, ...counts);
+  const usedFrames = counts.filter((count) => count > 0).length;
+
+  return (
+    <div className="mb-3 text-xs">
+      <div className="mb-1">
+        Used in {usedFrames} of {counts.length} frames
+      </div>
+      <div className="flex items-end gap-px h-8">
+        {counts.map((count, index) => (
+          <div
+            key={index}
+            className="flex-1 cursor-pointer"
+            title={`Frame ${index + 1}: ${count} px`}
+            onClick={() => onSelectFrame(index)}
+            style={{
+              // Keep unused frames visible as a thin baseline
+              height:
+                count > 0 ? `${Math.max(10, (count / max) * 100)}%` : "2px",
+              backgroundColor:
+                index === currentFrameIndex
+                  ? colors.text
+                  : count > 0
+                    ? colors.primary
+                    : colors.border,
+              minWidth: "2px",
+            }}
+          ></div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default FrameUsageStrip;
@@ -0,0 +1,72 @@
+import { colors } from "../theme";
+import type { HistoryEntry } from "../hooks/useHistory";
+
+interface HistoryPanelProps<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+// List of recorded edits; clicking an entry jumps back (or forward) to it
+function HistoryPanel<T>({
+  entries,
+  index,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJump,
+}: HistoryPanelProps<T>) {
+  return (
+    <div
+      className="border p-3 mb-4 rounded"
+      style={{ borderColor: colors.border }}
+    >
+      <div className="flex items-center gap-2 mb-2 text-xs">
+        <span className="text-sm font-medium mr-auto">History</span>
+        <button
+          className="px-2 py-1 rounded"
+          style={{ backgroundColor: colors.surface, color: colors.text }}
+          onClick={onUndo}
+          disabled={!canUndo}
+          title="Undo (Ctrl+Z)"
+        >
+          Undo
+        </button>
+        <button
+          className="px-2 py-1 rounded"
+          style={{ backgroundColor: colors.surface, color: colors.text }}
+          onClick={onRedo}
+          disabled={!canRedo}
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          Redo
+        </button>
+      </div>
+
+      <ol className="text-xs max-h-32 overflow-y-auto">
+        {entries.map((entry, entryIndex) => (
+          <li
+            key={entryIndex}
+            className="px-2 py-1 rounded cursor-pointer"
+            style={{
+              backgroundColor:
+                entryIndex === index ? colors.accent : "transparent",
+              // Entries past the current one are the redo stack
+              opacity: entryIndex > index ? 0.5 : 1,
+            }}
+            onClick={() => onJump(entryIndex)}
+          >
+            {entry.label}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export default HistoryPanel;
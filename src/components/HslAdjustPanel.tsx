@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { colors } from "../theme";
+import { NO_ADJUSTMENT, previewHslAdjustment } from "../lib";
+import type {
+  ColorCount,
+  ColorMapping,
+  HslAdjustment,
+  HslPreview,
+} from "../lib";
+
+interface HslAdjustPanelProps {
+  palette: ColorCount[];
+  mappings: ColorMapping[];
+  // Adjustment to preview on the current mappings, or null to show them as
+  // they are
+  onPreview: (preview: HslPreview | null) => void;
+  onApply: (mappings: ColorMapping[], label: string) => void;
+}
+
+const describeAdjustment = ({
+  hueShift,
+  saturationScale,
+  lightnessShift,
+}: HslAdjustment): string => {
+  const parts = [];
+  if (hueShift) parts.push(`hue ${hueShift > 0 ? "+" : ""}${hueShift}°`);
+  if (saturationScale !== 1) parts.push(`sat ×${saturationScale}`);
+  if (lightnessShift) {
+    parts.push(`light ${lightnessShift > 0 ? "+" : ""}${lightnessShift}`);
+  }
+  return `Adjust ${parts.join(", ")}`;
+};
+
+const isNeutralAdjustment = (adjustment: HslAdjustment): boolean =>
+  adjustment.hueShift === NO_ADJUSTMENT.hueShift &&
+  adjustment.saturationScale === NO_ADJUSTMENT.saturationScale &&
+  adjustment.lightnessShift === NO_ADJUSTMENT.lightnessShift;
+
+// Hue/saturation/lightness adjustment across the whole palette or a subset
+function HslAdjustPanel({
+  palette,
+  mappings,
+  onPreview,
+  onApply,
+}: HslAdjustPanelProps) {
+  const [adjustment, setAdjustment] = useState<HslAdjustment>(NO_ADJUSTMENT);
+  // Colors left out of the adjustment, e.g. outlines or skin tones
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const isNeutral = isNeutralAdjustment(adjustment);
+
+  // Update state and the live preview together
+  const update = (
+    nextAdjustment: HslAdjustment,
+    nextExcluded: Set<string> = excluded
+  ) => {
+    setAdjustment(nextAdjustment);
+    setExcluded(nextExcluded);
+
+    onPreview(
+      isNeutralAdjustment(nextAdjustment)
+        ? null
+        : { adjustment: nextAdjustment, excluded: nextExcluded }
+    );
+  };
+
+  const toggleExcluded = (color: string) => {
+    const nextExcluded = new Set(excluded);
+    if (nextExcluded.has(color)) {
+      nextExcluded.delete(color);
+    } else {
+      nextExcluded.add(color);
+    }
+    update(adjustment, nextExcluded);
+  };
+
+  const handleApply = () => {
+    onApply(
+      previewHslAdjustment(palette, mappings, { adjustment, excluded }),
+      describeAdjustment(adjustment)
+    );
+    setAdjustment(NO_ADJUSTMENT);
+    onPreview(null);
+  };
+
+  const handleReset = () => {
+    setAdjustment(NO_ADJUSTMENT);
+    onPreview(null);
+  };
+
+  const mappedColors = new Set(mappings.map((m) => m.originalColor));
+
+  return (
+    <div
+      className="border p-3 mb-4 rounded"
+      style={{ borderColor: colors.border }}
+    >
+      <div className="text-sm font-medium mb-2">Adjust Palette</div>
+
+      <div className="grid grid-cols-[auto_1fr_auto] items-center gap-x-2 gap-y-1 text-xs mb-2">
+        <span>Hue</span>
+        <input
+          type="range"
+          min="-180"
+          max="180"
+          value={adjustment.hueShift}
+          onChange={(e) =>
+            update({ ...adjustment, hueShift: Number(e.target.value) })
+          }
+          className="h-4"
+        />
+        <span className="w-10 text-right">{adjustment.hueShift}°</span>
+
+        <span>Saturation</span>
+        <input
+          type="range"
+          min="0"
+          max="200"
+          value={Math.round(adjustment.saturationScale * 100)}
+          onChange={(e) =>
+            update({
+              ...adjustment,
+              saturationScale: Number(e.target.value) / 100,
+            })
+          }
+          className="h-4"
+        />
+        <span className="w-10 text-right">
+          {Math.round(adjustment.saturationScale * 100)}%
+        </span>
+
+        <span>Lightness</span>
+        <input
+          type="range"
+          min="-100"
+          max="100"
+          value={adjustment.lightnessShift}
+          onChange={(e) =>
+            update({ ...adjustment, lightnessShift: Number(e.target.value) })
+          }
+          className="h-4"
+        />
+        <span className="w-10 text-right">{adjustment.lightnessShift}</span>
+      </div>
+
+      {/* Click a swatch to exclude it from the adjustment */}
+      <div className="flex items-center gap-2 text-xs mb-1">
+        <span className="mr-auto opacity-70">
+          Affects {palette.filter((c) => !excluded.has(c.color)).length} of{" "}
+          {palette.length} colors
+        </span>
+        <button
+          className="px-2 py-0 rounded"
+          style={{ backgroundColor: colors.surface, color: colors.text }}
+          onClick={() => update(adjustment, new Set())}
+        >
+          All
+        </button>
+        <button
+          className="px-2 py-0 rounded"
+          style={{ backgroundColor: colors.surface, color: colors.text }}
+          onClick={() =>
+            update(
+              adjustment,
+              new Set(
+                palette
+                  .map((color) => color.color)
+                  .filter((color) => !mappedColors.has(color))
+              )
+            )
+          }
+        >
+          Mapped
+        </button>
+        <button
+          className="px-2 py-0 rounded"
+          style={{ backgroundColor: colors.surface, color: colors.text }}
+          onClick={() =>
+            update(adjustment, new Set(palette.map((color) => color.color)))
+          }
+        >
+          None
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1 mb-2 max-h-24 overflow-y-auto">
+        {palette.map((color) => {
+          const isExcluded = excluded.has(color.color);
+          return (
+            <div
+              key={color.color}
+              className="border rounded cursor-pointer text-center"
+              title={`${color.color}${isExcluded ? " (excluded)" : ""}`}
+              onClick={() => toggleExcluded(color.color)}
+              style={{
+                backgroundColor: color.color,
+                borderColor: colors.border,
+                width: "16px",
+                height: "16px",
+                lineHeight: "14px",
+                fontSize: "10px",
+                opacity: isExcluded ? 0.3 : 1,
+              }}
+            >
+              {isExcluded ? "×" : ""}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 text-xs">
+        <button
+          className="px-2 py-1 rounded"
+          style={{ backgroundColor: colors.surface, color: colors.text }}
+          onClick={handleApply}
+          disabled={isNeutral}
+        >
+          Apply
+        </button>
+        <button
+          className="px-2 py-1 rounded"
+          style={{ backgroundColor: colors.surface, color: colors.text }}
+          onClick={handleReset}
+          disabled={isNeutral}
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default HslAdjustPanel;
@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useRef } from "react";
+import { colors } from "../theme";
+import {
+  floodFillMask,
+  hexToRgb,
+  paintBrush,
+  paintLine,
+  paintRect,
+} from "../lib";
+
+export type MaskTool = "brush" | "rect" | "fill";
+
+export interface MaskToolSettings {
+  tool: MaskTool;
+  // Brush radius in GIF pixels
+  brushSize: number;
+  // Remove from the mask instead of adding to it
+  erase: boolean;
+}
+
+interface MaskOverlayProps {
+  width: number;
+  height: number;
+  // Layer shown for the current frame, undefined when nothing is painted
+  layer: Uint8Array | undefined;
+  settings: MaskToolSettings;
+  // Composited pixels of the current frame, used by flood fill
+  getScreen: () => ArrayLike<number>;
+  // Apply a finished stroke, rectangle or fill to the current layer
+  onEdit: (edit: (layer: Uint8Array) => void) => void;
+}
+
+interface Draft {
+  // Layer before the gesture started, so rectangles can be redrawn
+  base: Uint8Array;
+  layer: Uint8Array;
+  start: [number, number];
+  last: [number, number];
+}
+
+const [overlayR, overlayG, overlayB] = hexToRgb(colors.primary);
+
+// Transparent canvas laid over the zoomed view that shows the mask and turns
+// pointer gestures into mask edits
+function MaskOverlay({
+  width,
+  height,
+  layer,
+  settings,
+  getScreen,
+  onEdit,
+}: MaskOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const draftRef = useRef<Draft | null>(null);
+
+  const draw = useCallback(
+    (data: Uint8Array | undefined) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+
+      const ctx = canvas.getContext("2d")!;
+      const imageData = ctx.createImageData(width, height);
+      if (data) {
+        for (let i = 0; i < data.length; i++) {
+          if (!data[i]) continue;
+          imageData.data[i * 4] = overlayR;
+          imageData.data[i * 4 + 1] = overlayG;
+          imageData.data[i * 4 + 2] = overlayB;
+          imageData.data[i * 4 + 3] = 128;
+        }
+      }
+      ctx.putImageData(imageData, 0, 0);
+    },
+    [width, height]
+  );
+
+  useEffect(() => {
+    draw(layer);
+  }, [layer, draw]);
+
+  // Pointer position in GIF pixels
+  const toPixel = (
+    event: React.PointerEvent<HTMLCanvasElement>
+  ): [number, number] => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return [
+      Math.floor(((event.clientX - rect.left) / rect.width) * width),
+      Math.floor(((event.clientY - rect.top) / rect.height) * height),
+    ];
+  };
+
+  const value = settings.erase ? 0 : 1;
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toPixel(event);
+
+    if (settings.tool === "fill") {
+      const screen = getScreen();
+      onEdit((target) =>
+        floodFillMask(target, width, height, screen, point[0], point[1], value)
+      );
+      return;
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const base = layer
+      ? new Uint8Array(layer)
+      : new Uint8Array(width * height);
+    const draft: Draft = {
+      base,
+      layer: new Uint8Array(base),
+      start: point,
+      last: point,
+    };
+    draftRef.current = draft;
+
+    if (settings.tool === "brush") {
+      paintBrush(
+        draft.layer,
+        width,
+        height,
+        point[0],
+        point[1],
+        settings.brushSize,
+        value
+      );
+    } else {
+      paintRect(draft.layer, width, height, point, point, value);
+    }
+    draw(draft.layer);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const draft = draftRef.current;
+    if (!draft) return;
+
+    const point = toPixel(event);
+    if (settings.tool === "brush") {
+      paintLine(
+        draft.layer,
+        width,
+        height,
+        draft.last,
+        point,
+        settings.brushSize,
+        value
+      );
+    } else {
+      // Redraw the rectangle from the untouched layer
+      draft.layer.set(draft.base);
+      paintRect(draft.layer, width, height, draft.start, point, value);
+    }
+    draft.last = point;
+    draw(draft.layer);
+  };
+
+  const handlePointerUp = () => {
+    const draft = draftRef.current;
+    if (!draft) return;
+
+    draftRef.current = null;
+    onEdit((target) => target.set(draft.layer));
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      style={{
+        position: "absolute",
+        top: "1px",
+        left: "1px",
+        width: "calc(100% - 2px)",
+        height: "calc(100% - 2px)",
+        imageRendering: "pixelated",
+        cursor: settings.tool === "fill" ? "cell" : "crosshair",
+        touchAction: "none",
+      }}
+    ></canvas>
+  );
+}
+
+export default MaskOverlay;
@@ -0,0 +1,212 @@
+import { colors } from "../theme";
+import { createMask, editMaskLayer, setMaskTracked } from "../lib";
+import type { RegionMask } from "../lib";
+import type { MaskTool, MaskToolSettings } from "./MaskOverlay";
+
+interface MaskPanelProps {
+  masks: RegionMask[];
+  // Mask being painted on the zoomed view, or null when not painting
+  activeMaskId: string | null;
+  settings: MaskToolSettings;
+  screenWidth: number;
+  screenHeight: number;
+  currentFrameIndex: number;
+  onSelectMask: (maskId: string | null) => void;
+  // Receives the new mask list and a label for the undo history
+  onMasksChange: (masks: RegionMask[], label: string) => void;
+  onDeleteMask: (mask: RegionMask) => void;
+  onSettingsChange: (settings: MaskToolSettings) => void;
+}
+
+const TOOLS: { value: MaskTool; label: string }[] = [
+  { value: "brush", label: "Brush" },
+  { value: "rect", label: "Rectangle" },
+  { value: "fill", label: "Fill region" },
+];
+
+// Create region masks and choose how they are painted
+function MaskPanel({
+  masks,
+  activeMaskId,
+  settings,
+  screenWidth,
+  screenHeight,
+  currentFrameIndex,
+  onSelectMask,
+  onMasksChange,
+  onDeleteMask,
+  onSettingsChange,
+}: MaskPanelProps) {
+  const activeMask = masks.find((mask) => mask.id === activeMaskId);
+
+  const handleCreate = () => {
+    // Next free number, so ids stay unique after deletions
+    const next =
+      masks.reduce(
+        (max, mask) => Math.max(max, Number(mask.id.split("-")[1]) || 0),
+        0
+      ) + 1;
+    const mask = createMask(
+      `mask-${next}`,
+      `Mask ${next}`,
+      screenWidth,
+      screenHeight
+    );
+    onMasksChange([...masks, mask], `New ${mask.name}`);
+    onSelectMask(mask.id);
+  };
+
+  const updateActiveMask = (
+    update: (mask: RegionMask) => RegionMask,
+    label: string
+  ) => {
+    onMasksChange(
+      masks.map((mask) => (mask.id === activeMaskId ? update(mask) : mask)),
+      label
+    );
+  };
+
+  const buttonStyle = { backgroundColor: colors.surface, color: colors.text };
+
+  return (
+    <div
+      className="border p-3 mb-4 rounded"
+      style={{ borderColor: colors.border }}
+    >
+      <div className="flex items-center mb-2">
+        <div className="text-sm font-medium mr-auto">Region Masks</div>
+        <button
+          className="text-xs px-2 py-1 rounded"
+          style={buttonStyle}
+          onClick={handleCreate}
+        >
+          New Mask
+        </button>
+      </div>
+
+      {masks.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2 text-xs">
+          {masks.map((mask) => (
+            <div
+              key={mask.id}
+              className="flex items-center gap-1 px-2 py-1 rounded cursor-pointer"
+              style={{
+                ...buttonStyle,
+                outline:
+                  mask.id === activeMaskId
+                    ? `1px solid ${colors.primary}`
+                    : undefined,
+              }}
+              onClick={() =>
+                onSelectMask(mask.id === activeMaskId ? null : mask.id)
+              }
+              title={
+                mask.id === activeMaskId
+                  ? "Stop painting this mask"
+                  : "Paint this mask on the original zoomed view"
+              }
+            >
+              {mask.name}
+              {mask.tracked && <span className="opacity-70">(tracked)</span>}
+              <button
+                className="ml-1 opacity-70 hover:opacity-100"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDeleteMask(mask);
+                }}
+                title="Delete this mask and the mappings bound to it"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {activeMask && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {TOOLS.map((tool) => (
+            <button
+              key={tool.value}
+              className="px-2 py-0 h-6 rounded"
+              style={{
+                ...buttonStyle,
+                outline:
+                  settings.tool === tool.value
+                    ? `1px solid ${colors.text}`
+                    : undefined,
+              }}
+              onClick={() =>
+                onSettingsChange({ ...settings, tool: tool.value })
+              }
+            >
+              {tool.label}
+            </button>
+          ))}
+          {settings.tool === "brush" && (
+            <label className="flex items-center gap-1">
+              Size
+              <input
+                type="range"
+                min="0"
+                max="10"
+                value={settings.brushSize}
+                onChange={(e) =>
+                  onSettingsChange({
+                    ...settings,
+                    brushSize: Number(e.target.value),
+                  })
+                }
+                className="w-16 h-4"
+              />
+            </label>
+          )}
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={settings.erase}
+              onChange={(e) =>
+                onSettingsChange({ ...settings, erase: e.target.checked })
+              }
+            />
+            Erase
+          </label>
+          <label
+            className="flex items-center gap-1"
+            title="Paint any frame separately; the frames after a painted one follow its region as the content moves"
+          >
+            <input
+              type="checkbox"
+              checked={activeMask.tracked}
+              onChange={(e) =>
+                updateActiveMask(
+                  (mask) =>
+                    setMaskTracked(mask, e.target.checked, currentFrameIndex),
+                  `${e.target.checked ? "Track" : "Untrack"} ${activeMask.name}`
+                )
+              }
+            />
+            Track across frames
+          </label>
+          <button
+            className="px-2 py-0 h-6 rounded"
+            style={buttonStyle}
+            onClick={() =>
+              updateActiveMask(
+                (mask) =>
+                  editMaskLayer(mask, currentFrameIndex, (layer) =>
+                    layer.fill(0)
+                  ),
+                `Clear ${activeMask.name}`
+              )
+            }
+          >
+            Clear
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MaskPanel;
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { colors } from "../theme";
+import {
+  createPaletteDocument,
+  formatCssVariables,
+  getPalette,
+  toPaletteFile,
+  writePaletteFile,
+} from "../lib";
+import type {
+  ColorCount,
+  ColorMapping,
+  GifFrame,
+  PaletteExportFormat,
+} from "../lib";
+import { downloadFile } from "../download";
+
+interface PaletteExportMenuProps {
+  palette: ColorCount[];
+  // Remapped frames, only fetched and counted when exporting
+  getRemappedFrames: () => Promise<GifFrame[]>;
+  mappings: ColorMapping[];
+  // Base for exported file names, e.g. the uploaded GIF's name
+  baseName: string;
+  onError: (message: string) => void;
+}
+
+type ExportFormat = PaletteExportFormat | "json";
+
+const FORMATS: { value: ExportFormat; label: string; mimeType: string }[] = [
+  { value: "gpl", label: "GIMP (.gpl)", mimeType: "text/plain" },
+  { value: "pal", label: "JASC (.pal)", mimeType: "text/plain" },
+  { value: "hex", label: "Lospec (.hex)", mimeType: "text/plain" },
+  { value: "ase", label: "Adobe (.ase)", mimeType: "application/octet-stream" },
+  { value: "css", label: "CSS variables", mimeType: "text/css" },
+  {
+    value: "json",
+    label: "JSON (counts + pairs)",
+    mimeType: "application/json",
+  },
+];
+
+// Download the original or remapped palette in a standard palette format
+function PaletteExportMenu({
+  palette,
+  getRemappedFrames,
+  mappings,
+  baseName,
+  onError,
+}: PaletteExportMenuProps) {
+  const [format, setFormat] = useState<ExportFormat>("gpl");
+  const { mimeType } = FORMATS.find((f) => f.value === format)!;
+
+  const exportPalette = (colorsToExport: ColorCount[], suffix: string) => {
+    const name = `${baseName}-${suffix}`;
+    const file = toPaletteFile(colorsToExport, name);
+    const data =
+      format === "css"
+        ? formatCssVariables(file, suffix)
+        : writePaletteFile(file, format as PaletteExportFormat);
+    downloadFile(data, `${name}.${format}`, mimeType);
+  };
+
+  const exportRemapped = async () => {
+    try {
+      exportPalette(getPalette(await getRemappedFrames()), "remapped");
+    } catch (err) {
+      onError("Failed to export the remapped palette");
+      console.error(err);
+    }
+  };
+
+  // The JSON document covers both palettes at once
+  const exportDocument = async () => {
+    try {
+      const paletteDocument = createPaletteDocument(
+        palette,
+        getPalette(await getRemappedFrames()),
+        mappings,
+        baseName
+      );
+      downloadFile(
+        JSON.stringify(paletteDocument, null, 2),
+        `${baseName}-palette.json`,
+        mimeType
+      );
+    } catch (err) {
+      onError("Failed to export the palette document");
+      console.error(err);
+    }
+  };
+
+  const buttonStyle = { backgroundColor: colors.surface, color: colors.text };
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        className="h-6 px-1 rounded"
+        style={{ ...buttonStyle, border: "1px solid " + colors.border }}
+      >
+        {FORMATS.map((f) => (
+          <option key={f.value} value={f.value}>
+            {f.label}
+          </option>
+        ))}
+      </select>
+      {format === "json" ? (
+        <button
+          className="px-2 py-0 h-6 rounded"
+          style={buttonStyle}
+          onClick={exportDocument}
+        >
+          Export
+        </button>
+      ) : (
+        <>
+          <button
+            className="px-2 py-0 h-6 rounded"
+            style={buttonStyle}
+            onClick={() => exportPalette(palette, "original")}
+          >
+            Export Original
+          </button>
+          <button
+            className="px-2 py-0 h-6 rounded"
+            style={buttonStyle}
+            onClick={exportRemapped}
+          >
+            Export Remapped
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default PaletteExportMenu;
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { colors } from "../theme";
+import {
+  loadGif,
+  getPalette,
+  getPaletteFromRgba,
+  proposeMappings,
+} from "../lib";
+import type { ColorCount, ColorMapping, TransferMethod } from "../lib";
+import { readImagePixels } from "../imagePixels";
+
+interface PaletteTransferPanelProps {
+  sourcePalette: ColorCount[];
+  onApply: (mappings: ColorMapping[], label: string) => void;
+  onError: (message: string) => void;
+}
+
+// Load a reference image and propose mappings onto its palette
+function PaletteTransferPanel({
+  sourcePalette,
+  onApply,
+  onError,
+}: PaletteTransferPanelProps) {
+  const [referenceName, setReferenceName] = useState("");
+  const [referencePalette, setReferencePalette] = useState<ColorCount[]>([]);
+  const [method, setMethod] = useState<TransferMethod>("distance");
+
+  // Extract the reference palette the same way the GIF palette is built
+  const handleReferenceChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const palette =
+        file.type === "image/gif"
+          ? getPalette(loadGif(await file.arrayBuffer()).frames)
+          : getPaletteFromRgba((await readImagePixels(file)).data);
+
+      setReferenceName(file.name);
+      setReferencePalette(palette);
+    } catch (err) {
+      onError("Failed to read reference image");
+      console.error(err);
+    }
+  };
+
+  const handlePropose = () => {
+    onApply(
+      proposeMappings(sourcePalette, referencePalette, method),
+      `Transfer from ${referenceName}`
+    );
+  };
+
+  return (
+    <div
+      className="border p-3 mb-4 rounded"
+      style={{ borderColor: colors.border }}
+    >
+      <div className="flex items-center gap-2 mb-2 text-xs">
+        <span className="text-sm font-medium mr-auto">Reference Palette</span>
+        <label
+          className="px-2 py-1 rounded cursor-pointer"
+          style={{
+            backgroundColor: colors.surface,
+            color: colors.text,
+            border: "1px solid " + colors.border,
+          }}
+        >
+          Load Image
+          <input
+            type="file"
+            accept="image/gif,image/png"
+            onChange={handleReferenceChange}
+            style={{ display: "none" }}
+          />
+        </label>
+      </div>
+
+      {referencePalette.length > 0 && (
+        <>
+          <div className="text-xs mb-2 opacity-70">
+            {referenceName} ({referencePalette.length} colors)
+          </div>
+          <div className="flex flex-wrap gap-1 mb-2 max-h-24 overflow-y-auto">
+            {referencePalette.map((color) => (
+              <div
+                key={color.color}
+                className="border rounded"
+                title={color.color}
+                style={{
+                  backgroundColor: color.color,
+                  borderColor: colors.border,
+                  width: "16px",
+                  height: "16px",
+                }}
+              ></div>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-xs">
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as TransferMethod)}
+              className="px-1 py-1 rounded"
+              style={{ backgroundColor: colors.surface, color: colors.text }}
+            >
+              <option value="distance">Closest color (ΔE)</option>
+              <option value="luminance">Light-to-dark order</option>
+            </select>
+            <button
+              className="px-2 py-1 rounded"
+              style={{ backgroundColor: colors.surface, color: colors.text }}
+              onClick={handlePropose}
+              disabled={sourcePalette.length === 0}
+            >
+              Propose Mappings
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default PaletteTransferPanel;
@@ -0,0 +1,68 @@
+import { colors } from "../theme";
+import { rgbToHex } from "../lib";
+import type { PixelInspection } from "../lib";
+
+interface PixelInspectorProps {
+  inspection: PixelInspection;
+  // Composited RGBA shown at the pixel in the original and remapped views
+  original: ArrayLike<number>;
+  mapped: ArrayLike<number>;
+}
+
+const Swatch = ({ rgba }: { rgba: ArrayLike<number> }) => (
+  <span
+    className="inline-block border rounded align-middle"
+    style={{
+      backgroundColor:
+        rgba[3] === 0 ? "transparent" : rgbToHex([rgba[0], rgba[1], rgba[2]]),
+      borderColor: colors.border,
+      width: "12px",
+      height: "12px",
+    }}
+  ></span>
+);
+
+const describeColor = (rgba: ArrayLike<number>) =>
+  rgba[3] === 0 ? "transparent" : rgbToHex([rgba[0], rgba[1], rgba[2]]);
+
+// One-line readout of the pixel under the pointer on the zoomed views
+function PixelInspector({
+  inspection,
+  original,
+  mapped,
+}: PixelInspectorProps) {
+  const { x, y, frameX, frameY, colorIndex, transparentIndex, isTransparent } =
+    inspection;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs font-mono">
+      <span>
+        ({x}, {y})
+      </span>
+      {frameX !== undefined ? (
+        <span className="opacity-70">
+          frame ({frameX}, {frameY})
+        </span>
+      ) : (
+        <span className="opacity-70">outside frame rect</span>
+      )}
+      {colorIndex !== undefined && <span>index {colorIndex}</span>}
+      <span className="flex items-center gap-1">
+        <Swatch rgba={original} />
+        {describeColor(original)}
+        <span>→</span>
+        <Swatch rgba={mapped} />
+        {describeColor(mapped)}
+      </span>
+      <span className="opacity-70">
+        {transparentIndex === undefined
+          ? "no transparent index"
+          : isTransparent
+            ? `transparent (index ${transparentIndex}), earlier frame shows`
+            : `transparent index ${transparentIndex}`}
+      </span>
+    </div>
+  );
+}
+
+export default PixelInspector;
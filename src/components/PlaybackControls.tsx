@@ -0,0 +1,110 @@
+import { colors } from "../theme";
+import type { PlaybackMode } from "../lib";
+
+interface PlaybackControlsProps {
+  frameCount: number;
+  currentFrameIndex: number;
+  isPlaying: boolean;
+  speed: number;
+  mode: PlaybackMode;
+  // Loop count stored in the file, undefined when it plays once
+  loopCount?: number;
+  onTogglePlay: () => void;
+  onSeek: (frameIndex: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onModeChange: (mode: PlaybackMode) => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 1.5, 2, 4];
+
+const describeLoopCount = (loopCount?: number) => {
+  if (loopCount === undefined) return "plays once";
+  if (loopCount === 0) return "loops forever";
+  return `plays ${loopCount + 1} times`;
+};
+
+// Play/pause, frame stepping, a scrubber, speed and what happens at the end
+function PlaybackControls({
+  frameCount,
+  currentFrameIndex,
+  isPlaying,
+  speed,
+  mode,
+  loopCount,
+  onTogglePlay,
+  onSeek,
+  onSpeedChange,
+  onModeChange,
+}: PlaybackControlsProps) {
+  const controlStyle = { backgroundColor: colors.surface, color: colors.text };
+  // Stepping wraps around at either end
+  const step = (delta: number) =>
+    onSeek((currentFrameIndex + delta + frameCount) % frameCount);
+
+  return (
+    <div className="flex items-center gap-1 text-xs whitespace-nowrap">
+      <button
+        onClick={() => step(-1)}
+        className="px-2 py-0 h-7"
+        style={controlStyle}
+        title="Previous frame"
+      >
+        ◀
+      </button>
+      <button
+        onClick={onTogglePlay}
+        className="px-2 py-0 h-7"
+        style={controlStyle}
+      >
+        {isPlaying ? "Pause" : "Play"}
+      </button>
+      <button
+        onClick={() => step(1)}
+        className="px-2 py-0 h-7"
+        style={controlStyle}
+        title="Next frame"
+      >
+        ▶
+      </button>
+      <input
+        type="range"
+        min="0"
+        max={frameCount - 1}
+        value={currentFrameIndex}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="w-24 h-4"
+        title="Scrub through the frames"
+      />
+      <span className="w-14">
+        {currentFrameIndex + 1} / {frameCount}
+      </span>
+      <select
+        value={speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        className="h-7 px-1 rounded"
+        style={controlStyle}
+        title="Playback speed"
+      >
+        {SPEEDS.map((value) => (
+          <option key={value} value={value}>
+            {value}×
+          </option>
+        ))}
+      </select>
+      <select
+        value={mode}
+        onChange={(e) => onModeChange(e.target.value as PlaybackMode)}
+        className="h-7 px-1 rounded"
+        style={controlStyle}
+        title="What happens after the last frame"
+      >
+        <option value="loop">Loop</option>
+        <option value="pingPong">Ping-pong</option>
+        <option value="once">Play once</option>
+        <option value="file">As file ({describeLoopCount(loopCount)})</option>
+      </select>
+    </div>
+  );
+}
+
+export default PlaybackControls;
@@ -0,0 +1,141 @@
+import { useMemo, useState } from "react";
+import { colors } from "../theme";
+import { reduceMappedPalette, remappedPalette } from "../lib";
+import type { ColorCount, ColorMapping } from "../lib";
+
+interface ReducePalettePanelProps {
+  palette: ColorCount[];
+  // Current mappings; the palette is reduced as they show it
+  mappings: ColorMapping[];
+  // Receives mappings of the source colors to merge
+  onApply: (mappings: ColorMapping[], label: string) => void;
+}
+
+const DEFAULT_MAX_COLORS = 16;
+
+// Merge near-duplicate colors down to a target count; locked colors are kept
+function ReducePalettePanel({
+  palette,
+  mappings,
+  onApply,
+}: ReducePalettePanelProps) {
+  const [maxColors, setMaxColors] = useState(DEFAULT_MAX_COLORS);
+  // Colors that must survive the reduction, e.g. outlines or team colors
+  const [locked, setLocked] = useState<Set<string>>(new Set());
+
+  const shownPalette = useMemo(
+    () => remappedPalette(palette, mappings),
+    [palette, mappings]
+  );
+  const reduction = useMemo(
+    () => reduceMappedPalette(palette, mappings, maxColors, locked),
+    [palette, mappings, maxColors, locked]
+  );
+
+  const toggleLocked = (color: string) => {
+    const nextLocked = new Set(locked);
+    if (nextLocked.has(color)) {
+      nextLocked.delete(color);
+    } else {
+      nextLocked.add(color);
+    }
+    setLocked(nextLocked);
+  };
+
+  const lockedCount = shownPalette.filter((c) => locked.has(c.color)).length;
+
+  return (
+    <div
+      className="border p-3 mb-4 rounded"
+      style={{ borderColor: colors.border }}
+    >
+      <div className="text-sm font-medium mb-2">Reduce Palette</div>
+
+      <div className="flex items-center gap-2 text-xs mb-2">
+        <span>Colors</span>
+        <input
+          type="range"
+          min="1"
+          max={Math.max(1, shownPalette.length)}
+          value={Math.min(maxColors, shownPalette.length)}
+          onChange={(e) => setMaxColors(Number(e.target.value))}
+          className="flex-1 h-4"
+        />
+        <input
+          type="number"
+          min="1"
+          max="256"
+          value={maxColors}
+          onChange={(e) =>
+            setMaxColors(Math.max(1, Math.round(Number(e.target.value))))
+          }
+          className="px-1 rounded"
+          style={{
+            backgroundColor: colors.surface,
+            color: colors.text,
+            width: "3.5rem",
+          }}
+        />
+      </div>
+
+      <div className="text-xs mb-1">
+        {shownPalette.length} → {reduction.colorCount} colors
+        {lockedCount > 0 && (
+          <span className="opacity-70"> ({lockedCount} locked)</span>
+        )}
+      </div>
+
+      {/* Click a swatch to lock it so it isn't merged into another color */}
+      <div className="flex flex-wrap gap-1 mb-2 max-h-24 overflow-y-auto">
+        {shownPalette.map((color) => {
+          const isLocked = locked.has(color.color);
+          return (
+            <div
+              key={color.color}
+              className="border rounded cursor-pointer text-center"
+              title={`${color.color}${isLocked ? " (locked)" : ""}`}
+              onClick={() => toggleLocked(color.color)}
+              style={{
+                backgroundColor: color.color,
+                borderColor: isLocked ? colors.text : colors.border,
+                width: "16px",
+                height: "16px",
+                lineHeight: "14px",
+                fontSize: "10px",
+                outline: isLocked ? `1px solid ${colors.primary}` : undefined,
+              }}
+            >
+              {isLocked ? "•" : ""}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 text-xs">
+        <button
+          className="px-2 py-1 rounded"
+          style={{ backgroundColor: colors.surface, color: colors.text }}
+          onClick={() =>
+            onApply(
+              reduction.mappings,
+              `Reduce to ${reduction.colorCount} colors`
+            )
+          }
+          disabled={reduction.mappings.length === 0}
+        >
+          Reduce
+        </button>
+        <button
+          className="px-2 py-1 rounded"
+          style={{ backgroundColor: colors.surface, color: colors.text }}
+          onClick={() => setLocked(new Set())}
+          disabled={lockedCount === 0}
+        >
+          Unlock all
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ReducePalettePanel;
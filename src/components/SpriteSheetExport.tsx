@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { colors } from "../theme";
+import { buildSpriteSheet, createAsepriteJson } from "../lib";
+import type { GifFrame, SheetLayout } from "../lib";
+import { downloadFile } from "../download";
+import { encodePng } from "../imagePixels";
+
+interface SpriteSheetExportProps {
+  frameCount: number;
+  // Frames to export, only fetched when exporting
+  getFrames: () => Promise<GifFrame[]>;
+  screenWidth: number;
+  screenHeight: number;
+  // Base for exported file names
+  baseName: string;
+  onError: (message: string) => void;
+}
+
+// Export frames as a PNG sprite sheet plus Aseprite-compatible JSON
+function SpriteSheetExport({
+  frameCount,
+  getFrames,
+  screenWidth,
+  screenHeight,
+  baseName,
+  onError,
+}: SpriteSheetExportProps) {
+  const [layout, setLayout] = useState<SheetLayout>("horizontal");
+  const [padding, setPadding] = useState(0);
+  const [columns, setColumns] = useState(0);
+
+  const handleExport = async () => {
+    try {
+      const frames = await getFrames();
+      const sheet = buildSpriteSheet(frames, screenWidth, screenHeight, {
+        layout,
+        padding,
+        // 0 lets the grid pick a roughly square layout
+        columns: columns || undefined,
+      });
+      const imageName = `${baseName}-sheet.png`;
+
+      downloadFile(
+        await encodePng(sheet.data, sheet.width, sheet.height),
+        imageName,
+        "image/png"
+      );
+      downloadFile(
+        JSON.stringify(createAsepriteJson(sheet, frames, imageName), null, 2),
+        `${baseName}-sheet.json`,
+        "application/json"
+      );
+    } catch (err) {
+      onError(
+        err instanceof Error ? err.message : "Failed to export sprite sheet"
+      );
+      console.error(err);
+    }
+  };
+
+  const controlStyle = {
+    backgroundColor: colors.surface,
+    color: colors.text,
+    border: "1px solid " + colors.border,
+  };
+
+  return (
+    <div
+      className="border p-3 mb-4 rounded"
+      style={{ borderColor: colors.border }}
+    >
+      <div className="text-sm font-medium mb-2">Sprite Sheet</div>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <select
+          value={layout}
+          onChange={(e) => setLayout(e.target.value as SheetLayout)}
+          className="h-6 px-1 rounded"
+          style={controlStyle}
+        >
+          <option value="horizontal">Horizontal strip</option>
+          <option value="vertical">Vertical strip</option>
+          <option value="grid">Grid</option>
+        </select>
+        {layout === "grid" && (
+          <label className="flex items-center gap-1">
+            Columns
+            <input
+              type="number"
+              min="0"
+              value={columns}
+              onChange={(e) => setColumns(Number(e.target.value))}
+              className="px-1 rounded"
+              style={{ ...controlStyle, width: "3.5rem" }}
+              title="0 picks a roughly square grid"
+            />
+          </label>
+        )}
+        <label className="flex items-center gap-1">
+          Padding
+          <input
+            type="number"
+            min="0"
+            value={padding}
+            onChange={(e) => setPadding(Number(e.target.value))}
+            className="px-1 rounded"
+            style={{ ...controlStyle, width: "3.5rem" }}
+          />
+        </label>
+        <button
+          className="px-2 py-1 rounded ml-auto"
+          style={{ backgroundColor: colors.surface, color: colors.text }}
+          onClick={handleExport}
+          disabled={frameCount === 0}
+        >
+          Export PNG + JSON
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default SpriteSheetExport;
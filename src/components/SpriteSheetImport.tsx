@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { colors } from "../theme";
+import { gridSheetFrames, parseAsepriteJson, sliceSpriteSheet } from "../lib";
+import type { DecodedGif } from "../lib";
+import { readImagePixels } from "../imagePixels";
+
+interface SpriteSheetImportProps {
+  // Reduce sheets with more than 256 colors instead of rejecting them
+  quantize: boolean;
+  onImport: (decoded: DecodedGif, name: string) => void;
+  onError: (message: string) => void;
+}
+
+// Load a PNG sprite sheet as frames, cut by its Aseprite JSON or by a fixed
+// cell size
+function SpriteSheetImport({
+  quantize,
+  onImport,
+  onError,
+}: SpriteSheetImportProps) {
+  const [cellWidth, setCellWidth] = useState(32);
+  const [cellHeight, setCellHeight] = useState(32);
+  const [padding, setPadding] = useState(0);
+  const [delay, setDelay] = useState(100);
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) return;
+
+    const imageFile = files.find((file) => /\.png$/i.test(file.name));
+    const jsonFile = files.find((file) => /\.json$/i.test(file.name));
+
+    try {
+      if (!imageFile) throw new Error("Choose a PNG sprite sheet");
+
+      const image = await readImagePixels(imageFile);
+      let decoded: DecodedGif;
+
+      if (jsonFile) {
+        const sheet = parseAsepriteJson(await jsonFile.text());
+        decoded = sliceSpriteSheet(
+          image.data,
+          image.width,
+          image.height,
+          sheet.frames,
+          sheet.width,
+          sheet.height,
+          false,
+          { quantize }
+        );
+      } else {
+        const cells = gridSheetFrames(
+          image.width,
+          image.height,
+          cellWidth,
+          cellHeight,
+          padding,
+          delay
+        );
+        decoded = sliceSpriteSheet(
+          image.data,
+          image.width,
+          image.height,
+          cells,
+          cellWidth,
+          cellHeight,
+          true,
+          { quantize }
+        );
+      }
+
+      onImport(decoded, imageFile.name);
+    } catch (err) {
+      onError(
+        err instanceof Error ? err.message : "Failed to import sprite sheet"
+      );
+      console.error(err);
+    }
+  };
+
+  const inputStyle = {
+    backgroundColor: colors.surface,
+    color: colors.text,
+    width: "3.5rem",
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2 text-xs">
+      <label
+        className="px-2 py-1 rounded cursor-pointer"
+        style={{
+          backgroundColor: colors.surface,
+          color: colors.text,
+          border: "1px solid " + colors.border,
+        }}
+        title="Select the PNG, plus its Aseprite JSON if it has one"
+      >
+        Choose sheet (.png + .json)
+        <input
+          type="file"
+          accept=".png,.json,image/png,application/json"
+          multiple
+          onChange={handleFileChange}
+          style={{ display: "none" }}
+        />
+      </label>
+      <span className="opacity-70">Without JSON, cut into cells of</span>
+      <input
+        type="number"
+        min="1"
+        value={cellWidth}
+        onChange={(e) => setCellWidth(Number(e.target.value))}
+        className="px-1 rounded"
+        style={inputStyle}
+      />
+      <span>×</span>
+      <input
+        type="number"
+        min="1"
+        value={cellHeight}
+        onChange={(e) => setCellHeight(Number(e.target.value))}
+        className="px-1 rounded"
+        style={inputStyle}
+      />
+      <span>padding</span>
+      <input
+        type="number"
+        min="0"
+        value={padding}
+        onChange={(e) => setPadding(Number(e.target.value))}
+        className="px-1 rounded"
+        style={inputStyle}
+      />
+      <span>delay (ms)</span>
+      <input
+        type="number"
+        min="10"
+        step="10"
+        value={delay}
+        onChange={(e) => setDelay(Number(e.target.value))}
+        className="px-1 rounded"
+        style={inputStyle}
+      />
+    </div>
+  );
+}
+
+export default SpriteSheetImport;
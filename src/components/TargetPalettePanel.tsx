@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { colors } from "../theme";
+import { parsePaletteFile, rgbKey, rgbToHex } from "../lib";
+import type { PaletteFile } from "../lib";
+
+interface TargetPalettePanelProps {
+  // Whether a swatch is selected that a target color can be assigned to
+  canAssign: boolean;
+  onAssign: (hexColor: string) => void;
+}
+
+// Palette loaded from a .gpl/.pal/.txt/.hex/.ase file to pick new colors from
+function TargetPalettePanel({ canAssign, onAssign }: TargetPalettePanelProps) {
+  const [palette, setPalette] = useState<PaletteFile | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      setPalette(parsePaletteFile(file.name, await file.arrayBuffer()));
+      setFileName(file.name);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read palette");
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center gap-2 mb-3">
+        <h3 className="text-md font-medium">
+          Target Palette
+          {palette &&
+            ` (${palette.name || fileName}, ${palette.colors.length} colors)`}
+        </h3>
+        <label
+          className="text-xs px-2 py-1 rounded cursor-pointer"
+          style={{
+            backgroundColor: colors.surface,
+            color: colors.text,
+            border: "1px solid " + colors.border,
+          }}
+        >
+          Load Palette
+          <input
+            type="file"
+            accept=".gpl,.pal,.txt,.hex,.ase"
+            onChange={handleFileChange}
+            style={{ display: "none" }}
+          />
+        </label>
+        {error && <span className="text-red-500 text-xs">{error}</span>}
+      </div>
+
+      {palette && (
+        <div className="flex flex-wrap gap-2">
+          {palette.colors.map((entry, index) => {
+            const hex = rgbToHex(entry.rgb);
+            return (
+              <div
+                key={index}
+                className={canAssign ? "cursor-pointer" : ""}
+                title={
+                  canAssign
+                    ? `${entry.name || hex} — click to use for the selected color`
+                    : entry.name || hex
+                }
+                onClick={() => canAssign && onAssign(hex)}
+                style={{
+                  backgroundColor: rgbKey(entry.rgb),
+                  width: "24px",
+                  height: "24px",
+                  borderRadius: "4px",
+                  border: "1px solid " + colors.border,
+                  opacity: canAssign ? 1 : 0.6,
+                }}
+              ></div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TargetPalettePanel;
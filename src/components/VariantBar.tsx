@@ -0,0 +1,143 @@
+import { colors } from "../theme";
+import { createVariant } from "../lib";
+import type { PaletteVariant } from "../lib";
+
+interface VariantBarProps {
+  variants: PaletteVariant[];
+  activeVariantId: string;
+  showGrid: boolean;
+  onSelectVariant: (variantId: string) => void;
+  // Each change is recorded in the mapping history under the label
+  onVariantsChange: (variants: PaletteVariant[], label: string) => void;
+  onToggleGrid: () => void;
+  onExportAll: () => void;
+}
+
+// Switch between named mapping sets, add, copy, rename or delete them, and
+// show or export them all at once
+function VariantBar({
+  variants,
+  activeVariantId,
+  showGrid,
+  onSelectVariant,
+  onVariantsChange,
+  onToggleGrid,
+  onExportAll,
+}: VariantBarProps) {
+  const activeVariant =
+    variants.find((variant) => variant.id === activeVariantId) ?? variants[0];
+
+  const addVariant = (variant: PaletteVariant, label: string) => {
+    onVariantsChange([...variants, variant], label);
+    onSelectVariant(variant.id);
+  };
+
+  const handleDelete = () => {
+    const remaining = variants.filter(
+      (variant) => variant.id !== activeVariant.id
+    );
+    onVariantsChange(remaining, `Delete ${activeVariant.name}`);
+    onSelectVariant(remaining[0].id);
+  };
+
+  const commitName = (value: string) => {
+    const name = value.trim();
+    if (!name || name === activeVariant.name) return;
+    onVariantsChange(
+      variants.map((variant) =>
+        variant.id === activeVariant.id ? { ...variant, name } : variant
+      ),
+      `Rename ${activeVariant.name} to ${name}`
+    );
+  };
+
+  const buttonStyle = { backgroundColor: colors.surface, color: colors.text };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mb-2 text-xs">
+      <span className="text-sm font-medium mr-1">Variants</span>
+      {variants.map((variant) => (
+        <button
+          key={variant.id}
+          className="px-2 py-1 rounded"
+          style={{
+            ...buttonStyle,
+            outline:
+              variant.id === activeVariant.id
+                ? `1px solid ${colors.text}`
+                : undefined,
+          }}
+          onClick={() => onSelectVariant(variant.id)}
+          title={`${variant.mappings.length} mappings`}
+        >
+          {variant.name}
+        </button>
+      ))}
+      <input
+        // Remount when another variant is selected or renamed elsewhere
+        key={`${activeVariant.id}:${activeVariant.name}`}
+        type="text"
+        defaultValue={activeVariant.name}
+        onBlur={(e) => commitName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+        className="px-1 h-6 rounded ml-2"
+        style={{ ...buttonStyle, width: "8rem" }}
+        title="Rename the selected variant"
+      />
+      <button
+        className="px-2 py-1 rounded"
+        style={buttonStyle}
+        onClick={() => addVariant(createVariant(variants), "Add variant")}
+      >
+        New
+      </button>
+      <button
+        className="px-2 py-1 rounded"
+        style={buttonStyle}
+        onClick={() =>
+          addVariant(
+            createVariant(
+              variants,
+              activeVariant.mappings,
+              `${activeVariant.name} copy`
+            ),
+            `Duplicate ${activeVariant.name}`
+          )
+        }
+      >
+        Duplicate
+      </button>
+      <button
+        className="px-2 py-1 rounded"
+        style={buttonStyle}
+        // At least one variant has to stay
+        disabled={variants.length < 2}
+        onClick={handleDelete}
+      >
+        Delete
+      </button>
+      <button
+        className="px-2 py-1 rounded ml-auto"
+        style={{
+          ...buttonStyle,
+          backgroundColor: showGrid ? colors.primary : colors.surface,
+        }}
+        onClick={onToggleGrid}
+      >
+        Grid view
+      </button>
+      <button
+        className="px-2 py-1 rounded"
+        style={buttonStyle}
+        onClick={onExportAll}
+        title="Download a zip with a GIF for every variant"
+      >
+        Export all
+      </button>
+    </div>
+  );
+}
+
+export default VariantBar;
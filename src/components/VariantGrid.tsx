@@ -0,0 +1,86 @@
+import { useEffect, useMemo, useRef } from "react";
+import { colors } from "../theme";
+import { createFrameCompositor } from "../lib";
+import type { GifFrame, PaletteVariant } from "../lib";
+
+interface VariantGridProps {
+  variants: PaletteVariant[];
+  // Remapped frames of each variant, in the same order
+  variantFrames: GifFrame[][];
+  width: number;
+  height: number;
+  zoom: number;
+  currentFrameIndex: number;
+  activeVariantId: string;
+  onSelectVariant: (variantId: string) => void;
+}
+
+// Every variant side by side. All of them show the current frame, so they
+// animate in sync with the main preview.
+function VariantGrid({
+  variants,
+  variantFrames,
+  width,
+  height,
+  zoom,
+  currentFrameIndex,
+  activeVariantId,
+  onSelectVariant,
+}: VariantGridProps) {
+  const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+
+  const compositors = useMemo(
+    () =>
+      variantFrames.map((frames) =>
+        createFrameCompositor(frames, width, height)
+      ),
+    [variantFrames, width, height]
+  );
+
+  useEffect(() => {
+    compositors.forEach((compositor, index) => {
+      const canvas = canvasRefs.current[index];
+      if (!canvas || currentFrameIndex >= variantFrames[index].length) return;
+
+      const ctx = canvas.getContext("2d")!;
+      const imageData = ctx.createImageData(width, height);
+      imageData.data.set(compositor.render(currentFrameIndex));
+      ctx.putImageData(imageData, 0, 0);
+    });
+  }, [compositors, variantFrames, currentFrameIndex, width, height]);
+
+  return (
+    <div className="flex flex-wrap gap-4 mb-4">
+      {variants.map((variant, index) => (
+        <div
+          key={variant.id}
+          className="flex flex-col items-center gap-1 p-1 rounded cursor-pointer text-xs"
+          style={{
+            outline:
+              variant.id === activeVariantId
+                ? `1px solid ${colors.text}`
+                : "none",
+          }}
+          onClick={() => onSelectVariant(variant.id)}
+        >
+          <canvas
+            ref={(canvas) => {
+              canvasRefs.current[index] = canvas;
+            }}
+            width={width}
+            height={height}
+            style={{
+              width: `${width * zoom}px`,
+              maxWidth: "100%",
+              imageRendering: "pixelated",
+              border: "1px solid " + colors.border,
+            }}
+          ></canvas>
+          <span>{variant.name}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default VariantGrid;
@@ -0,0 +1,19 @@
+// Save generated data as a file through a temporary object URL
+export const downloadFile = (
+  data: BlobPart,
+  fileName: string,
+  mimeType: string
+) => {
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,225 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  ColorCount,
+  ColorMapping,
+  DecodedGif,
+  GifFrame,
+  RegionMask,
+} from "../lib";
+import type { WorkerRequest, WorkerResponse } from "../workers/messages";
+
+export interface WorkerProgress {
+  task: "decode" | "remap";
+  done: number;
+  total: number;
+}
+
+interface PendingRequest {
+  task: WorkerProgress["task"] | "load" | "variant";
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+}
+
+// Loads and variant remaps run alongside the main work without a progress bar
+const showsProgress = (
+  task: PendingRequest["task"]
+): task is WorkerProgress["task"] => task === "decode" || task === "remap";
+
+// Runs GIF decoding, palette extraction and remapping in a Web Worker so the
+// page stays responsive. Only the newest remap resolves with frames; remaps it
+// supersedes resolve with null.
+export const useFrameWorker = () => {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, PendingRequest>());
+  const nextIdRef = useRef(0);
+  const latestRemapRef = useRef(0);
+  // Frames the worker currently holds, to skip sending them again
+  const loadedFramesRef = useRef<GifFrame[] | null>(null);
+  // Remapped frames as of the last result applied, and that result's id.
+  // The worker only sends frames that changed since this baseline.
+  const remappedRef = useRef<GifFrame[]>([]);
+  const baselineRef = useRef(0);
+  const [progress, setProgress] = useState<WorkerProgress | null>(null);
+
+  const handleMessage = useCallback((event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+    const pending = pendingRef.current.get(response.id);
+    if (!pending) return;
+
+    if (response.type === "progress") {
+      if (showsProgress(pending.task)) {
+        setProgress({
+          task: pending.task,
+          done: response.done,
+          total: response.total,
+        });
+      }
+      return;
+    }
+
+    pendingRef.current.delete(response.id);
+    const busy = Array.from(pendingRef.current.values()).some((request) =>
+      showsProgress(request.task)
+    );
+    if (!busy) setProgress(null);
+
+    if (response.type === "error") {
+      pending.reject(new Error(response.message));
+    } else {
+      pending.resolve(response);
+    }
+  }, []);
+
+  const getWorker = useCallback(() => {
+    if (!workerRef.current) {
+      workerRef.current = new Worker(
+        new URL("../workers/frameWorker.ts", import.meta.url),
+        { type: "module" }
+      );
+      workerRef.current.onmessage = handleMessage;
+    }
+    return workerRef.current;
+  }, [handleMessage]);
+
+  useEffect(() => {
+    const pending = pendingRef.current;
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      loadedFramesRef.current = null;
+      remappedRef.current = [];
+      baselineRef.current = 0;
+      pending.forEach((request) =>
+        request.reject(new Error("Worker was stopped"))
+      );
+      pending.clear();
+    };
+  }, []);
+
+  const send = useCallback(
+    (
+      request: WorkerRequest,
+      task: PendingRequest["task"],
+      transfer: Transferable[] = []
+    ) =>
+      new Promise<WorkerResponse>((resolve, reject) => {
+        const worker = getWorker();
+        pendingRef.current.set(request.id, { task, resolve, reject });
+        worker.postMessage(request, transfer);
+      }),
+    [getWorker]
+  );
+
+  // Decode a GIF file in the worker, which keeps the frames for remapping
+  const decode = useCallback(
+    async (
+      buffer: ArrayBuffer
+    ): Promise<{ decoded: DecodedGif; palette: ColorCount[] }> => {
+      const id = ++nextIdRef.current;
+      const response = await send({ type: "decode", id, buffer }, "decode", [
+        buffer,
+      ]);
+      if (response.type !== "decoded") throw new Error("Unexpected response");
+
+      loadedFramesRef.current = response.decoded.frames;
+      remappedRef.current = response.decoded.frames;
+      baselineRef.current = id;
+      return { decoded: response.decoded, palette: response.palette };
+    },
+    [send]
+  );
+
+  // Hand the worker frames decoded on the page and get their palette
+  const load = useCallback(
+    async (frames: GifFrame[]): Promise<ColorCount[]> => {
+      const id = ++nextIdRef.current;
+      loadedFramesRef.current = frames;
+      remappedRef.current = frames;
+      baselineRef.current = id;
+      const response = await send(
+        { type: "load", id, frames, palette: true },
+        "load"
+      );
+      return response.type === "loaded" ? response.palette ?? [] : [];
+    },
+    [send]
+  );
+
+  // Send frames to the worker unless it already holds them
+  const ensureLoaded = useCallback(
+    (frames: GifFrame[]) => {
+      if (loadedFramesRef.current === frames) return;
+
+      const loadId = ++nextIdRef.current;
+      loadedFramesRef.current = frames;
+      remappedRef.current = frames;
+      baselineRef.current = loadId;
+      // A failed load also fails the remap queued behind it
+      send({ type: "load", id: loadId, frames, palette: false }, "load").catch(
+        () => undefined
+      );
+    },
+    [send]
+  );
+
+  // Recolor frames, sending them first if the worker doesn't hold them yet.
+  // Resolves with null when a newer remap has replaced this one.
+  const remap = useCallback(
+    async (
+      frames: GifFrame[],
+      mappings: ColorMapping[],
+      masks: RegionMask[]
+    ): Promise<GifFrame[] | null> => {
+      ensureLoaded(frames);
+
+      const id = ++nextIdRef.current;
+      latestRemapRef.current = id;
+      const response = await send(
+        { type: "remap", id, baseline: baselineRef.current, mappings, masks },
+        "remap"
+      );
+      if (response.type !== "remapped") return null;
+
+      // Apply every finished result, even a superseded one, so the page
+      // stays in step with the worker's baseline. Results for frames that
+      // have since been replaced are dropped.
+      if (loadedFramesRef.current === frames) {
+        remappedRef.current = remappedRef.current.map(
+          (frame, index) => response.frames[index] ?? frame
+        );
+        baselineRef.current = id;
+      }
+
+      return id === latestRemapRef.current && loadedFramesRef.current === frames
+        ? remappedRef.current
+        : null;
+    },
+    [send, ensureLoaded]
+  );
+
+  // Recolor frames with mappings other than the ones being edited, such as
+  // another palette variant. Every frame comes back, and the remaps above
+  // carry on undisturbed.
+  const remapVariant = useCallback(
+    async (
+      frames: GifFrame[],
+      mappings: ColorMapping[],
+      masks: RegionMask[]
+    ): Promise<GifFrame[]> => {
+      ensureLoaded(frames);
+
+      const id = ++nextIdRef.current;
+      const response = await send(
+        { type: "remapVariant", id, mappings, masks },
+        "variant"
+      );
+      if (response.type !== "variantRemapped") {
+        throw new Error("Unexpected response");
+      }
+      return response.frames;
+    },
+    [send, ensureLoaded]
+  );
+
+  return { decode, load, remap, remapVariant, progress };
+};
@@ -0,0 +1,103 @@
+import { useCallback, useRef, useState } from "react";
+
+export interface HistoryEntry<T> {
+  state: T;
+  label: string;
+}
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+// Edits sharing a coalesce key within this window merge into one entry, so a
+// color picker drag that fires on every tick becomes a single undo step
+const COALESCE_WINDOW_MS = 1000;
+
+// Oldest entries are dropped beyond this
+const MAX_ENTRIES = 100;
+
+// Undo/redo stack over a piece of immutable state
+export const useHistory = <T>(initialState: T, initialLabel = "Start") => {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    entries: [{ state: initialState, label: initialLabel }],
+    index: 0,
+  });
+  const lastEdit = useRef<{ key: string; time: number } | null>(null);
+
+  // Record a new state, replacing the current entry when coalescing
+  const push = useCallback(
+    (state: T, label: string, coalesceKey?: string) => {
+      const now = Date.now();
+      const previous = lastEdit.current;
+      const coalesce =
+        coalesceKey !== undefined &&
+        previous?.key === coalesceKey &&
+        now - previous.time < COALESCE_WINDOW_MS;
+
+      lastEdit.current =
+        coalesceKey !== undefined ? { key: coalesceKey, time: now } : null;
+
+      setHistory(({ entries, index }) => {
+        // A new edit discards any redo entries
+        const kept = entries.slice(0, index + 1);
+
+        if (coalesce) {
+          kept[index] = { state, label };
+          return { entries: kept, index };
+        }
+
+        const next = [...kept, { state, label }].slice(-MAX_ENTRIES);
+        return { entries: next, index: next.length - 1 };
+      });
+    },
+    []
+  );
+
+  const jumpTo = useCallback((target: number) => {
+    lastEdit.current = null;
+    setHistory((current) =>
+      target >= 0 && target < current.entries.length
+        ? { ...current, index: target }
+        : current
+    );
+  }, []);
+
+  const undo = useCallback(() => {
+    lastEdit.current = null;
+    setHistory((current) =>
+      current.index > 0 ? { ...current, index: current.index - 1 } : current
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    lastEdit.current = null;
+    setHistory((current) =>
+      current.index < current.entries.length - 1
+        ? { ...current, index: current.index + 1 }
+        : current
+    );
+  }, []);
+
+  // Start a fresh history, e.g. when a new file is loaded
+  const reset = useCallback(
+    (state: T, label = initialLabel) => {
+      lastEdit.current = null;
+      setHistory({ entries: [{ state, label }], index: 0 });
+    },
+    [initialLabel]
+  );
+
+  return {
+    state: history.entries[history.index].state,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    push,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+  };
+};
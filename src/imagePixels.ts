@@ -0,0 +1,90 @@
+import {
+  composeAnimation,
+  indexRgbaFrames,
+  isPng,
+  isWebp,
+  parseApng,
+  parseWebp,
+  toGifLoopCount,
+} from "./lib";
+import type { DecodedGif, EncodedAnimation, IndexOptions } from "./lib";
+
+// Encode RGBA pixels as a PNG file using the browser
+export const encodePng = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): Promise<Blob> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext("2d")!;
+  const imageData = ctx.createImageData(width, height);
+  imageData.data.set(data);
+  ctx.putImageData(imageData, 0, 0);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode PNG")),
+      "image/png"
+    )
+  );
+};
+
+// Decode an image file (PNG, JPEG, WebP, ...) to RGBA pixels using the browser
+export const readImagePixels = async (file: Blob): Promise<ImageData> => {
+  const bitmap = await createImageBitmap(file);
+
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+
+    const ctx = canvas.getContext("2d")!;
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Decode a PNG, APNG or WebP (still or animated) into indexed frames. Each
+// frame is decoded by the browser and composited, then indexed like a GIF.
+export const decodeImageFile = async (
+  file: Blob,
+  options: IndexOptions = {}
+): Promise<DecodedGif> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let animation: EncodedAnimation;
+  if (isPng(bytes)) {
+    animation = parseApng(bytes);
+  } else if (isWebp(bytes)) {
+    animation = parseWebp(bytes);
+  } else {
+    throw new Error("Unsupported image format");
+  }
+
+  const framePixels = [];
+  for (const frame of animation.frames) {
+    const image = await readImagePixels(
+      new Blob([frame.data], { type: frame.mimeType })
+    );
+    framePixels.push(image.data);
+  }
+
+  const decoded = indexRgbaFrames(
+    composeAnimation(animation, framePixels),
+    animation.width,
+    animation.height,
+    options
+  );
+  return {
+    ...decoded,
+    info: {
+      ...decoded.info,
+      loopCount: toGifLoopCount(animation.loopCount),
+    },
+  };
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  NO_ADJUSTMENT,
+  adjustColor,
+  applyHslAdjustment,
+  previewHslAdjustment,
+} from "./adjust";
+import { rgbKey, rgbToHex } from "./color";
+import type { ColorCount, ColorMapping } from "./types";
+
+type Rgb = [number, number, number];
+
+const RED: Rgb = [255, 0, 0];
+const GREEN: Rgb = [0, 255, 0];
+const BLUE: Rgb = [0, 0, 255];
+
+const swatch = (rgb: Rgb): ColorCount => ({
+  color: rgbKey(rgb),
+  count: 1,
+  rgb,
+});
+
+const mapping = (
+  from: Rgb,
+  to: Rgb,
+  extra: Partial<ColorMapping> = {}
+): ColorMapping => ({
+  originalColor: rgbKey(from),
+  originalRgb: from,
+  newColor: rgbToHex(to),
+  newRgb: to,
+  ...extra,
+});
+
+const hueShift = (degrees: number) => ({
+  ...NO_ADJUSTMENT,
+  hueShift: degrees,
+});
+
+describe("adjustColor", () => {
+  it("wraps the hue around the color wheel", () => {
+    expect(adjustColor(RED, hueShift(-120))).toEqual(BLUE);
+    expect(adjustColor(BLUE, hueShift(180))).toEqual([255, 255, 0]);
+  });
+
+  it("clamps saturation and lightness", () => {
+    const muted: Rgb = [191, 64, 64];
+
+    expect(
+      adjustColor(muted, { ...NO_ADJUSTMENT, saturationScale: 3 })
+    ).toEqual(RED);
+    expect(
+      adjustColor(muted, { ...NO_ADJUSTMENT, lightnessShift: 100 })
+    ).toEqual([255, 255, 255]);
+    expect(
+      adjustColor(muted, { ...NO_ADJUSTMENT, lightnessShift: -100 })
+    ).toEqual([0, 0, 0]);
+  });
+});
+
+describe("applyHslAdjustment", () => {
+  const palette = [swatch(RED), swatch(GREEN), swatch(BLUE)];
+
+  it("maps only the included colors", () => {
+    const mappings = applyHslAdjustment(
+      palette,
+      [],
+      hueShift(120),
+      new Set([rgbKey(RED)])
+    );
+
+    expect(mappings).toEqual([mapping(RED, GREEN)]);
+  });
+
+  it("adjusts existing mappings from their new color", () => {
+    const existing = mapping(RED, GREEN, { tolerance: 10 });
+    const mappings = applyHslAdjustment(
+      palette,
+      [existing],
+      hueShift(120),
+      new Set([rgbKey(RED)])
+    );
+
+    expect(mappings).toEqual([mapping(RED, BLUE, { tolerance: 10 })]);
+  });
+
+  it("keeps scoped mappings and gives the color a global one too", () => {
+    const frames = { type: "set" as const, frames: [1] };
+    const untouched = mapping(GREEN, RED);
+    const mappings = applyHslAdjustment(
+      palette,
+      [mapping(BLUE, GREEN, { frames }), untouched],
+      hueShift(120),
+      new Set([rgbKey(BLUE)])
+    );
+
+    expect(mappings).toEqual([
+      mapping(BLUE, BLUE, { frames }),
+      untouched,
+      mapping(BLUE, RED),
+    ]);
+    expect(mappings[1]).toBe(untouched);
+  });
+});
+
+describe("previewHslAdjustment", () => {
+  it("adjusts every palette color that isn't excluded", () => {
+    const mappings = previewHslAdjustment(
+      [swatch(RED), swatch(GREEN)],
+      [],
+      { adjustment: hueShift(120), excluded: new Set([rgbKey(GREEN)]) }
+    );
+
+    expect(mappings).toEqual([mapping(RED, GREEN)]);
+  });
+});
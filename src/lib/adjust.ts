@@ -0,0 +1,104 @@
+import { hslToRgb, rgbToHex, rgbToHsl } from "./color";
+import type { ColorCount, ColorMapping } from "./types";
+
+export interface HslAdjustment {
+  // Degrees to rotate hue by (-180..180)
+  hueShift: number;
+  // Saturation multiplier (1 = unchanged)
+  saturationScale: number;
+  // Lightness offset in percentage points (-100..100)
+  lightnessShift: number;
+}
+
+// An adjustment being tried out, and the palette colors left out of it
+export interface HslPreview {
+  adjustment: HslAdjustment;
+  excluded: Set<string>;
+}
+
+export const NO_ADJUSTMENT: HslAdjustment = {
+  hueShift: 0,
+  saturationScale: 1,
+  lightnessShift: 0,
+};
+
+export const adjustColor = (
+  rgb: ArrayLike<number>,
+  adjustment: HslAdjustment
+): [number, number, number] => {
+  const [hue, saturation, lightness] = rgbToHsl(rgb);
+  return hslToRgb([
+    hue + adjustment.hueShift,
+    saturation * adjustment.saturationScale,
+    lightness + adjustment.lightnessShift / 100,
+  ]);
+};
+
+// Apply an adjustment to the chosen palette colors by writing it into the
+// mappings, so every adjusted color stays individually editable afterwards.
+// Colors that are already mapped are adjusted from their current new color,
+// frame-scoped mappings included.
+export const applyHslAdjustment = (
+  palette: ColorCount[],
+  mappings: ColorMapping[],
+  adjustment: HslAdjustment,
+  includedColors: Set<string>
+): ColorMapping[] => {
+  const adjustMapping = (
+    color: ColorCount,
+    existing?: ColorMapping
+  ): ColorMapping => {
+    const newRgb = adjustColor(
+      existing ? existing.newRgb : color.rgb,
+      adjustment
+    );
+    return {
+      ...existing,
+      originalColor: color.color,
+      originalRgb: color.rgb,
+      newColor: rgbToHex(newRgb),
+      newRgb,
+    };
+  };
+
+  const paletteByColor = new Map(palette.map((color) => [color.color, color]));
+  const updated = mappings.map((mapping) => {
+    const color = paletteByColor.get(mapping.originalColor);
+    return color && includedColors.has(color.color)
+      ? adjustMapping(color, mapping)
+      : mapping;
+  });
+
+  // Colors without a global mapping get one
+  const globallyMapped = new Set(
+    mappings
+      .filter((mapping) => !mapping.frames && !mapping.maskId)
+      .map((mapping) => mapping.originalColor)
+  );
+  palette.forEach((color) => {
+    if (includedColors.has(color.color) && !globallyMapped.has(color.color)) {
+      updated.push(adjustMapping(color));
+    }
+  });
+
+  return updated;
+};
+
+// Mappings with an adjustment applied to every palette color it doesn't
+// leave out. The preview is applied to whatever the mappings are now, so it
+// follows undo and edits made while it is shown.
+export const previewHslAdjustment = (
+  palette: ColorCount[],
+  mappings: ColorMapping[],
+  { adjustment, excluded }: HslPreview
+): ColorMapping[] =>
+  applyHslAdjustment(
+    palette,
+    mappings,
+    adjustment,
+    new Set(
+      palette
+        .map((color) => color.color)
+        .filter((color) => !excluded.has(color))
+    )
+  );
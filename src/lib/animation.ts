@@ -0,0 +1,101 @@
+import type { RgbaFrame } from "./indexedFrames";
+
+// What happens to a frame's rect before the next frame is drawn
+export type FrameDispose = "none" | "background" | "previous";
+
+// How a frame's pixels combine with what is already on the screen
+export type FrameBlend = "source" | "over";
+
+// One frame of an APNG or animated WebP, still compressed. data is a
+// standalone still image the browser can decode on its own.
+export interface EncodedFrame {
+  data: Uint8Array;
+  mimeType: string;
+  width: number;
+  height: number;
+  left: number;
+  top: number;
+  delay: number;
+  dispose: FrameDispose;
+  blend: FrameBlend;
+}
+
+export interface EncodedAnimation {
+  width: number;
+  height: number;
+  // Number of plays, 0 = forever, as stored in APNG and WebP files
+  loopCount: number;
+  frames: EncodedFrame[];
+}
+
+// Convert a number of plays to a GIF loop count, which counts repeats after
+// the first play and is left out for animations that play once
+export const toGifLoopCount = (plays: number): number | undefined =>
+  plays === 1 ? undefined : Math.max(0, plays - 1);
+
+// Play decoded frame pixels onto the screen and capture the full screen after
+// each frame, so container-specific blending and disposal are resolved before
+// the frames are indexed
+export const composeAnimation = (
+  animation: EncodedAnimation,
+  framePixels: ArrayLike<number>[]
+): RgbaFrame[] => {
+  const { width, height } = animation;
+  let screen = new Uint8ClampedArray(width * height * 4);
+
+  return animation.frames.map((frame, index) => {
+    const pixels = framePixels[index];
+    const saved = frame.dispose === "previous" ? screen.slice() : null;
+
+    for (let y = 0; y < frame.height; y++) {
+      const screenY = frame.top + y;
+      if (screenY < 0 || screenY >= height) continue;
+
+      for (let x = 0; x < frame.width; x++) {
+        const screenX = frame.left + x;
+        if (screenX < 0 || screenX >= width) continue;
+
+        const src = (y * frame.width + x) * 4;
+        const dst = (screenY * width + screenX) * 4;
+        const alpha = pixels[src + 3] / 255;
+
+        if (frame.blend === "source" || alpha === 1) {
+          for (let c = 0; c < 4; c++) screen[dst + c] = pixels[src + c];
+          continue;
+        }
+        if (alpha === 0) continue;
+
+        // Straight-alpha "over" compositing
+        const below = (screen[dst + 3] / 255) * (1 - alpha);
+        const outAlpha = alpha + below;
+        for (let c = 0; c < 3; c++) {
+          screen[dst + c] =
+            (pixels[src + c] * alpha + screen[dst + c] * below) / outAlpha;
+        }
+        screen[dst + 3] = outAlpha * 255;
+      }
+    }
+
+    const captured: RgbaFrame = {
+      data: screen.slice(),
+      width,
+      height,
+      left: 0,
+      top: 0,
+      delay: frame.delay,
+    };
+
+    if (saved) {
+      screen = saved;
+    } else if (frame.dispose === "background") {
+      const left = Math.max(0, frame.left);
+      const right = Math.min(width, frame.left + frame.width);
+      const bottom = Math.min(height, frame.top + frame.height);
+      for (let y = Math.max(0, frame.top); y < bottom && left < right; y++) {
+        screen.fill(0, (y * width + left) * 4, (y * width + right) * 4);
+      }
+    }
+
+    return captured;
+  });
+};
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import { parseApng } from "./apng";
+import { crc32 } from "./crc32";
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const uint32 = (value: number) => [
+  value >>> 24,
+  (value >>> 16) & 0xff,
+  (value >>> 8) & 0xff,
+  value & 0xff,
+];
+
+const uint16 = (value: number) => [value >>> 8, value & 0xff];
+
+const chunk = (type: string, data: number[]) => {
+  const body = [...type].map((c) => c.charCodeAt(0)).concat(data);
+  return [
+    ...uint32(data.length),
+    ...body,
+    ...uint32(crc32(new Uint8Array(body))),
+  ];
+};
+
+const png = (...chunks: number[][]) =>
+  new Uint8Array([...SIGNATURE, ...chunks.flat()]);
+
+// 8-bit indexed image header
+const ihdr = (width: number, height: number) =>
+  chunk("IHDR", [...uint32(width), ...uint32(height), 8, 3, 0, 0, 0]);
+
+const fcTL = (
+  sequence: number,
+  [width, height, left, top]: number[],
+  [delayNum, delayDen]: number[],
+  dispose: number,
+  blend: number
+) =>
+  chunk("fcTL", [
+    ...uint32(sequence),
+    ...uint32(width),
+    ...uint32(height),
+    ...uint32(left),
+    ...uint32(top),
+    ...uint16(delayNum),
+    ...uint16(delayDen),
+    dispose,
+    blend,
+  ]);
+
+const PLTE = chunk("PLTE", [255, 0, 0, 0, 0, 255]);
+const IEND = chunk("IEND", []);
+
+// Chunks of a PNG as type and payload, checking every CRC
+const readChunks = (bytes: Uint8Array) => {
+  expect([...bytes.subarray(0, 8)]).toEqual(SIGNATURE);
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const chunks: { type: string; data: number[] }[] = [];
+
+  for (let offset = 8; offset < bytes.length; ) {
+    const length = view.getUint32(offset);
+    const body = bytes.subarray(offset + 4, offset + 8 + length);
+    expect(view.getUint32(offset + 8 + length)).toBe(crc32(body));
+    chunks.push({
+      type: String.fromCharCode(...body.subarray(0, 4)),
+      data: [...body.subarray(4)],
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+describe("parseApng", () => {
+  it("returns a plain PNG as one frame of itself", () => {
+    const bytes = png(ihdr(3, 2), PLTE, chunk("IDAT", [1, 2]), IEND);
+    const { width, height, frames } = parseApng(bytes);
+
+    expect([width, height]).toEqual([3, 2]);
+    expect(frames).toHaveLength(1);
+    expect(frames[0].data).toBe(bytes);
+  });
+
+  it("splits fcTL frames into standalone PNGs", () => {
+    const { loopCount, frames } = parseApng(
+      png(
+        ihdr(4, 2),
+        chunk("acTL", [...uint32(2), ...uint32(3)]),
+        PLTE,
+        fcTL(0, [4, 2, 0, 0], [1, 10], 0, 0),
+        chunk("IDAT", [1, 2, 3]),
+        fcTL(1, [2, 1, 1, 1], [50, 0], 1, 1),
+        chunk("fdAT", [...uint32(2), 4, 5, 6]),
+        chunk("fdAT", [...uint32(3), 7]),
+        IEND
+      )
+    );
+
+    expect(loopCount).toBe(3);
+    expect(frames).toHaveLength(2);
+    expect(readChunks(frames[0].data)).toEqual([
+      { type: "IHDR", data: [...uint32(4), ...uint32(2), 8, 3, 0, 0, 0] },
+      { type: "PLTE", data: [255, 0, 0, 0, 0, 255] },
+      { type: "IDAT", data: [1, 2, 3] },
+      { type: "IEND", data: [] },
+    ]);
+    // fdAT payloads lose their sequence numbers
+    expect(readChunks(frames[1].data)).toEqual([
+      { type: "IHDR", data: [...uint32(2), ...uint32(1), 8, 3, 0, 0, 0] },
+      { type: "PLTE", data: [255, 0, 0, 0, 0, 255] },
+      { type: "IDAT", data: [4, 5, 6] },
+      { type: "IDAT", data: [7] },
+      { type: "IEND", data: [] },
+    ]);
+    expect(frames[1]).toMatchObject({
+      width: 2,
+      height: 1,
+      left: 1,
+      top: 1,
+      // A zero denominator means hundredths of a second
+      delay: 500,
+    });
+  });
+
+  it("maps dispose and blend ops", () => {
+    const { frames } = parseApng(
+      png(
+        ihdr(1, 1),
+        chunk("acTL", [...uint32(3), ...uint32(0)]),
+        fcTL(0, [1, 1, 0, 0], [1, 10], 2, 0),
+        chunk("IDAT", [1]),
+        fcTL(1, [1, 1, 0, 0], [1, 10], 1, 1),
+        chunk("fdAT", [...uint32(2), 2]),
+        fcTL(3, [1, 1, 0, 0], [1, 10], 2, 0),
+        chunk("fdAT", [...uint32(4), 3]),
+        IEND
+      )
+    );
+
+    // The first frame has no previous screen to restore, so it clears
+    expect(frames.map(({ dispose, blend }) => [dispose, blend])).toEqual([
+      ["background", "source"],
+      ["background", "over"],
+      ["previous", "source"],
+    ]);
+  });
+
+  it("skips a default image that isn't part of the animation", () => {
+    const { frames } = parseApng(
+      png(
+        ihdr(1, 1),
+        chunk("acTL", [...uint32(1), ...uint32(0)]),
+        chunk("IDAT", [9]),
+        fcTL(0, [1, 1, 0, 0], [1, 10], 0, 0),
+        chunk("fdAT", [...uint32(1), 1]),
+        IEND
+      )
+    );
+
+    expect(frames).toHaveLength(1);
+    expect(readChunks(frames[0].data)[1]).toEqual({
+      type: "IDAT",
+      data: [1],
+    });
+  });
+
+  it("rejects truncated files", () => {
+    const bytes = png(ihdr(1, 1), chunk("IDAT", [1, 2, 3]), IEND);
+
+    expect(() => parseApng(bytes.subarray(0, 42))).toThrow(
+      "PNG file is truncated"
+    );
+  });
+});
@@ -0,0 +1,179 @@
+import type { EncodedAnimation, EncodedFrame, FrameDispose } from "./animation";
+import { crc32 } from "./crc32";
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Chunks that describe the animation rather than the image
+const ANIMATION_CHUNKS = new Set(["acTL", "fcTL", "fdAT"]);
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  ((bytes[offset] << 24) |
+    (bytes[offset + 1] << 16) |
+    (bytes[offset + 2] << 8) |
+    bytes[offset + 3]) >>>
+  0;
+
+const readUint16 = (bytes: Uint8Array, offset: number): number =>
+  (bytes[offset] << 8) | bytes[offset + 1];
+
+const writeUint32 = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = value >>> 24;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+};
+
+export const isPng = (bytes: Uint8Array): boolean =>
+  PNG_SIGNATURE.every((value, i) => bytes[i] === value);
+
+const readChunks = (bytes: Uint8Array): PngChunk[] => {
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 8 + length;
+    if (end + 4 > bytes.length) throw new Error("PNG file is truncated");
+
+    chunks.push({ type, data: bytes.subarray(offset + 8, end) });
+    offset = end + 4;
+    if (type === "IEND") break;
+  }
+  return chunks;
+};
+
+// Serialize chunks into a PNG file, computing each chunk's CRC
+const writePng = (chunks: PngChunk[]): Uint8Array => {
+  const size = chunks.reduce((sum, chunk) => sum + 12 + chunk.data.length, 8);
+  const bytes = new Uint8Array(size);
+  bytes.set(PNG_SIGNATURE);
+
+  let offset = PNG_SIGNATURE.length;
+  chunks.forEach(({ type, data }) => {
+    writeUint32(bytes, offset, data.length);
+    for (let i = 0; i < 4; i++) bytes[offset + 4 + i] = type.charCodeAt(i);
+    bytes.set(data, offset + 8);
+    writeUint32(
+      bytes,
+      offset + 8 + data.length,
+      crc32(bytes.subarray(offset + 4, offset + 8 + data.length))
+    );
+    offset += 12 + data.length;
+  });
+  return bytes;
+};
+
+const DISPOSE_OPS: FrameDispose[] = ["none", "background", "previous"];
+
+// Split a PNG into its frames. A PNG without an acTL chunk is a single frame.
+// Each APNG frame becomes a standalone PNG that shares the file's palette and
+// other ancillary chunks.
+export const parseApng = (bytes: Uint8Array): EncodedAnimation => {
+  if (!isPng(bytes)) throw new Error("Not a PNG file");
+
+  const chunks = readChunks(bytes);
+  const header = chunks.find((chunk) => chunk.type === "IHDR");
+  if (!header || header.data.length < 13) {
+    throw new Error("PNG file has no image header");
+  }
+
+  const width = readUint32(header.data, 0);
+  const height = readUint32(header.data, 4);
+  const control = chunks.find((chunk) => chunk.type === "acTL");
+
+  if (!control) {
+    return {
+      width,
+      height,
+      loopCount: 0,
+      frames: [
+        {
+          data: bytes,
+          mimeType: "image/png",
+          width,
+          height,
+          left: 0,
+          top: 0,
+          delay: 0,
+          dispose: "none",
+          blend: "source",
+        },
+      ],
+    };
+  }
+
+  // Ancillary chunks before the image data apply to every frame
+  const firstData = chunks.findIndex((chunk) => chunk.type === "IDAT");
+  const shared = chunks
+    .slice(0, firstData)
+    .filter(
+      (chunk) => chunk.type !== "IHDR" && !ANIMATION_CHUNKS.has(chunk.type)
+    );
+
+  const frames: EncodedFrame[] = [];
+  let current: { control: Uint8Array; data: Uint8Array[] } | null = null;
+
+  const finishFrame = () => {
+    if (!current || current.data.length === 0) return;
+
+    const fc = current.control;
+    const frameWidth = readUint32(fc, 4);
+    const frameHeight = readUint32(fc, 8);
+    const delayNum = readUint16(fc, 20);
+    // A zero denominator means hundredths of a second
+    const delayDen = readUint16(fc, 22) || 100;
+
+    const frameHeader = new Uint8Array(header.data);
+    writeUint32(frameHeader, 0, frameWidth);
+    writeUint32(frameHeader, 4, frameHeight);
+
+    // The first frame can't restore a previous screen, so it clears instead
+    const dispose = DISPOSE_OPS[fc[24]] ?? "none";
+    frames.push({
+      data: writePng([
+        { type: "IHDR", data: frameHeader },
+        ...shared,
+        ...current.data.map((data) => ({ type: "IDAT", data })),
+        { type: "IEND", data: new Uint8Array(0) },
+      ]),
+      mimeType: "image/png",
+      width: frameWidth,
+      height: frameHeight,
+      left: readUint32(fc, 12),
+      top: readUint32(fc, 16),
+      delay: Math.round((delayNum / delayDen) * 1000),
+      dispose:
+        frames.length === 0 && dispose === "previous" ? "background" : dispose,
+      blend: fc[25] === 1 ? "over" : "source",
+    });
+  };
+
+  chunks.forEach((chunk) => {
+    if (chunk.type === "fcTL") {
+      finishFrame();
+      current = { control: chunk.data, data: [] };
+    } else if (chunk.type === "IDAT" && current) {
+      // The default image is only a frame when an fcTL precedes it
+      current.data.push(chunk.data);
+    } else if (chunk.type === "fdAT" && current) {
+      // fdAT is IDAT data prefixed with a sequence number
+      current.data.push(chunk.data.subarray(4));
+    }
+  });
+  finishFrame();
+
+  if (frames.length === 0) throw new Error("APNG file has no frames");
+
+  return {
+    width,
+    height,
+    loopCount: readUint32(control.data, 4),
+    frames,
+  };
+};
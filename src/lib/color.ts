@@ -0,0 +1,126 @@
+// Palette key used to identify a color, e.g. "rgb(255,0,128)"
+export const rgbKey = (rgb: ArrayLike<number>): string =>
+  `rgb(${rgb[0]},${rgb[1]},${rgb[2]})`;
+
+// Function to convert HEX to RGB
+export const hexToRgb = (hex: string): [number, number, number] => {
+  // Ensure the hex string has a # prefix
+  const formattedHex = hex.startsWith("#") ? hex : `#${hex}`;
+
+  // Handle both 3-digit and 6-digit hex formats
+  let result;
+  if (formattedHex.length === 4) {
+    // For 3-digit hex (#RGB), convert to 6-digit format (#RRGGBB)
+    result = /^#?([a-f\d])([a-f\d])([a-f\d])$/i.exec(formattedHex);
+    return result
+      ? [
+          parseInt(result[1] + result[1], 16),
+          parseInt(result[2] + result[2], 16),
+          parseInt(result[3] + result[3], 16),
+        ]
+      : [0, 0, 0];
+  } else {
+    // For 6-digit hex (#RRGGBB)
+    result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(formattedHex);
+    return result
+      ? [
+          parseInt(result[1], 16),
+          parseInt(result[2], 16),
+          parseInt(result[3], 16),
+        ]
+      : [0, 0, 0];
+  }
+};
+
+// Function to convert RGB to HEX
+export const rgbToHex = (rgb: ArrayLike<number>): string => {
+  // Convert each RGB component to a 2-digit hex value
+  const r = rgb[0].toString(16).padStart(2, "0");
+  const g = rgb[1].toString(16).padStart(2, "0");
+  const b = rgb[2].toString(16).padStart(2, "0");
+
+  // Return the hex color with # prefix
+  return `#${r}${g}${b}`;
+};
+
+// Function to validate and format a hex color
+export const validateHexColor = (color: string): string | null => {
+  // Check if it's a valid hex color
+  const hexRegex = /^#?([a-f\d]{3}|[a-f\d]{6})$/i;
+  if (!hexRegex.test(color)) {
+    return null;
+  }
+
+  // Ensure it has a # prefix
+  const formattedColor = color.startsWith("#") ? color : `#${color}`;
+
+  // Convert 3-digit hex to 6-digit if needed
+  if (formattedColor.length === 4) {
+    const r = formattedColor[1];
+    const g = formattedColor[2];
+    const b = formattedColor[3];
+    return `#${r}${r}${g}${g}${b}${b}`;
+  }
+
+  return formattedColor;
+};
+
+// RGB (0-255) to HSL: hue in degrees, saturation and lightness 0-1
+export const rgbToHsl = (
+  rgb: ArrayLike<number>
+): [number, number, number] => {
+  const r = rgb[0] / 255;
+  const g = rgb[1] / 255;
+  const b = rgb[2] / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+
+  if (max === min) return [0, 0, lightness];
+
+  const delta = max - min;
+  const saturation =
+    lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+
+  let hue;
+  if (max === r) hue = (g - b) / delta + (g < b ? 6 : 0);
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+
+  return [hue * 60, saturation, lightness];
+};
+
+// HSL back to RGB (0-255)
+export const hslToRgb = (
+  hsl: [number, number, number]
+): [number, number, number] => {
+  const hue = (((hsl[0] % 360) + 360) % 360) / 360;
+  const saturation = Math.min(1, Math.max(0, hsl[1]));
+  const lightness = Math.min(1, Math.max(0, hsl[2]));
+
+  if (saturation === 0) {
+    const gray = Math.round(lightness * 255);
+    return [gray, gray, gray];
+  }
+
+  const q =
+    lightness < 0.5
+      ? lightness * (1 + saturation)
+      : lightness + saturation - lightness * saturation;
+  const p = 2 * lightness - q;
+
+  const channel = (t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+
+  return [
+    Math.round(channel(hue + 1 / 3) * 255),
+    Math.round(channel(hue) * 255),
+    Math.round(channel(hue - 1 / 3) * 255),
+  ];
+};
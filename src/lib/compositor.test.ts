@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  DISPOSAL_BACKGROUND,
+  DISPOSAL_KEEP,
+  DISPOSAL_NONE,
+  DISPOSAL_PREVIOUS,
+  compositeFrames,
+  createFrameCompositor,
+  getScreenSize,
+} from "./compositor";
+import { makeFrame, pixelAt } from "./testFrames";
+
+const table: [number, number, number][] = [
+  [255, 0, 0],
+  [0, 0, 255],
+  [0, 255, 0],
+];
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+const GREEN = [0, 255, 0, 255];
+const CLEAR = [0, 0, 0, 0];
+
+// A red 2x1 background, then a blue pixel on the left with the given
+// disposal, then a green pixel on the right
+const frames = (disposalType: number) => [
+  makeFrame({ pixels: [0, 0], colorTable: table, width: 2, height: 1 }),
+  makeFrame({
+    pixels: [1],
+    colorTable: table,
+    width: 1,
+    height: 1,
+    disposalType,
+  }),
+  makeFrame({
+    pixels: [2],
+    colorTable: table,
+    width: 1,
+    height: 1,
+    left: 1,
+  }),
+];
+
+const screenAfter = (disposalType: number) => {
+  const screens = compositeFrames(frames(disposalType), 2, 1);
+  return [pixelAt(screens[2], 2, 0, 0), pixelAt(screens[2], 2, 1, 0)];
+};
+
+describe("createFrameCompositor", () => {
+  it("leaves the frame in place with no disposal (0)", () => {
+    expect(screenAfter(DISPOSAL_NONE)).toEqual([BLUE, GREEN]);
+  });
+
+  it("leaves the frame in place with keep disposal (1)", () => {
+    expect(screenAfter(DISPOSAL_KEEP)).toEqual([BLUE, GREEN]);
+  });
+
+  it("clears the frame rect with background disposal (2)", () => {
+    expect(screenAfter(DISPOSAL_BACKGROUND)).toEqual([CLEAR, GREEN]);
+  });
+
+  it("restores what was under the frame with previous disposal (3)", () => {
+    expect(screenAfter(DISPOSAL_PREVIOUS)).toEqual([RED, GREEN]);
+  });
+
+  it("lets transparent pixels show the previous contents", () => {
+    const overlay = makeFrame({
+      pixels: [1, 2],
+      colorTable: table,
+      width: 2,
+      height: 1,
+      transparentIndex: 1,
+    });
+    const screens = compositeFrames([frames(0)[0], overlay], 2, 1);
+
+    expect(pixelAt(screens[1], 2, 0, 0)).toEqual(RED);
+    expect(pixelAt(screens[1], 2, 1, 0)).toEqual(GREEN);
+  });
+
+  it("replays from the start when going backwards", () => {
+    const compositor = createFrameCompositor(frames(DISPOSAL_NONE), 2, 1);
+    compositor.render(2);
+
+    const screen = compositor.render(0);
+
+    expect(pixelAt(screen, 2, 0, 0)).toEqual(RED);
+    expect(pixelAt(screen, 2, 1, 0)).toEqual(RED);
+  });
+
+  it("clips frames that reach past the screen", () => {
+    const offscreen = makeFrame({
+      pixels: [1, 1],
+      colorTable: table,
+      width: 2,
+      height: 1,
+      left: 1,
+    });
+
+    const [screen] = compositeFrames([offscreen], 2, 1);
+
+    expect(pixelAt(screen, 2, 0, 0)).toEqual(CLEAR);
+    expect(pixelAt(screen, 2, 1, 0)).toEqual(BLUE);
+  });
+});
+
+describe("getScreenSize", () => {
+  it("grows the logical screen to fit every frame", () => {
+    expect(getScreenSize(frames(0), { width: 1, height: 1 })).toEqual({
+      width: 2,
+      height: 1,
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import type { GifFrame } from "./types";
+
+// GIF disposal methods (GIF89a spec, graphic control extension)
+export const DISPOSAL_NONE = 0;
+export const DISPOSAL_KEEP = 1;
+export const DISPOSAL_BACKGROUND = 2;
+export const DISPOSAL_PREVIOUS = 3;
+
+export interface FrameCompositor {
+  width: number;
+  height: number;
+  // Composite every frame up to and including frameIndex onto the back buffer.
+  // The returned buffer is owned by the compositor and changes on the next call.
+  render: (frameIndex: number) => Uint8ClampedArray;
+  reset: () => void;
+}
+
+interface PendingDisposal {
+  type: number;
+  dims: GifFrame["dims"];
+  // Screen contents under the frame rect, saved for DISPOSAL_PREVIOUS
+  saved?: Uint8ClampedArray;
+}
+
+// Clip a frame rect to the logical screen
+const clipRect = (dims: GifFrame["dims"], width: number, height: number) => {
+  const left = Math.max(0, dims.left);
+  const top = Math.max(0, dims.top);
+  const right = Math.min(width, dims.left + dims.width);
+  const bottom = Math.min(height, dims.top + dims.height);
+  return { left, top, right, bottom };
+};
+
+// Keeps a persistent back buffer and plays frames onto it in order, applying
+// each frame's disposal method before the next one is drawn
+export const createFrameCompositor = (
+  frames: GifFrame[],
+  width: number,
+  height: number
+): FrameCompositor => {
+  const buffer = new Uint8ClampedArray(width * height * 4);
+  let lastIndex = -1;
+  let pending: PendingDisposal | null = null;
+
+  const copyRect = (dims: GifFrame["dims"]): Uint8ClampedArray => {
+    const { left, top, right, bottom } = clipRect(dims, width, height);
+    const rowLength = Math.max(0, right - left) * 4;
+    const saved = new Uint8ClampedArray(rowLength * Math.max(0, bottom - top));
+    for (let y = top; y < bottom; y++) {
+      const start = (y * width + left) * 4;
+      saved.set(buffer.subarray(start, start + rowLength), (y - top) * rowLength);
+    }
+    return saved;
+  };
+
+  const restoreRect = (dims: GifFrame["dims"], saved: Uint8ClampedArray) => {
+    const { left, top, right, bottom } = clipRect(dims, width, height);
+    const rowLength = Math.max(0, right - left) * 4;
+    for (let y = top; y < bottom; y++) {
+      const offset = (y - top) * rowLength;
+      buffer.set(saved.subarray(offset, offset + rowLength), (y * width + left) * 4);
+    }
+  };
+
+  const clearRect = (dims: GifFrame["dims"]) => {
+    const { left, top, right, bottom } = clipRect(dims, width, height);
+    for (let y = top; y < bottom; y++) {
+      buffer.fill(0, (y * width + left) * 4, (y * width + right) * 4);
+    }
+  };
+
+  const applyPendingDisposal = () => {
+    if (!pending) return;
+
+    if (pending.type === DISPOSAL_BACKGROUND) {
+      // Browsers treat the background as transparent rather than bg color
+      clearRect(pending.dims);
+    } else if (pending.type === DISPOSAL_PREVIOUS && pending.saved) {
+      restoreRect(pending.dims, pending.saved);
+    }
+
+    pending = null;
+  };
+
+  const drawFrame = (frame: GifFrame) => {
+    const { dims, patch } = frame;
+    const { left, top, right, bottom } = clipRect(dims, width, height);
+
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        const src = ((y - dims.top) * dims.width + (x - dims.left)) * 4;
+        // Transparent pixels let the previous contents show through
+        if (patch[src + 3] === 0) continue;
+
+        const dst = (y * width + x) * 4;
+        buffer[dst] = patch[src];
+        buffer[dst + 1] = patch[src + 1];
+        buffer[dst + 2] = patch[src + 2];
+        buffer[dst + 3] = patch[src + 3];
+      }
+    }
+  };
+
+  const step = (frameIndex: number) => {
+    applyPendingDisposal();
+
+    const frame = frames[frameIndex];
+    const type = frame.disposalType || DISPOSAL_NONE;
+
+    pending = {
+      type,
+      dims: frame.dims,
+      saved: type === DISPOSAL_PREVIOUS ? copyRect(frame.dims) : undefined,
+    };
+
+    drawFrame(frame);
+    lastIndex = frameIndex;
+  };
+
+  const reset = () => {
+    buffer.fill(0);
+    lastIndex = -1;
+    pending = null;
+  };
+
+  const render = (frameIndex: number): Uint8ClampedArray => {
+    if (frameIndex < 0 || frameIndex >= frames.length) return buffer;
+
+    // Going backwards means replaying from the start
+    if (frameIndex < lastIndex) reset();
+
+    for (let i = lastIndex + 1; i <= frameIndex; i++) {
+      step(i);
+    }
+
+    return buffer;
+  };
+
+  return { width, height, render, reset };
+};
+
+// Composite every frame of an animation into full-screen RGBA buffers
+export const compositeFrames = (
+  frames: GifFrame[],
+  width: number,
+  height: number
+): Uint8ClampedArray[] => {
+  const compositor = createFrameCompositor(frames, width, height);
+  return frames.map((_, index) => compositor.render(index).slice());
+};
+
+// Logical screen size of an animation, falling back to the frame bounds
+export const getScreenSize = (
+  frames: GifFrame[],
+  info?: { width: number; height: number } | null
+): { width: number; height: number } => {
+  let width = info?.width || 0;
+  let height = info?.height || 0;
+
+  frames.forEach((frame) => {
+    width = Math.max(width, frame.dims.left + frame.dims.width);
+    height = Math.max(height, frame.dims.top + frame.dims.height);
+  });
+
+  return { width, height };
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildContrastReport,
+  colorPairKey,
+  contrastRatio,
+  countAdjacentColors,
+  isLightColor,
+  relativeLuminance,
+} from "./contrast";
+import { makeFrame } from "./testFrames";
+
+const BLACK: [number, number, number] = [0, 0, 0];
+const WHITE: [number, number, number] = [255, 255, 255];
+const GRAY: [number, number, number] = [119, 119, 119];
+const DARK: [number, number, number] = [40, 40, 40];
+
+describe("contrastRatio", () => {
+  it("spans 1:1 to 21:1", () => {
+    expect(relativeLuminance(WHITE)).toBeCloseTo(1);
+    expect(contrastRatio(BLACK, WHITE)).toBeCloseTo(21);
+    expect(contrastRatio(WHITE, BLACK)).toBeCloseTo(21);
+    expect(contrastRatio(GRAY, GRAY)).toBe(1);
+  });
+
+  it("matches the WCAG value for mid gray on white", () => {
+    expect(contrastRatio(GRAY, WHITE)).toBeCloseTo(4.48, 2);
+  });
+});
+
+describe("isLightColor", () => {
+  it("picks the text color with more contrast", () => {
+    expect(isLightColor(WHITE)).toBe(true);
+    expect(isLightColor(BLACK)).toBe(false);
+    expect(isLightColor([255, 255, 0])).toBe(true);
+    expect(isLightColor([0, 0, 255])).toBe(false);
+  });
+});
+
+describe("countAdjacentColors", () => {
+  it("counts horizontal and vertical edges between colors", () => {
+    // 0 1
+    // 0 2  with index 2 transparent
+    const frame = makeFrame({
+      pixels: [0, 1, 0, 2],
+      colorTable: [BLACK, WHITE, GRAY],
+      width: 2,
+      height: 2,
+      transparentIndex: 2,
+    });
+
+    const counts = countAdjacentColors([frame, frame]);
+
+    expect(counts.get(colorPairKey("rgb(0,0,0)", "rgb(255,255,255)"))).toBe(2);
+    expect(counts.size).toBe(1);
+  });
+
+  it("skips table entries that hold the same color", () => {
+    const frame = makeFrame({
+      pixels: [0, 1],
+      colorTable: [BLACK, BLACK],
+      width: 2,
+      height: 1,
+    });
+    expect(countAdjacentColors([frame]).size).toBe(0);
+  });
+});
+
+describe("buildContrastReport", () => {
+  it("puts touching pairs with low contrast first", () => {
+    const adjacency = new Map([
+      [colorPairKey("rgb(0,0,0)", "rgb(40,40,40)"), 5],
+    ]);
+
+    const report = buildContrastReport([BLACK, WHITE, DARK], adjacency);
+
+    expect(report).toHaveLength(3);
+    expect(report[0]).toMatchObject({ a: BLACK, b: DARK, adjacency: 5 });
+    expect(report[0].isProblem).toBe(true);
+    expect(report.filter((pair) => pair.isProblem)).toHaveLength(1);
+  });
+
+  it("flags nearly identical colors even when they never touch", () => {
+    const [pair] = buildContrastReport([GRAY, [121, 119, 119]], new Map());
+    expect(pair.adjacency).toBe(0);
+    expect(pair.isProblem).toBe(true);
+  });
+});
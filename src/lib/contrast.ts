@@ -0,0 +1,125 @@
+// WCAG contrast and which colors touch, for checking a palette's legibility
+import { rgbKey } from "./color";
+import { deltaE, rgbToLab, srgbToLinear } from "./lab";
+import { MISSING_COLOR } from "./palette";
+import type { GifFrame } from "./types";
+
+// WCAG 2.1 minimum contrast for graphical objects (success criterion 1.4.11)
+export const MIN_GRAPHIC_CONTRAST = 3;
+
+// Colors closer than this (CIEDE2000) read as shades of one color
+export const LOW_DELTA_E = 10;
+
+// WCAG relative luminance, 0 for black to 1 for white
+export const relativeLuminance = (rgb: ArrayLike<number>): number =>
+  0.2126 * srgbToLinear(rgb[0]) +
+  0.7152 * srgbToLinear(rgb[1]) +
+  0.0722 * srgbToLinear(rgb[2]);
+
+// WCAG contrast ratio, from 1:1 for equal colors to 21:1 for black on white
+export const contrastRatio = (
+  rgb1: ArrayLike<number>,
+  rgb2: ArrayLike<number>
+): number => {
+  const l1 = relativeLuminance(rgb1);
+  const l2 = relativeLuminance(rgb2);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+};
+
+// Whether black text reads better on the color than white text. Above this
+// luminance black has the higher contrast ratio.
+export const isLightColor = (rgb: ArrayLike<number>): boolean =>
+  relativeLuminance(rgb) > 0.179;
+
+// Order-independent key for a pair of colors
+export const colorPairKey = (a: string, b: string): string =>
+  a < b ? `${a}|${b}` : `${b}|${a}`;
+
+// How often each pair of different colors sits side by side (horizontally or
+// vertically) within a frame's pixels, keyed by colorPairKey. Transparent
+// pixels touch nothing.
+export const countAdjacentColors = (
+  frames: GifFrame[]
+): Map<string, number> => {
+  const counts = new Map<string, number>();
+
+  frames.forEach(({ pixels, colorTable, transparentIndex, dims }) => {
+    // Count by table index first; colors are resolved once per frame
+    const indexCounts = new Map<number, number>();
+    const touch = (a: number, b: number) => {
+      if (a === b || a === transparentIndex || b === transparentIndex) return;
+      const key = a < b ? a * 256 + b : b * 256 + a;
+      indexCounts.set(key, (indexCounts.get(key) ?? 0) + 1);
+    };
+
+    const { width, height } = dims;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        if (x + 1 < width) touch(pixels[i], pixels[i + 1]);
+        if (y + 1 < height) touch(pixels[i], pixels[i + width]);
+      }
+    }
+
+    const colorOf = (index: number) =>
+      rgbKey(colorTable[index] || MISSING_COLOR);
+    indexCounts.forEach((count, key) => {
+      const a = colorOf(Math.floor(key / 256));
+      const b = colorOf(key % 256);
+      // Different table entries can hold the same color
+      if (a === b) return;
+      const pair = colorPairKey(a, b);
+      counts.set(pair, (counts.get(pair) ?? 0) + count);
+    });
+  });
+
+  return counts;
+};
+
+export interface ColorPairReport {
+  a: [number, number, number];
+  b: [number, number, number];
+  contrast: number;
+  deltaE: number;
+  // Pixel edges where the two colors touch, 0 when they never do
+  adjacency: number;
+  // Nearly the same color, or touching with too little contrast to keep
+  // the edge between them visible
+  isProblem: boolean;
+}
+
+// Contrast and difference of every pair of palette colors. Problem pairs come
+// first, those that touch most at the top, then the rest by contrast.
+export const buildContrastReport = (
+  palette: [number, number, number][],
+  adjacency: Map<string, number>
+): ColorPairReport[] => {
+  const keys = palette.map((rgb) => rgbKey(rgb));
+  const labs = palette.map((rgb) => rgbToLab(rgb));
+  const report: ColorPairReport[] = [];
+
+  for (let i = 0; i < palette.length; i++) {
+    for (let j = i + 1; j < palette.length; j++) {
+      const contrast = contrastRatio(palette[i], palette[j]);
+      const difference = deltaE(labs[i], labs[j]);
+      const touches = adjacency.get(colorPairKey(keys[i], keys[j])) ?? 0;
+      report.push({
+        a: palette[i],
+        b: palette[j],
+        contrast,
+        deltaE: difference,
+        adjacency: touches,
+        isProblem:
+          difference < LOW_DELTA_E ||
+          (touches > 0 && contrast < MIN_GRAPHIC_CONTRAST),
+      });
+    }
+  }
+
+  return report.sort(
+    (x, y) =>
+      Number(y.isProblem) - Number(x.isProblem) ||
+      y.adjacency - x.adjacency ||
+      x.contrast - y.contrast
+  );
+};
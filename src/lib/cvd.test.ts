@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { createCvdSimulator, findConfusableColors, simulateCvd } from "./cvd";
+
+const RED: [number, number, number] = [255, 0, 0];
+const GREEN: [number, number, number] = [0, 128, 0];
+const BLUE: [number, number, number] = [0, 0, 255];
+
+describe("simulateCvd", () => {
+  it("leaves black and white alone", () => {
+    expect(simulateCvd([0, 0, 0], "protanopia")).toEqual([0, 0, 0]);
+    expect(simulateCvd([255, 255, 255], "deuteranopia")).toEqual([
+      255, 255, 255,
+    ]);
+  });
+
+  it("turns every color gray without any cone response", () => {
+    const [r, g, b] = simulateCvd(RED, "achromatopsia");
+    expect(r).toBe(g);
+    expect(g).toBe(b);
+  });
+
+  it("takes the red out of red for protanopes", () => {
+    const [r, g] = simulateCvd(RED, "protanopia");
+    expect(r).toBeLessThan(150);
+    expect(Math.abs(r - g)).toBeLessThan(30);
+  });
+});
+
+describe("createCvdSimulator", () => {
+  it("simulates every pixel and keeps alpha", () => {
+    const simulate = createCvdSimulator("achromatopsia");
+    const result = simulate([255, 0, 0, 128, 255, 0, 0, 0]);
+
+    const gray = simulateCvd(RED, "achromatopsia");
+    expect(Array.from(result)).toEqual([...gray, 128, ...gray, 0]);
+  });
+});
+
+describe("findConfusableColors", () => {
+  it("flags colors that look alike with the deficiency", () => {
+    const confusable = findConfusableColors(
+      [[200, 80, 0]],
+      [
+        [200, 80, 0],
+        [120, 120, 0],
+        BLUE,
+      ],
+      "deuteranopia",
+      15
+    );
+
+    const flagged = confusable.get("rgb(200,80,0)");
+    expect(flagged?.map((color) => color.rgb)).toEqual([[120, 120, 0]]);
+  });
+
+  it("ignores colors that are already close to start with", () => {
+    const confusable = findConfusableColors(
+      [RED],
+      [RED, [254, 1, 0]],
+      "protanopia"
+    );
+    expect(confusable.size).toBe(0);
+  });
+
+  it("reports nothing for colors that stay apart", () => {
+    const confusable = findConfusableColors(
+      [GREEN],
+      [GREEN, BLUE],
+      "protanopia"
+    );
+    expect(confusable.size).toBe(0);
+  });
+});
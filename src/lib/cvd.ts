@@ -0,0 +1,133 @@
+// Color vision deficiency simulation, for checking that colors stay apart for
+// color-blind viewers
+import { rgbKey } from "./color";
+import { deltaE, linearToSrgb, rgbToLab, srgbToLinear } from "./lab";
+
+export type CvdType =
+  | "protanopia"
+  | "deuteranopia"
+  | "tritanopia"
+  | "achromatopsia";
+
+export const CVD_TYPES: CvdType[] = [
+  "protanopia",
+  "deuteranopia",
+  "tritanopia",
+  "achromatopsia",
+];
+
+// Colors closer than this after simulation are hard to tell apart (CIEDE2000)
+export const CONFUSABLE_DELTA_E = 6;
+
+// Machado, Oliveira & Fernandes (2009) at full severity, row-major, applied to
+// linear RGB
+const DICHROMAT_MATRICES: Record<
+  Exclude<CvdType, "achromatopsia">,
+  number[]
+> = {
+  protanopia: [
+    0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882,
+    -0.048116, 1.051998,
+  ],
+  deuteranopia: [
+    0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.01182,
+    0.04294, 0.968881,
+  ],
+  tritanopia: [
+    1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733,
+    0.691367, 0.3039,
+  ],
+};
+
+// How a color looks with the deficiency
+export const simulateCvd = (
+  rgb: ArrayLike<number>,
+  type: CvdType
+): [number, number, number] => {
+  const r = srgbToLinear(rgb[0]);
+  const g = srgbToLinear(rgb[1]);
+  const b = srgbToLinear(rgb[2]);
+
+  if (type === "achromatopsia") {
+    // No cone response left to tell hues apart, only luminance (Rec. 709)
+    const gray = linearToSrgb(0.2126 * r + 0.7152 * g + 0.0722 * b);
+    return [gray, gray, gray];
+  }
+
+  const m = DICHROMAT_MATRICES[type];
+  return [
+    linearToSrgb(m[0] * r + m[1] * g + m[2] * b),
+    linearToSrgb(m[3] * r + m[4] * g + m[5] * b),
+    linearToSrgb(m[6] * r + m[7] * g + m[8] * b),
+  ];
+};
+
+// Simulate the deficiency on RGBA screens. Screens use few distinct colors,
+// so each is converted once and remembered.
+export const createCvdSimulator = (type: CvdType) => {
+  const cache = new Map<number, [number, number, number]>();
+
+  return (image: ArrayLike<number>): Uint8ClampedArray => {
+    const result = Uint8ClampedArray.from(image);
+    for (let offset = 0; offset < result.length; offset += 4) {
+      const key =
+        (result[offset] << 16) | (result[offset + 1] << 8) | result[offset + 2];
+      let simulated = cache.get(key);
+      if (!simulated) {
+        simulated = simulateCvd(result.subarray(offset, offset + 3), type);
+        cache.set(key, simulated);
+      }
+      result[offset] = simulated[0];
+      result[offset + 1] = simulated[1];
+      result[offset + 2] = simulated[2];
+    }
+    return result;
+  };
+};
+
+export interface ConfusableColor {
+  rgb: [number, number, number];
+  // Difference between the two colors with the deficiency
+  deltaE: number;
+}
+
+// For each of the colors, the palette colors it can barely be told apart from
+// with the deficiency although the two differ with normal vision. Results are
+// keyed by rgbKey; colors without any confusable partner are left out.
+export const findConfusableColors = (
+  colors: [number, number, number][],
+  palette: [number, number, number][],
+  type: CvdType,
+  threshold = CONFUSABLE_DELTA_E
+): Map<string, ConfusableColor[]> => {
+  const describe = (rgb: [number, number, number]) => ({
+    rgb,
+    key: rgbKey(rgb),
+    lab: rgbToLab(rgb),
+    simulated: rgbToLab(simulateCvd(rgb, type)),
+  });
+  // A color can come up more than once, e.g. as several mappings' target
+  const unique = new Map(palette.map((rgb) => [rgbKey(rgb), rgb]));
+  const paletteInfo = [...unique.values()].map(describe);
+  const result = new Map<string, ConfusableColor[]>();
+
+  colors.map(describe).forEach((color) => {
+    if (result.has(color.key)) return;
+
+    const confusable = paletteInfo
+      .filter(
+        (other) =>
+          other.key !== color.key &&
+          deltaE(color.lab, other.lab) >= threshold
+      )
+      .map((other) => ({
+        rgb: other.rgb,
+        deltaE: deltaE(color.simulated, other.simulated),
+      }))
+      .filter((other) => other.deltaE < threshold)
+      .sort((a, b) => a.deltaE - b.deltaE);
+
+    if (confusable.length > 0) result.set(color.key, confusable);
+  });
+  return result;
+};
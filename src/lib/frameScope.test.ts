@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { mergeMappings } from "./frameScope";
+import type { ColorMapping } from "./types";
+
+const mapping = (
+  originalColor: string,
+  newColor: string,
+  extra: Partial<ColorMapping> = {}
+): ColorMapping => ({
+  originalColor,
+  originalRgb: [0, 0, 0],
+  newColor,
+  newRgb: [0, 0, 0],
+  ...extra,
+});
+
+describe("mergeMappings", () => {
+  const scoped = mapping("rgb(1,1,1)", "#000001", {
+    frames: { type: "range", start: 0, end: 2 },
+  });
+  const existing = [
+    mapping("rgb(1,1,1)", "#000000"),
+    scoped,
+    mapping("rgb(2,2,2)", "#000000"),
+  ];
+
+  it("replaces mappings with the same key in place", () => {
+    const merged = mergeMappings(existing, [mapping("rgb(1,1,1)", "#ffffff")]);
+
+    expect(merged.map((m) => m.newColor)).toEqual([
+      "#ffffff",
+      "#000001",
+      "#000000",
+    ]);
+  });
+
+  it("keeps scoped mappings of the same color", () => {
+    const merged = mergeMappings(existing, [mapping("rgb(1,1,1)", "#ffffff")]);
+    expect(merged[1]).toBe(scoped);
+  });
+
+  it("adds mappings with new keys at the end", () => {
+    const merged = mergeMappings(existing, [mapping("rgb(3,3,3)", "#ffffff")]);
+
+    expect(merged).toHaveLength(4);
+    expect(merged[3].originalColor).toBe("rgb(3,3,3)");
+  });
+});
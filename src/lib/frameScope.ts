@@ -0,0 +1,110 @@
+import type { ColorMapping, FrameScope } from "./types";
+
+export const isFrameInScope = (
+  scope: FrameScope | undefined,
+  frameIndex: number
+): boolean => {
+  if (!scope) return true;
+  if (scope.type === "range") {
+    return frameIndex >= scope.start && frameIndex <= scope.end;
+  }
+  return scope.frames.includes(frameIndex);
+};
+
+export const isSameFrameScope = (
+  a: FrameScope | undefined,
+  b: FrameScope | undefined
+): boolean => frameScopeKey(a) === frameScopeKey(b);
+
+// Stable string for a scope, e.g. "all", "3-6" or "1,4,9"
+export const frameScopeKey = (scope: FrameScope | undefined): string => {
+  if (!scope) return "all";
+  if (scope.type === "range") return `${scope.start}-${scope.end}`;
+  return [...scope.frames].sort((a, b) => a - b).join(",");
+};
+
+// Human-readable scope with 1-based frame numbers, e.g. "frames 4–7"
+export const describeFrameScope = (scope: FrameScope | undefined): string => {
+  if (!scope) return "all frames";
+  if (scope.type === "range") {
+    return scope.start === scope.end
+      ? `frame ${scope.start + 1}`
+      : `frames ${scope.start + 1}–${scope.end + 1}`;
+  }
+  const frames = [...scope.frames].sort((a, b) => a - b);
+  return frames.length === 1
+    ? `frame ${frames[0] + 1}`
+    : `frames ${frames.map((frame) => frame + 1).join(", ")}`;
+};
+
+// Mapping identity within a mapping list: one per color, scope and mask
+export const mappingKey = (
+  mapping: Pick<ColorMapping, "originalColor" | "frames" | "maskId">
+): string =>
+  `${mapping.originalColor}@${frameScopeKey(mapping.frames)}` +
+  (mapping.maskId ? `#${mapping.maskId}` : "");
+
+// Put updated mappings into a list. Each replaces the mapping with the same
+// key in place, so the rest of the list keeps its order; mappings with new
+// keys are added at the end.
+export const mergeMappings = (
+  mappings: ColorMapping[],
+  updates: ColorMapping[]
+): ColorMapping[] => {
+  const updatesByKey = new Map(
+    updates.map((mapping) => [mappingKey(mapping), mapping])
+  );
+  const existingKeys = new Set(mappings.map(mappingKey));
+
+  return [
+    ...mappings.map(
+      (mapping) => updatesByKey.get(mappingKey(mapping)) ?? mapping
+    ),
+    ...[...updatesByKey.entries()]
+      .filter(([key]) => !existingKeys.has(key))
+      .map(([, mapping]) => mapping),
+  ];
+};
+
+// Carry a scope through a frame reorder, where order lists the old index of
+// each new frame (see identityOrder). Null when none of its frames remain.
+export const reorderFrameScope = (
+  scope: FrameScope,
+  order: number[]
+): FrameScope | null => {
+  const frames = order.flatMap((source, index) =>
+    isFrameInScope(scope, source) ? [index] : []
+  );
+  if (frames.length === 0) return null;
+
+  const start = frames[0];
+  const end = frames[frames.length - 1];
+  return end - start === frames.length - 1
+    ? { type: "range", start, end }
+    : { type: "set", frames };
+};
+
+// Move frame-scoped mappings along with their frames. Mappings whose frames
+// were all deleted are dropped; if two scopes end up the same, the later
+// mapping wins.
+export const reorderMappingScopes = (
+  mappings: ColorMapping[],
+  order: number[]
+): ColorMapping[] => {
+  const byKey = new Map<string, ColorMapping>();
+
+  mappings.forEach((mapping) => {
+    if (!mapping.frames) {
+      byKey.set(mappingKey(mapping), mapping);
+      return;
+    }
+
+    const frames = reorderFrameScope(mapping.frames, order);
+    if (!frames) return;
+
+    const moved = { ...mapping, frames };
+    byKey.set(mappingKey(moved), moved);
+  });
+
+  return Array.from(byKey.values());
+};
@@ -0,0 +1,60 @@
+import { parseGIF, decompressFrame } from "gifuct-js";
+import type { GifFrame, GifInfo } from "./types";
+
+export interface DecodedGif {
+  frames: GifFrame[];
+  info: GifInfo;
+}
+
+// Read the Netscape looping extension, if present
+const readLoopCount = (
+  gif: ReturnType<typeof parseGIF>
+): number | undefined => {
+  for (const block of gif.frames) {
+    if (!("application" in block)) continue;
+
+    const { id, blocks } = block.application;
+    if (!id.startsWith("NETSCAPE") && !id.startsWith("ANIMEXTS")) continue;
+
+    // Sub-block layout: [1, loopCountLow, loopCountHigh]
+    if (blocks.length >= 3 && blocks[0] === 1) {
+      return blocks[1] | (blocks[2] << 8);
+    }
+  }
+  return undefined;
+};
+
+// Parse a GIF file into frames plus the file-level info needed to write it
+// back. onProgress is called after each frame is decompressed.
+export const decodeGif = (
+  arrayBuffer: ArrayBuffer,
+  onProgress?: (done: number, total: number) => void
+): DecodedGif => {
+  const gif = parseGIF(arrayBuffer);
+
+  // Only image blocks become frames; the rest are extensions
+  const imageBlocks = gif.frames.filter((block) => "image" in block);
+
+  const frames: GifFrame[] = imageBlocks.map((block, index) => {
+    const frame = decompressFrame(block, gif.gct, true);
+    onProgress?.(index + 1, imageBlocks.length);
+    return {
+      ...frame,
+      // gifuct-js reports a delay of 0 as 100ms, the way browsers play it.
+      // Keep the file's own value so it is written back unchanged.
+      delay: "gce" in block && block.gce ? block.gce.delay * 10 : 0,
+      hasLocalColorTable:
+        "image" in block ? block.image.descriptor.lct.exists : false,
+    };
+  });
+
+  const info: GifInfo = {
+    width: gif.lsd.width,
+    height: gif.lsd.height,
+    backgroundColorIndex: gif.lsd.backgroundColorIndex,
+    globalColorTable: gif.lsd.gct.exists ? gif.gct : undefined,
+    loopCount: readLoopCount(gif),
+  };
+
+  return { frames, info };
+};
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import { decodeGif } from "./gifDecoder";
+import { encodeGif } from "./gifEncoder";
+import { makeFrame, toArrayBuffer } from "./testFrames";
+import type { GifInfo } from "./types";
+
+const globalTable: [number, number, number][] = [
+  [0, 0, 0],
+  [255, 0, 0],
+  [0, 255, 0],
+  [0, 0, 255],
+];
+
+const info: GifInfo = {
+  width: 2,
+  height: 2,
+  backgroundColorIndex: 0,
+  globalColorTable: globalTable,
+  loopCount: 0,
+};
+
+// Decoded tables hold typed arrays and are padded to a power of two
+const tableStart = (table: ArrayLike<number>[] | undefined, size: number) =>
+  table?.slice(0, size).map((color) => Array.from(color));
+
+const roundTrip = (frames: ReturnType<typeof makeFrame>[], gifInfo = info) =>
+  decodeGif(toArrayBuffer(encodeGif(frames, gifInfo)));
+
+describe("encodeGif and decodeGif", () => {
+  it("round-trips pixels, delays, disposal and loop count", () => {
+    const frames = [
+      makeFrame({
+        pixels: [0, 1, 2, 3],
+        colorTable: globalTable,
+        width: 2,
+        height: 2,
+        delay: 120,
+        disposalType: 2,
+      }),
+      makeFrame({
+        pixels: [3, 2, 1, 0],
+        colorTable: globalTable,
+        width: 2,
+        height: 2,
+        delay: 50,
+        disposalType: 1,
+      }),
+    ];
+
+    const decoded = roundTrip(frames);
+
+    expect(decoded.info).toMatchObject({ width: 2, height: 2, loopCount: 0 });
+    expect(decoded.frames.map((frame) => frame.pixels)).toEqual([
+      [0, 1, 2, 3],
+      [3, 2, 1, 0],
+    ]);
+    expect(decoded.frames.map((frame) => frame.delay)).toEqual([120, 50]);
+    expect(decoded.frames.map((frame) => frame.disposalType)).toEqual([2, 1]);
+  });
+
+  it("keeps a delay of 0 instead of the 100ms browsers play", () => {
+    const frame = makeFrame({
+      pixels: [0, 1, 2, 3],
+      colorTable: globalTable,
+      width: 2,
+      height: 2,
+      delay: 0,
+    });
+
+    expect(roundTrip([frame]).frames[0].delay).toBe(0);
+  });
+
+  it("rounds delays to the 10ms units GIFs store", () => {
+    const frame = makeFrame({
+      pixels: [0, 1, 2, 3],
+      colorTable: globalTable,
+      width: 2,
+      height: 2,
+      delay: 33,
+    });
+
+    expect(roundTrip([frame]).frames[0].delay).toBe(30);
+  });
+
+  it("keeps the transparent index and its transparent pixels", () => {
+    const frame = makeFrame({
+      pixels: [0, 2, 2, 1],
+      colorTable: globalTable,
+      width: 2,
+      height: 2,
+      transparentIndex: 2,
+    });
+
+    const [decoded] = roundTrip([frame]).frames;
+
+    expect(decoded.transparentIndex).toBe(2);
+    expect(decoded.pixels).toEqual([0, 2, 2, 1]);
+    expect(Array.from(decoded.patch.subarray(4, 8))[3]).toBe(0);
+    expect(Array.from(decoded.patch.subarray(0, 4))).toEqual([0, 0, 0, 255]);
+  });
+
+  it("writes no loop extension for a GIF that plays once", () => {
+    const frame = makeFrame({
+      pixels: [0, 0, 0, 0],
+      colorTable: globalTable,
+      width: 2,
+      height: 2,
+    });
+
+    const decoded = roundTrip([frame], { ...info, loopCount: undefined });
+
+    expect(decoded.info.loopCount).toBeUndefined();
+  });
+
+  it("shares the global table and keeps local tables local", () => {
+    const localTable: [number, number, number][] = [
+      [10, 20, 30],
+      [40, 50, 60],
+    ];
+    const frames = [
+      makeFrame({
+        pixels: [0, 1, 2, 3],
+        colorTable: globalTable,
+        width: 2,
+        height: 2,
+      }),
+      makeFrame({
+        pixels: [1, 0, 1, 0],
+        colorTable: localTable,
+        width: 2,
+        height: 2,
+        hasLocalColorTable: true,
+      }),
+    ];
+
+    const decoded = roundTrip(frames);
+
+    expect(tableStart(decoded.info.globalColorTable, 4)).toEqual(globalTable);
+    expect(decoded.frames[0].hasLocalColorTable).toBe(false);
+    expect(decoded.frames[1].hasLocalColorTable).toBe(true);
+    expect(tableStart(decoded.frames[1].colorTable, 2)).toEqual(localTable);
+    expect(Array.from(decoded.frames[1].patch.subarray(0, 4))).toEqual([
+      40, 50, 60, 255,
+    ]);
+  });
+
+  it("gives a frame its own table when remapping made it diverge", () => {
+    const remapped: [number, number, number][] = [
+      [0, 0, 0],
+      [255, 255, 0],
+      [0, 255, 0],
+      [0, 0, 255],
+    ];
+    const frames = [
+      makeFrame({
+        pixels: [0, 1, 2, 3],
+        colorTable: globalTable,
+        width: 2,
+        height: 2,
+      }),
+      makeFrame({
+        pixels: [0, 1, 2, 3],
+        colorTable: remapped,
+        width: 2,
+        height: 2,
+      }),
+    ];
+
+    const decoded = roundTrip(frames);
+
+    expect(decoded.frames[0].hasLocalColorTable).toBe(false);
+    expect(decoded.frames[1].hasLocalColorTable).toBe(true);
+    expect(tableStart(decoded.frames[1].colorTable, 4)).toEqual(remapped);
+  });
+});
@@ -0,0 +1,239 @@
+import type { GifFrame, GifInfo } from "./types";
+
+type ColorTable = [number, number, number][];
+
+// Growable byte buffer for assembling the output file
+const createByteWriter = () => {
+  let bytes = new Uint8Array(4096);
+  let length = 0;
+
+  const ensure = (extra: number) => {
+    if (length + extra <= bytes.length) return;
+    let size = bytes.length * 2;
+    while (size < length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(bytes.subarray(0, length));
+    bytes = grown;
+  };
+
+  const byte = (value: number) => {
+    ensure(1);
+    bytes[length++] = value & 0xff;
+  };
+
+  return {
+    byte,
+    // Little-endian 16-bit value, as used throughout the GIF format
+    short: (value: number) => {
+      byte(value);
+      byte(value >> 8);
+    },
+    string: (value: string) => {
+      for (let i = 0; i < value.length; i++) byte(value.charCodeAt(i));
+    },
+    array: (values: ArrayLike<number>) => {
+      ensure(values.length);
+      for (let i = 0; i < values.length; i++) bytes[length++] = values[i] & 0xff;
+    },
+    result: (): Uint8Array => bytes.slice(0, length),
+  };
+};
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+// Number of bits needed to index a color table (GIF tables are 2..256 entries)
+const tableBits = (size: number): number => {
+  let bits = 1;
+  while (1 << bits < size) bits++;
+  return bits;
+};
+
+const tablesEqual = (a: ColorTable, b: ColorTable): boolean => {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i][0] !== b[i][0] || a[i][1] !== b[i][1] || a[i][2] !== b[i][2]) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Write a color table padded with black to its power-of-two size
+const writeColorTable = (writer: ByteWriter, table: ColorTable) => {
+  const size = 1 << tableBits(table.length);
+  for (let i = 0; i < size; i++) {
+    const color = table[i] || [0, 0, 0];
+    writer.byte(color[0]);
+    writer.byte(color[1]);
+    writer.byte(color[2]);
+  }
+};
+
+// Variable-length-code LZW compression as specified by GIF89a
+export const lzwEncode = (
+  minCodeSize: number,
+  pixels: ArrayLike<number>
+): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  const output: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  let dictionary = new Map<number, number>();
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+
+  emit(clearCode, codeSize);
+
+  if (pixels.length === 0) {
+    emit(endCode, codeSize);
+    if (bitCount > 0) output.push(bitBuffer & 0xff);
+    return Uint8Array.from(output);
+  }
+
+  let prefix = pixels[0];
+  for (let i = 1; i < pixels.length; i++) {
+    const pixel = pixels[i];
+    const key = (prefix << 8) | pixel;
+    const existing = dictionary.get(key);
+
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix, codeSize);
+
+    if (nextCode === 4096) {
+      // Dictionary is full, start over
+      emit(clearCode, codeSize);
+      dictionary = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      dictionary.set(key, nextCode++);
+    }
+
+    prefix = pixel;
+  }
+
+  emit(prefix, codeSize);
+  emit(endCode, codeSize);
+  if (bitCount > 0) output.push(bitBuffer & 0xff);
+
+  return Uint8Array.from(output);
+};
+
+// Split data into length-prefixed sub-blocks followed by a terminator
+const writeSubBlocks = (writer: ByteWriter, data: Uint8Array) => {
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const chunk = data.subarray(offset, offset + 255);
+    writer.byte(chunk.length);
+    writer.array(chunk);
+  }
+  writer.byte(0);
+};
+
+// Pick the table written as the global color table. Frames that did not have
+// a local table in the source share it, as long as remapping kept them equal.
+const resolveGlobalTable = (
+  frames: GifFrame[],
+  info: GifInfo
+): ColorTable | undefined => {
+  const sharedFrame = frames.find((frame) => !frame.hasLocalColorTable);
+  if (sharedFrame) return sharedFrame.colorTable;
+  return info.globalColorTable;
+};
+
+// Encode frames as a GIF89a file
+export const encodeGif = (frames: GifFrame[], info: GifInfo): Uint8Array => {
+  const writer = createByteWriter();
+  const globalTable = resolveGlobalTable(frames, info);
+
+  // Header
+  writer.string("GIF89a");
+
+  // Logical screen descriptor
+  writer.short(info.width);
+  writer.short(info.height);
+  if (globalTable) {
+    const bits = tableBits(globalTable.length);
+    // Global table flag, 8-bit color resolution, table size
+    writer.byte(0x80 | (0x07 << 4) | (bits - 1));
+  } else {
+    writer.byte(0x70);
+  }
+  writer.byte(globalTable ? info.backgroundColorIndex : 0);
+  writer.byte(0); // Pixel aspect ratio
+
+  if (globalTable) writeColorTable(writer, globalTable);
+
+  // Netscape looping extension
+  if (info.loopCount !== undefined) {
+    writer.byte(0x21);
+    writer.byte(0xff);
+    writer.byte(11);
+    writer.string("NETSCAPE2.0");
+    writer.byte(3);
+    writer.byte(1);
+    writer.short(info.loopCount);
+    writer.byte(0);
+  }
+
+  frames.forEach((frame) => {
+    const { dims, transparentIndex } = frame;
+    const hasTransparency = transparentIndex !== undefined;
+
+    // Graphic control extension
+    writer.byte(0x21);
+    writer.byte(0xf9);
+    writer.byte(4);
+    const disposal = (frame.disposalType || 0) & 0x07;
+    writer.byte((disposal << 2) | (hasTransparency ? 1 : 0));
+    writer.short(Math.round((frame.delay || 0) / 10));
+    writer.byte(hasTransparency ? transparentIndex : 0);
+    writer.byte(0);
+
+    // Frames fall back to a local table if remapping made them diverge
+    const useLocalTable =
+      frame.hasLocalColorTable ||
+      !globalTable ||
+      !tablesEqual(frame.colorTable, globalTable);
+    const table = useLocalTable ? frame.colorTable : globalTable;
+    const bits = tableBits(table.length);
+
+    // Image descriptor
+    writer.byte(0x2c);
+    writer.short(dims.left);
+    writer.short(dims.top);
+    writer.short(dims.width);
+    writer.short(dims.height);
+    writer.byte(useLocalTable ? 0x80 | (bits - 1) : 0);
+
+    if (useLocalTable) writeColorTable(writer, frame.colorTable);
+
+    // Image data
+    const minCodeSize = Math.max(2, bits);
+    writer.byte(minCodeSize);
+    writeSubBlocks(writer, lzwEncode(minCodeSize, frame.pixels));
+  });
+
+  // Trailer
+  writer.byte(0x3b);
+
+  return writer.result();
+};
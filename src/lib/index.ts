@@ -0,0 +1,190 @@
+// Framework-free API for decoding, recoloring and encoding GIFs. Nothing here
+// touches the DOM, so it can be used from build scripts as well as the app.
+import { decodeGif } from "./gifDecoder";
+
+export type {
+  GifFrame,
+  GifInfo,
+  ColorCount,
+  ColorMapping,
+  FrameScope,
+} from "./types";
+export type { DecodedGif } from "./gifDecoder";
+export type { MappingPreset, PresetMatch } from "./preset";
+export type { ResolvedColor, RemapEngine, RemapJob } from "./remap";
+export type { Lab, Lch } from "./lab";
+export type { TransferMethod } from "./paletteTransfer";
+export type { HslAdjustment, HslPreview } from "./adjust";
+export type { RegionMask } from "./mask";
+export type { PixelInspection } from "./inspect";
+export type { RgbaFrame, IndexOptions } from "./indexedFrames";
+export type {
+  FrameDispose,
+  FrameBlend,
+  EncodedFrame,
+  EncodedAnimation,
+} from "./animation";
+export type { WeightedColor } from "./quantize";
+export type { PlaybackMode, PlaybackPosition } from "./playback";
+export type { PaletteVariant } from "./variants";
+export type { CvdType, ConfusableColor } from "./cvd";
+export type { ColorPairReport } from "./contrast";
+export type { PaletteReduction } from "./reduce";
+export type { ZipEntry } from "./zip";
+export type {
+  SheetLayout,
+  SheetOptions,
+  SheetRect,
+  SpriteSheet,
+  SheetFrame,
+  AsepriteSheet,
+} from "./spriteSheet";
+export type {
+  PaletteEntry,
+  PaletteFile,
+  PaletteFormat,
+  PaletteExportFormat,
+  PaletteDocument,
+} from "./paletteFormats";
+
+// Parse a GIF file into frames and file-level info
+export const loadGif = decodeGif;
+
+export { getPalette, getPaletteFromRgba } from "./palette";
+export { proposeMappings, solveAssignment } from "./paletteTransfer";
+export {
+  detectPaletteFormat,
+  parsePaletteFile,
+  toPaletteFile,
+  writePaletteFile,
+  formatCssVariables,
+  createPaletteDocument,
+} from "./paletteFormats";
+export {
+  NO_ADJUSTMENT,
+  adjustColor,
+  applyHslAdjustment,
+  previewHslAdjustment,
+} from "./adjust";
+export {
+  applyMappings,
+  createFrameRemapper,
+  createRemapEngine,
+  buildColorLookup,
+  cloneFrames,
+  buildPatch,
+} from "./remap";
+export {
+  isFrameInScope,
+  isSameFrameScope,
+  frameScopeKey,
+  describeFrameScope,
+  mappingKey,
+  mergeMappings,
+  reorderFrameScope,
+  reorderMappingScopes,
+} from "./frameScope";
+export {
+  createMask,
+  getMaskLayer,
+  editMaskLayer,
+  setMaskTracked,
+  trackMask,
+  paintBrush,
+  paintLine,
+  paintRect,
+  floodFillMask,
+  reorderMaskLayers,
+} from "./mask";
+export { pointerToPixel, inspectPixel } from "./inspect";
+export { countColorByFrame, dimOtherColors, tintColor } from "./isolate";
+export { indexRgbaFrames } from "./indexedFrames";
+export { composeAnimation, toGifLoopCount } from "./animation";
+export { isPng, parseApng } from "./apng";
+export { isWebp, parseWebp } from "./webp";
+export { medianCut } from "./quantize";
+export {
+  reducePalette,
+  remappedPalette,
+  reduceMappedPalette,
+} from "./reduce";
+export {
+  buildSpriteSheet,
+  createAsepriteJson,
+  parseAsepriteJson,
+  gridSheetFrames,
+  sliceSpriteSheet,
+} from "./spriteSheet";
+export {
+  identityOrder,
+  isIdentityOrder,
+  reverseOrder,
+  pingPongOrder,
+  moveFrameOrder,
+  deleteFramesOrder,
+  duplicateFramesOrder,
+  makeFramesIndependent,
+  reorderFrames,
+  snapDelay,
+  setFrameDelays,
+} from "./timeline";
+export {
+  playbackDelay,
+  playCount,
+  nextPlaybackPosition,
+} from "./playback";
+export {
+  createVariant,
+  setVariantMappings,
+  mapVariantMappings,
+  variantSlug,
+  uniqueVariantSlugs,
+} from "./variants";
+export {
+  CVD_TYPES,
+  CONFUSABLE_DELTA_E,
+  simulateCvd,
+  createCvdSimulator,
+  findConfusableColors,
+} from "./cvd";
+export {
+  MIN_GRAPHIC_CONTRAST,
+  LOW_DELTA_E,
+  relativeLuminance,
+  contrastRatio,
+  isLightColor,
+  colorPairKey,
+  countAdjacentColors,
+  buildContrastReport,
+} from "./contrast";
+export { encodeGif } from "./gifEncoder";
+export { createZip } from "./zip";
+export {
+  createFrameCompositor,
+  compositeFrames,
+  getScreenSize,
+} from "./compositor";
+export {
+  PRESET_VERSION,
+  createPreset,
+  serializePreset,
+  parsePreset,
+  findNearestColor,
+  matchPresetToPalette,
+} from "./preset";
+export {
+  rgbKey,
+  hexToRgb,
+  rgbToHex,
+  validateHexColor,
+  rgbToHsl,
+  hslToRgb,
+} from "./color";
+export {
+  rgbToLab,
+  labToRgb,
+  labToLch,
+  lchToLab,
+  deltaE,
+  rgbDeltaE,
+} from "./lab";
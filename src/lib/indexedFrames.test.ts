@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { indexRgbaFrames, type RgbaFrame } from "./indexedFrames";
+
+type Rgba = [number, number, number, number];
+
+// One-row frame with the given pixels
+const rgbaFrame = (pixels: Rgba[], left = 0): RgbaFrame => ({
+  data: pixels.flat(),
+  width: pixels.length,
+  height: 1,
+  left,
+  top: 0,
+  delay: 100,
+});
+
+// Opaque pixels in as many distinct colors
+const distinctColors = (count: number, blue = 0): Rgba[] =>
+  Array.from({ length: count }, (_, i) => [i % 256, i >> 8, blue, 255]);
+
+describe("indexRgbaFrames", () => {
+  it("shares one exact color table when every color fits", () => {
+    const { frames, info } = indexRgbaFrames(
+      [
+        rgbaFrame([
+          [255, 0, 0, 255],
+          [0, 0, 255, 255],
+        ]),
+        rgbaFrame([
+          [0, 0, 255, 255],
+          [0, 255, 0, 255],
+        ]),
+      ],
+      2,
+      1
+    );
+
+    expect(info.globalColorTable).toEqual([
+      [255, 0, 0],
+      [0, 0, 255],
+      [0, 255, 0],
+    ]);
+    expect(frames.map((frame) => frame.pixels)).toEqual([
+      [0, 1],
+      [1, 2],
+    ]);
+    expect(frames[0].hasLocalColorTable).toBe(false);
+  });
+
+  it("maps pixels below the alpha threshold to the transparent index", () => {
+    const { frames } = indexRgbaFrames(
+      [
+        rgbaFrame([
+          [255, 0, 0, 255],
+          [255, 0, 0, 127],
+          [0, 0, 255, 0],
+        ]),
+      ],
+      3,
+      1
+    );
+
+    expect(frames[0].colorTable).toEqual([
+      [255, 0, 0],
+      [0, 0, 0],
+    ]);
+    expect(frames[0].transparentIndex).toBe(1);
+    expect(frames[0].pixels).toEqual([0, 1, 1]);
+  });
+
+  it("gives frames their own tables when the shared one overflows", () => {
+    const { frames, info } = indexRgbaFrames(
+      [rgbaFrame(distinctColors(200, 0)), rgbaFrame(distinctColors(200, 1))],
+      200,
+      1
+    );
+
+    expect(info.globalColorTable).toBeUndefined();
+    expect(frames.map((frame) => frame.colorTable.length)).toEqual([200, 200]);
+    expect(frames[1].hasLocalColorTable).toBe(true);
+  });
+
+  it("rejects a frame with more colors than a table holds", () => {
+    const frames = [
+      rgbaFrame([[0, 0, 0, 255]]),
+      rgbaFrame(distinctColors(300)),
+    ];
+
+    expect(() => indexRgbaFrames(frames, 300, 1)).toThrow(
+      "Frame 2 has 300 colors; at most 256 are supported without quantizing"
+    );
+  });
+
+  it("leaves room for the transparent entry", () => {
+    const pixels: Rgba[] = [...distinctColors(256), [0, 0, 0, 0]];
+
+    expect(() => indexRgbaFrames([rgbaFrame(pixels)], 257, 1)).toThrow(
+      "Frame 1 has 256 colors; at most 255"
+    );
+  });
+
+  it("quantizes to one shared table when asked to", () => {
+    const pixels: Rgba[] = [...distinctColors(300), [0, 0, 0, 0]];
+    const { frames, info } = indexRgbaFrames([rgbaFrame(pixels)], 301, 1, {
+      quantize: true,
+    });
+    const [frame] = frames;
+
+    expect(frame.colorTable).toHaveLength(256);
+    expect(info.globalColorTable).toBe(frame.colorTable);
+    expect(frame.transparentIndex).toBe(255);
+    expect(frame.pixels[300]).toBe(255);
+
+    // Every opaque pixel lands on a nearby opaque entry
+    pixels.slice(0, 300).forEach((rgba, i) => {
+      expect(frame.pixels[i]).toBeLessThan(255);
+      const entry = frame.colorTable[frame.pixels[i]];
+      entry.forEach((value, c) =>
+        expect(Math.abs(value - rgba[c])).toBeLessThanOrEqual(8)
+      );
+    });
+  });
+});
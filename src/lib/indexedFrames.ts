@@ -0,0 +1,202 @@
+import { rgbKey } from "./color";
+import { DISPOSAL_BACKGROUND } from "./compositor";
+import { medianCut } from "./quantize";
+import type { DecodedGif } from "./gifDecoder";
+import { buildPatch } from "./remap";
+import type { GifFrame } from "./types";
+
+// Largest color table a GIF can hold
+const MAX_COLORS = 256;
+
+// Pixels with less alpha than this become transparent
+const ALPHA_THRESHOLD = 128;
+
+// A full-color animation frame, e.g. a sprite sheet cell or a PNG frame
+export interface RgbaFrame {
+  data: ArrayLike<number>;
+  width: number;
+  height: number;
+  // Position on the logical screen
+  left: number;
+  top: number;
+  delay: number;
+}
+
+export interface IndexOptions {
+  // Reduce colors with median cut instead of failing when a frame has more
+  // than a GIF color table can hold
+  quantize?: boolean;
+}
+
+type Rgb = [number, number, number];
+
+// Opaque colors of a frame, keyed by rgbKey, with their pixel counts
+const countColors = ({ data }: RgbaFrame) => {
+  const counts = new Map<string, { rgb: Rgb; count: number }>();
+  let hasTransparency = false;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < ALPHA_THRESHOLD) {
+      hasTransparency = true;
+      continue;
+    }
+    const rgb: Rgb = [data[i], data[i + 1], data[i + 2]];
+    const key = rgbKey(rgb);
+    const current = counts.get(key);
+    if (current) {
+      current.count++;
+    } else {
+      counts.set(key, { rgb, count: 1 });
+    }
+  }
+  return { counts, hasTransparency };
+};
+
+// Color table plus the index of each color key, with a transparent entry
+// appended when needed
+const buildTable = (colors: Rgb[], hasTransparency: boolean) => {
+  const colorTable = [...colors];
+  const transparentIndex = hasTransparency ? colorTable.length : undefined;
+  if (hasTransparency) colorTable.push([0, 0, 0]);
+  return { colorTable, transparentIndex };
+};
+
+const nearestIndex = (rgb: Rgb, colorTable: Rgb[], count: number) => {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < count; i++) {
+    const entry = colorTable[i];
+    const distance =
+      (rgb[0] - entry[0]) ** 2 +
+      (rgb[1] - entry[1]) ** 2 +
+      (rgb[2] - entry[2]) ** 2;
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+// Convert full-color frames into indexed frames, so they go through the same
+// remap and export workflow as a decoded GIF. Frames share one color table
+// when all their colors fit in it, otherwise each frame gets its own; frames
+// with too many colors fail unless options.quantize is set, which reduces the
+// whole animation to one shared table. Each frame clears its rect afterwards,
+// since every frame is a complete image.
+export const indexRgbaFrames = (
+  rgbaFrames: RgbaFrame[],
+  screenWidth: number,
+  screenHeight: number,
+  options: IndexOptions = {}
+): DecodedGif => {
+  const frameColors = rgbaFrames.map(countColors);
+  const limitFor = (hasTransparency: boolean) =>
+    hasTransparency ? MAX_COLORS - 1 : MAX_COLORS;
+
+  // Merge counts across frames for the shared table
+  const allColors = new Map<string, { rgb: Rgb; count: number }>();
+  frameColors.forEach(({ counts }) =>
+    counts.forEach(({ rgb, count }, key) => {
+      const current = allColors.get(key);
+      if (current) {
+        current.count += count;
+      } else {
+        allColors.set(key, { rgb, count });
+      }
+    })
+  );
+  const anyTransparency = frameColors.some((f) => f.hasTransparency);
+  const sharedFits = allColors.size <= limitFor(anyTransparency);
+
+  const overfull = frameColors.findIndex(
+    ({ counts, hasTransparency }) => counts.size > limitFor(hasTransparency)
+  );
+  if (overfull >= 0 && !options.quantize) {
+    const { counts, hasTransparency } = frameColors[overfull];
+    throw new Error(
+      `Frame ${overfull + 1} has ${counts.size} colors; at most ` +
+        `${limitFor(hasTransparency)} are supported without quantizing`
+    );
+  }
+
+  // One table for every frame, either exact or reduced by median cut
+  const shared =
+    sharedFits || overfull >= 0
+      ? buildTable(
+          sharedFits
+            ? Array.from(allColors.values(), ({ rgb }) => rgb)
+            : medianCut(
+                Array.from(allColors.values(), ({ rgb, count }) => ({
+                  value: rgb,
+                  weight: count,
+                })),
+                limitFor(anyTransparency)
+              ).map((rgb): Rgb => [
+                Math.round(rgb[0]),
+                Math.round(rgb[1]),
+                Math.round(rgb[2]),
+              ]),
+          anyTransparency
+        )
+      : null;
+
+  const frames: GifFrame[] = rgbaFrames.map((frame, frameIndex) => {
+    const { data, width, height, left, top, delay } = frame;
+    const { counts, hasTransparency } = frameColors[frameIndex];
+    const { colorTable, transparentIndex } =
+      shared ??
+      buildTable(
+        Array.from(counts.values(), ({ rgb }) => rgb),
+        hasTransparency
+      );
+
+    // Exact colors map to their own entry; quantized ones to the nearest
+    const opaqueCount =
+      transparentIndex === undefined ? colorTable.length : transparentIndex;
+    const indexByColor = new Map<string, number>();
+    colorTable.slice(0, opaqueCount).forEach((rgb, index) => {
+      indexByColor.set(rgbKey(rgb), index);
+    });
+
+    const pixels = new Array<number>(width * height);
+    for (let i = 0; i < pixels.length; i++) {
+      const offset = i * 4;
+      if (data[offset + 3] < ALPHA_THRESHOLD) {
+        pixels[i] = transparentIndex!;
+        continue;
+      }
+
+      const rgb: Rgb = [data[offset], data[offset + 1], data[offset + 2]];
+      const key = rgbKey(rgb);
+      let index = indexByColor.get(key);
+      if (index === undefined) {
+        index = nearestIndex(rgb, colorTable, opaqueCount);
+        indexByColor.set(key, index);
+      }
+      pixels[i] = index;
+    }
+
+    return {
+      dims: { width, height, top, left },
+      delay,
+      disposalType: DISPOSAL_BACKGROUND,
+      pixels,
+      transparentIndex,
+      colorTable,
+      hasLocalColorTable: !shared,
+      patch: buildPatch(pixels, colorTable, transparentIndex),
+    };
+  });
+
+  return {
+    frames,
+    info: {
+      width: screenWidth,
+      height: screenHeight,
+      backgroundColorIndex: 0,
+      globalColorTable: shared?.colorTable,
+      loopCount: 0,
+    },
+  };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { inspectPixel, pointerToPixel } from "./inspect";
+import { makeFrame } from "./testFrames";
+
+describe("pointerToPixel", () => {
+  const rect = { left: 100, top: 50, width: 40, height: 20 };
+
+  it("scales the pointer by the canvas zoom", () => {
+    // A 10x5 screen shown at 4x
+    expect(pointerToPixel(100, 50, rect, 10, 5)).toEqual([0, 0]);
+    expect(pointerToPixel(103.9, 53.9, rect, 10, 5)).toEqual([0, 0]);
+    expect(pointerToPixel(104, 54, rect, 10, 5)).toEqual([1, 1]);
+    expect(pointerToPixel(139.9, 69.9, rect, 10, 5)).toEqual([9, 4]);
+  });
+
+  it("returns null outside the screen", () => {
+    expect(pointerToPixel(99, 60, rect, 10, 5)).toBeNull();
+    expect(pointerToPixel(120, 49, rect, 10, 5)).toBeNull();
+    expect(pointerToPixel(140, 60, rect, 10, 5)).toBeNull();
+    expect(pointerToPixel(120, 70, rect, 10, 5)).toBeNull();
+  });
+});
+
+describe("inspectPixel", () => {
+  // A 2x2 frame at (3, 1) whose last pixel is transparent
+  const frame = makeFrame({
+    pixels: [0, 1, 1, 2],
+    colorTable: [
+      [255, 0, 0],
+      [0, 0, 255],
+      [0, 0, 0],
+    ],
+    width: 2,
+    height: 2,
+    left: 3,
+    top: 1,
+    transparentIndex: 2,
+  });
+
+  it("reads the frame's pixel relative to its offset", () => {
+    expect(inspectPixel(frame, 4, 1)).toEqual({
+      x: 4,
+      y: 1,
+      frameX: 1,
+      frameY: 0,
+      colorIndex: 1,
+      transparentIndex: 2,
+      isTransparent: false,
+    });
+  });
+
+  it("flags pixels that use the transparent index", () => {
+    expect(inspectPixel(frame, 4, 2)).toMatchObject({
+      colorIndex: 2,
+      isTransparent: true,
+    });
+  });
+
+  it("reports no frame pixel outside the frame's rect", () => {
+    [
+      [2, 1],
+      [5, 1],
+      [3, 0],
+      [3, 3],
+    ].forEach(([x, y]) =>
+      expect(inspectPixel(frame, x, y)).toEqual({
+        x,
+        y,
+        transparentIndex: 2,
+        isTransparent: false,
+      })
+    );
+  });
+});
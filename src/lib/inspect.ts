@@ -0,0 +1,59 @@
+import type { GifFrame } from "./types";
+
+export interface PixelInspection {
+  // Position on the logical screen
+  x: number;
+  y: number;
+  // Position inside the frame's rect; undefined when the frame doesn't cover
+  // the pixel, so an earlier frame shows there
+  frameX?: number;
+  frameY?: number;
+  // Color table index of the frame's pixel
+  colorIndex?: number;
+  transparentIndex?: number;
+  // The frame's pixel uses transparentIndex and lets earlier frames through
+  isTransparent: boolean;
+}
+
+// Logical screen pixel under a pointer position on a canvas that may be
+// zoomed and scaled by CSS, or null when the position is outside the screen
+export const pointerToPixel = (
+  clientX: number,
+  clientY: number,
+  rect: { left: number; top: number; width: number; height: number },
+  width: number,
+  height: number
+): [number, number] | null => {
+  const x = Math.floor(((clientX - rect.left) / rect.width) * width);
+  const y = Math.floor(((clientY - rect.top) / rect.height) * height);
+  if (x < 0 || y < 0 || x >= width || y >= height) return null;
+  return [x, y];
+};
+
+// Describe what a frame contributes at a logical screen pixel, taking the
+// frame's offset on the screen into account
+export const inspectPixel = (
+  frame: GifFrame,
+  x: number,
+  y: number
+): PixelInspection => {
+  const { left, top, width, height } = frame.dims;
+  const frameX = x - left;
+  const frameY = y - top;
+  const { transparentIndex } = frame;
+
+  if (frameX < 0 || frameY < 0 || frameX >= width || frameY >= height) {
+    return { x, y, transparentIndex, isTransparent: false };
+  }
+
+  const colorIndex = frame.pixels[frameY * width + frameX];
+  return {
+    x,
+    y,
+    frameX,
+    frameY,
+    colorIndex,
+    transparentIndex,
+    isTransparent: colorIndex === transparentIndex,
+  };
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { rgbKey } from "./color";
+import { countColorByFrame, dimOtherColors, tintColor } from "./isolate";
+import { MISSING_COLOR } from "./palette";
+import { makeFrame } from "./testFrames";
+
+const RED: [number, number, number] = [255, 0, 0];
+const BLUE: [number, number, number] = [0, 0, 255];
+
+describe("countColorByFrame", () => {
+  it("counts the color's pixels in each frame", () => {
+    const frames = [
+      makeFrame({
+        pixels: [0, 1, 0, 0],
+        colorTable: [RED, BLUE],
+        width: 2,
+        height: 2,
+      }),
+      // The color sits at another index in this frame's table
+      makeFrame({
+        pixels: [0, 1],
+        colorTable: [BLUE, RED],
+        width: 2,
+        height: 1,
+      }),
+      makeFrame({ pixels: [0], colorTable: [BLUE], width: 1, height: 1 }),
+    ];
+
+    expect(countColorByFrame(frames, rgbKey(RED))).toEqual([3, 1, 0]);
+  });
+
+  it("skips transparent pixels", () => {
+    const frame = makeFrame({
+      pixels: [0, 1, 1],
+      colorTable: [RED, RED],
+      width: 3,
+      height: 1,
+      transparentIndex: 1,
+    });
+
+    expect(countColorByFrame([frame], rgbKey(RED))).toEqual([1]);
+  });
+
+  it("counts indices past the table as the missing color", () => {
+    const frame = makeFrame({
+      pixels: [0, 5, 5],
+      colorTable: [RED],
+      width: 3,
+      height: 1,
+    });
+
+    expect(countColorByFrame([frame], rgbKey(MISSING_COLOR))).toEqual([2]);
+  });
+});
+
+describe("isolating a color", () => {
+  // Red, blue and a transparent pixel that holds red
+  const reference = [255, 0, 0, 255, 0, 0, 255, 255, 255, 0, 0, 0];
+  // The same pixels after a remap
+  const image = [0, 200, 0, 255, 100, 50, 250, 255, 10, 10, 10, 0];
+
+  it("dims every pixel that isn't the color in the reference", () => {
+    expect([...dimOtherColors(image, reference, RED, 0.8)]).toEqual([
+      0, 200, 0, 255, 20, 10, 50, 255, 2, 2, 2, 0,
+    ]);
+  });
+
+  it("tints only pixels that show the color in the reference", () => {
+    expect([...tintColor(image, reference, RED, [255, 0, 255])]).toEqual([
+      255, 0, 255, 255, 100, 50, 250, 255, 10, 10, 10, 0,
+    ]);
+  });
+});
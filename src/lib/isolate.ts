@@ -0,0 +1,69 @@
+import { rgbKey } from "./color";
+import { MISSING_COLOR } from "./palette";
+import type { GifFrame } from "./types";
+
+// How many pixels of each frame use the given palette color
+export const countColorByFrame = (
+  frames: GifFrame[],
+  color: string
+): number[] =>
+  frames.map((frame) => {
+    // Compare table entries once instead of every pixel's color
+    const matches = frame.colorTable.map((rgb) => rgbKey(rgb) === color);
+    const missingMatches = rgbKey(MISSING_COLOR) === color;
+
+    let count = 0;
+    frame.pixels.forEach((pixelIndex) => {
+      if (pixelIndex === frame.transparentIndex) return;
+      if (matches[pixelIndex] ?? missingMatches) count++;
+    });
+    return count;
+  });
+
+// Whether the pixel at an RGBA offset shows the color
+const isColorAt = (
+  reference: ArrayLike<number>,
+  offset: number,
+  rgb: [number, number, number]
+) =>
+  reference[offset + 3] !== 0 &&
+  reference[offset] === rgb[0] &&
+  reference[offset + 1] === rgb[1] &&
+  reference[offset + 2] === rgb[2];
+
+// Dim every pixel that doesn't show the color in the reference image. The
+// reference is the original view, so the remapped view can be isolated by
+// where the original color was.
+export const dimOtherColors = (
+  image: ArrayLike<number>,
+  reference: ArrayLike<number>,
+  rgb: [number, number, number],
+  amount = 0.8
+): Uint8ClampedArray => {
+  const result = Uint8ClampedArray.from(image);
+  for (let offset = 0; offset < result.length; offset += 4) {
+    if (isColorAt(reference, offset, rgb)) continue;
+    result[offset] *= 1 - amount;
+    result[offset + 1] *= 1 - amount;
+    result[offset + 2] *= 1 - amount;
+  }
+  return result;
+};
+
+// Paint the pixels that show the color in the reference image with a tint
+export const tintColor = (
+  image: ArrayLike<number>,
+  reference: ArrayLike<number>,
+  rgb: [number, number, number],
+  tint: [number, number, number]
+): Uint8ClampedArray => {
+  const result = Uint8ClampedArray.from(image);
+  for (let offset = 0; offset < result.length; offset += 4) {
+    if (!isColorAt(reference, offset, rgb)) continue;
+    result[offset] = tint[0];
+    result[offset + 1] = tint[1];
+    result[offset + 2] = tint[2];
+    result[offset + 3] = 255;
+  }
+  return result;
+};
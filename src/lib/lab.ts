@@ -0,0 +1,150 @@
+// CIELAB conversions (sRGB, D65 white point) and perceptual color difference
+
+export type Lab = [number, number, number];
+export type Lch = [number, number, number];
+
+// D65 reference white
+const WHITE_X = 0.95047;
+const WHITE_Y = 1.0;
+const WHITE_Z = 1.08883;
+
+// sRGB channel (0-255) to linear light (0-1)
+export const srgbToLinear = (channel: number): number => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+// Linear light (0-1) to sRGB channel (0-255), clamped and rounded
+export const linearToSrgb = (value: number): number => {
+  const c =
+    value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, c)) * 255);
+};
+
+const labF = (t: number): number =>
+  t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+
+const labFInverse = (t: number): number =>
+  t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27);
+
+export const rgbToLab = (rgb: ArrayLike<number>): Lab => {
+  const r = srgbToLinear(rgb[0]);
+  const g = srgbToLinear(rgb[1]);
+  const b = srgbToLinear(rgb[2]);
+
+  const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / WHITE_X;
+  const y = (0.2126729 * r + 0.7151522 * g + 0.072175 * b) / WHITE_Y;
+  const z = (0.0193339 * r + 0.119192 * g + 0.9503041 * b) / WHITE_Z;
+
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+export const labToRgb = (lab: Lab): [number, number, number] => {
+  const fy = (lab[0] + 16) / 116;
+  const fx = fy + lab[1] / 500;
+  const fz = fy - lab[2] / 200;
+
+  const x = labFInverse(fx) * WHITE_X;
+  const y = labFInverse(fy) * WHITE_Y;
+  const z = labFInverse(fz) * WHITE_Z;
+
+  const r = 3.2404542 * x - 1.5371385 * y - 0.4985314 * z;
+  const g = -0.969266 * x + 1.8760108 * y + 0.041556 * z;
+  const b = 0.0556434 * x - 0.2040259 * y + 1.0572252 * z;
+
+  return [linearToSrgb(r), linearToSrgb(g), linearToSrgb(b)];
+};
+
+// Lightness, chroma and hue angle (degrees)
+export const labToLch = (lab: Lab): Lch => {
+  const chroma = Math.hypot(lab[1], lab[2]);
+  let hue = (Math.atan2(lab[2], lab[1]) * 180) / Math.PI;
+  if (hue < 0) hue += 360;
+  return [lab[0], chroma, hue];
+};
+
+export const lchToLab = (lch: Lch): Lab => {
+  const radians = (lch[2] * Math.PI) / 180;
+  return [lch[0], lch[1] * Math.cos(radians), lch[1] * Math.sin(radians)];
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// CIEDE2000 color difference. Around 1 is a just-noticeable difference,
+// above ~10 colors read as clearly different.
+export const deltaE = (lab1: Lab, lab2: Lab): number => {
+  const [l1, a1, b1] = lab1;
+  const [l2, a2, b2] = lab2;
+
+  const c1 = Math.hypot(a1, b1);
+  const c2 = Math.hypot(a2, b2);
+  const cMean = (c1 + c2) / 2;
+  const g = 0.5 * (1 - Math.sqrt(cMean ** 7 / (cMean ** 7 + 25 ** 7)));
+
+  const a1p = a1 * (1 + g);
+  const a2p = a2 * (1 + g);
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+
+  const hueAngle = (b: number, ap: number) => {
+    if (b === 0 && ap === 0) return 0;
+    const h = toDegrees(Math.atan2(b, ap));
+    return h < 0 ? h + 360 : h;
+  };
+  const h1p = hueAngle(b1, a1p);
+  const h2p = hueAngle(b2, a2p);
+
+  const dLp = l2 - l1;
+  const dCp = c2p - c1p;
+
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(dhp / 2));
+
+  const lpMean = (l1 + l2) / 2;
+  const cpMean = (c1p + c2p) / 2;
+
+  let hpMean = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hpMean /= 2;
+    else if (h1p + h2p < 360) hpMean = (hpMean + 360) / 2;
+    else hpMean = (hpMean - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(hpMean - 30)) +
+    0.24 * Math.cos(toRadians(2 * hpMean)) +
+    0.32 * Math.cos(toRadians(3 * hpMean + 6)) -
+    0.2 * Math.cos(toRadians(4 * hpMean - 63));
+
+  const dTheta = 30 * Math.exp(-(((hpMean - 275) / 25) ** 2));
+  const rc = 2 * Math.sqrt(cpMean ** 7 / (cpMean ** 7 + 25 ** 7));
+  const sl =
+    1 + (0.015 * (lpMean - 50) ** 2) / Math.sqrt(20 + (lpMean - 50) ** 2);
+  const sc = 1 + 0.045 * cpMean;
+  const sh = 1 + 0.015 * cpMean * t;
+  const rt = -Math.sin(toRadians(2 * dTheta)) * rc;
+
+  return Math.sqrt(
+    (dLp / sl) ** 2 +
+      (dCp / sc) ** 2 +
+      (dHp / sh) ** 2 +
+      rt * (dCp / sc) * (dHp / sh)
+  );
+};
+
+// Convenience for comparing two RGB colors directly
+export const rgbDeltaE = (
+  rgb1: ArrayLike<number>,
+  rgb2: ArrayLike<number>
+): number => deltaE(rgbToLab(rgb1), rgbToLab(rgb2));
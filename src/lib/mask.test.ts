@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { compositeFrames } from "./compositor";
+import {
+  createMask,
+  editMaskLayer,
+  getMaskLayer,
+  paintRect,
+  reorderMaskLayers,
+  setMaskTracked,
+  trackMask,
+} from "./mask";
+import { makeFrame } from "./testFrames";
+
+const RED: [number, number, number] = [255, 0, 0];
+const BLUE: [number, number, number] = [0, 0, 255];
+
+// A two pixel red sprite on a transparent 6x1 screen, one frame per
+// position. Each frame clears its rect so the sprite doesn't smear.
+const spriteAt = (...positions: number[]) =>
+  positions.map((left) =>
+    makeFrame({
+      pixels: [0, 0],
+      colorTable: [RED, BLUE],
+      width: 2,
+      height: 1,
+      left,
+      disposalType: 2,
+    })
+  );
+
+// Tracked mask over the 6x1 screen painted on the given frames, selecting x
+// from `from` to `to`
+const trackedMask = (painted: [number, number, number][]) =>
+  painted.reduce(
+    (mask, [frame, from, to]) =>
+      editMaskLayer(mask, frame, (layer) => {
+        layer.fill(0);
+        paintRect(layer, 6, 1, [from, 0], [to, 0], 1);
+      }),
+    setMaskTracked(createMask("mask-1", "Mask 1", 6, 1), true, 0)
+  );
+
+const selected = (layer: Uint8Array | undefined) =>
+  layer ? [...layer.keys()].filter((pixel) => layer[pixel]) : [];
+
+describe("getMaskLayer", () => {
+  it("uses one layer for every frame of an untracked mask", () => {
+    const mask = editMaskLayer(
+      createMask("mask-1", "Mask 1", 6, 1),
+      3,
+      (layer) => paintRect(layer, 6, 1, [0, 0], [1, 0], 1)
+    );
+
+    expect(selected(getMaskLayer(mask, 0))).toEqual([0, 1]);
+    expect(getMaskLayer(mask, 5)).toBe(getMaskLayer(mask, 0));
+  });
+
+  it("covers nothing before a tracked mask's first painted frame", () => {
+    const mask = trackedMask([[2, 0, 1]]);
+
+    expect(getMaskLayer(mask, 1)).toBeUndefined();
+    expect(selected(getMaskLayer(mask, 2))).toEqual([0, 1]);
+  });
+});
+
+describe("trackMask", () => {
+  const screensOf = (frames: ReturnType<typeof spriteAt>) =>
+    compositeFrames(frames, 6, 1);
+
+  it("moves the painted region along with the content under it", () => {
+    const mask = trackMask(
+      trackedMask([[0, 0, 1]]),
+      screensOf(spriteAt(0, 1, 3))
+    );
+
+    expect(selected(getMaskLayer(mask, 1))).toEqual([1, 2]);
+    expect(selected(getMaskLayer(mask, 2))).toEqual([3, 4]);
+  });
+
+  it("holds the layer in place while the content stands still", () => {
+    const mask = trackMask(
+      trackedMask([[0, 0, 1]]),
+      screensOf(spriteAt(0, 0))
+    );
+
+    expect(getMaskLayer(mask, 1)).toBe(mask.layers.get(0));
+  });
+
+  it("starts again from each painted frame", () => {
+    const mask = trackMask(
+      trackedMask([
+        [0, 0, 1],
+        [2, 2, 2],
+      ]),
+      screensOf(spriteAt(0, 1, 2, 3))
+    );
+
+    expect(selected(getMaskLayer(mask, 2))).toEqual([2]);
+    expect(selected(getMaskLayer(mask, 3))).toEqual([3]);
+  });
+
+  it("leaves untracked masks alone", () => {
+    const mask = createMask("mask-1", "Mask 1", 6, 1);
+
+    expect(trackMask(mask, screensOf(spriteAt(0, 1)))).toBe(mask);
+  });
+});
+
+describe("reorderMaskLayers", () => {
+  it("keeps the layer each frame showed, followed ones included", () => {
+    const mask = trackMask(
+      trackedMask([[0, 0, 1]]),
+      compositeFrames(spriteAt(0, 1, 2), 6, 1)
+    );
+    const reversed = reorderMaskLayers(mask, [2, 1, 0]);
+
+    expect(selected(getMaskLayer(reversed, 0))).toEqual([2, 3]);
+    expect(selected(getMaskLayer(reversed, 2))).toEqual([0, 1]);
+    expect(reversed.followed.size).toBe(0);
+  });
+});
@@ -0,0 +1,349 @@
+// Selection masks painted over the logical screen. A mapping bound to a mask
+// only recolors pixels inside it.
+export interface RegionMask {
+  id: string;
+  name: string;
+  // Logical screen size the mask covers
+  width: number;
+  height: number;
+  // When tracked, each painted frame keeps its own layer and the frames after
+  // it follow the painted region as it moves (see trackMask); otherwise a
+  // single layer covers every frame
+  tracked: boolean;
+  // Painted layers, 1 = selected, 0 = not selected, keyed by frame index (0
+  // when untracked)
+  layers: Map<number, Uint8Array>;
+  // Layers of a tracked mask's unpainted frames, keyed by frame index
+  followed: Map<number, Uint8Array>;
+}
+
+export const createMask = (
+  id: string,
+  name: string,
+  width: number,
+  height: number
+): RegionMask => ({
+  id,
+  name,
+  width,
+  height,
+  tracked: false,
+  layers: new Map(),
+  followed: new Map(),
+});
+
+// Layer in effect for a frame, or undefined when nothing is painted yet
+export const getMaskLayer = (
+  mask: RegionMask,
+  frameIndex: number
+): Uint8Array | undefined => {
+  if (!mask.tracked) return mask.layers.get(0);
+
+  let bestFrame = -1;
+  mask.layers.forEach((_, frame) => {
+    if (frame <= frameIndex && frame > bestFrame) bestFrame = frame;
+  });
+  if (bestFrame < 0) return undefined;
+  // Frames not followed yet hold the last painted layer
+  return bestFrame === frameIndex
+    ? mask.layers.get(bestFrame)
+    : mask.followed.get(frameIndex) ?? mask.layers.get(bestFrame);
+};
+
+// Return a copy of the mask with one frame's layer edited. Editing a tracked
+// mask starts from the layer the frame currently shows; trackMask then moves
+// the edit on to the frames after it.
+export const editMaskLayer = (
+  mask: RegionMask,
+  frameIndex: number,
+  edit: (layer: Uint8Array) => void
+): RegionMask => {
+  const key = mask.tracked ? frameIndex : 0;
+  const current = getMaskLayer(mask, frameIndex);
+  const layer = current
+    ? new Uint8Array(current)
+    : new Uint8Array(mask.width * mask.height);
+  edit(layer);
+
+  const layers = new Map(mask.layers);
+  layers.set(key, layer);
+  return { ...mask, layers };
+};
+
+// Switch between one shared layer and tracked layers, keeping what the given
+// frame currently shows
+export const setMaskTracked = (
+  mask: RegionMask,
+  tracked: boolean,
+  frameIndex: number
+): RegionMask => {
+  if (mask.tracked === tracked) return mask;
+
+  const layer = getMaskLayer(mask, frameIndex);
+  return {
+    ...mask,
+    tracked,
+    layers: layer ? new Map([[0, new Uint8Array(layer)]]) : new Map(),
+    followed: new Map(),
+  };
+};
+
+// Farthest a tracked region is followed from one frame to the next, in
+// screen pixels along each axis
+export const MAX_TRACK_SHIFT = 8;
+
+// Selected pixels compared when looking for where a region went; larger
+// regions are sampled evenly
+const TRACK_SAMPLES = 2000;
+
+// Shifts to try, smallest first, so that still content wins ties
+const TRACK_SHIFTS: [number, number][] = [];
+for (let dy = -MAX_TRACK_SHIFT; dy <= MAX_TRACK_SHIFT; dy++) {
+  for (let dx = -MAX_TRACK_SHIFT; dx <= MAX_TRACK_SHIFT; dx++) {
+    TRACK_SHIFTS.push([dx, dy]);
+  }
+}
+TRACK_SHIFTS.sort((a, b) => Math.hypot(...a) - Math.hypot(...b));
+
+// Whether two screen pixels look the same; fully transparent pixels match
+// whatever color they hold
+const isSamePixel = (
+  a: ArrayLike<number>,
+  i: number,
+  b: ArrayLike<number>,
+  j: number
+) =>
+  (a[i * 4 + 3] === 0 && b[j * 4 + 3] === 0) ||
+  (a[i * 4] === b[j * 4] &&
+    a[i * 4 + 1] === b[j * 4 + 1] &&
+    a[i * 4 + 2] === b[j * 4 + 2] &&
+    a[i * 4 + 3] === b[j * 4 + 3]);
+
+// Where the region a layer selects on one screen moved to on the next: the
+// shift under which most of its pixels keep their color
+const findShift = (
+  layer: Uint8Array,
+  from: ArrayLike<number>,
+  to: ArrayLike<number>,
+  width: number,
+  height: number
+): [number, number] => {
+  const selected: number[] = [];
+  layer.forEach((value, pixel) => {
+    if (value) selected.push(pixel);
+  });
+  const step = Math.max(1, Math.ceil(selected.length / TRACK_SAMPLES));
+  const samples = selected.filter((_, index) => index % step === 0);
+
+  let best: [number, number] = [0, 0];
+  let bestScore = -1;
+  for (const [dx, dy] of TRACK_SHIFTS) {
+    let score = 0;
+    for (const pixel of samples) {
+      const x = (pixel % width) + dx;
+      const y = Math.floor(pixel / width) + dy;
+      if (x < 0 || y < 0 || x >= width || y >= height) continue;
+      if (isSamePixel(from, pixel, to, y * width + x)) score++;
+    }
+    if (score > bestScore) {
+      best = [dx, dy];
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// Copy of a layer moved by whole pixels; what moves off the screen is lost
+const shiftLayer = (
+  layer: Uint8Array,
+  width: number,
+  height: number,
+  dx: number,
+  dy: number
+): Uint8Array => {
+  const shifted = new Uint8Array(layer.length);
+  layer.forEach((value, pixel) => {
+    if (!value) return;
+    const x = (pixel % width) + dx;
+    const y = Math.floor(pixel / width) + dy;
+    if (x >= 0 && y >= 0 && x < width && y < height) {
+      shifted[y * width + x] = value;
+    }
+  });
+  return shifted;
+};
+
+// Work out the layers of a tracked mask's unpainted frames from the
+// composited screen of every frame. Each unpainted frame gets the layer of
+// the frame before it, moved the way that layer's pixels moved between the
+// two screens, so a region painted once stays on content that moves.
+export const trackMask = (
+  mask: RegionMask,
+  screens: ArrayLike<number>[]
+): RegionMask => {
+  if (!mask.tracked) return mask;
+
+  const followed = new Map<number, Uint8Array>();
+  let current: Uint8Array | undefined;
+
+  screens.forEach((screen, frame) => {
+    const painted = mask.layers.get(frame);
+    if (painted) {
+      current = painted;
+      return;
+    }
+    if (!current) return;
+
+    const [dx, dy] = findShift(
+      current,
+      screens[frame - 1],
+      screen,
+      mask.width,
+      mask.height
+    );
+    // Still content keeps the same layer
+    if (dx !== 0 || dy !== 0) {
+      current = shiftLayer(current, mask.width, mask.height, dx, dy);
+    }
+    followed.set(frame, current);
+  });
+
+  return { ...mask, followed };
+};
+
+// Fill a circle of the given radius
+export const paintBrush = (
+  layer: Uint8Array,
+  width: number,
+  height: number,
+  centerX: number,
+  centerY: number,
+  radius: number,
+  value: 0 | 1
+) => {
+  const r = Math.max(0, radius);
+  for (let y = Math.ceil(centerY - r); y <= Math.floor(centerY + r); y++) {
+    if (y < 0 || y >= height) continue;
+    for (let x = Math.ceil(centerX - r); x <= Math.floor(centerX + r); x++) {
+      if (x < 0 || x >= width) continue;
+      if ((x - centerX) ** 2 + (y - centerY) ** 2 <= r * r) {
+        layer[y * width + x] = value;
+      }
+    }
+  }
+};
+
+// Brush along a line so fast strokes leave no gaps
+export const paintLine = (
+  layer: Uint8Array,
+  width: number,
+  height: number,
+  from: [number, number],
+  to: [number, number],
+  radius: number,
+  value: 0 | 1
+) => {
+  const steps = Math.max(
+    1,
+    Math.ceil(Math.hypot(to[0] - from[0], to[1] - from[1]))
+  );
+  for (let step = 0; step <= steps; step++) {
+    const t = step / steps;
+    paintBrush(
+      layer,
+      width,
+      height,
+      Math.round(from[0] + (to[0] - from[0]) * t),
+      Math.round(from[1] + (to[1] - from[1]) * t),
+      radius,
+      value
+    );
+  }
+};
+
+// Fill the rectangle spanned by two corners (inclusive)
+export const paintRect = (
+  layer: Uint8Array,
+  width: number,
+  height: number,
+  from: [number, number],
+  to: [number, number],
+  value: 0 | 1
+) => {
+  const left = Math.max(0, Math.min(from[0], to[0]));
+  const right = Math.min(width - 1, Math.max(from[0], to[0]));
+  const top = Math.max(0, Math.min(from[1], to[1]));
+  const bottom = Math.min(height - 1, Math.max(from[1], to[1]));
+
+  for (let y = top; y <= bottom; y++) {
+    layer.fill(value, y * width + left, y * width + right + 1);
+  }
+};
+
+// Select the 4-connected region of pixels with exactly the same RGBA value
+// as the starting pixel of the given screen image
+export const floodFillMask = (
+  layer: Uint8Array,
+  width: number,
+  height: number,
+  screen: ArrayLike<number>,
+  startX: number,
+  startY: number,
+  value: 0 | 1
+) => {
+  if (startX < 0 || startY < 0 || startX >= width || startY >= height) return;
+
+  const start = startY * width + startX;
+  const target = [0, 1, 2, 3].map((c) => screen[start * 4 + c]);
+  const matches = (pixel: number) =>
+    screen[pixel * 4] === target[0] &&
+    screen[pixel * 4 + 1] === target[1] &&
+    screen[pixel * 4 + 2] === target[2] &&
+    screen[pixel * 4 + 3] === target[3];
+
+  const visited = new Uint8Array(width * height);
+  const stack = [start];
+  visited[start] = 1;
+
+  while (stack.length > 0) {
+    const pixel = stack.pop()!;
+    layer[pixel] = value;
+
+    const x = pixel % width;
+    const neighbors = [
+      x > 0 ? pixel - 1 : -1,
+      x < width - 1 ? pixel + 1 : -1,
+      pixel - width,
+      pixel + width,
+    ];
+    for (const next of neighbors) {
+      if (next < 0 || next >= layer.length || visited[next]) continue;
+      visited[next] = 1;
+      if (matches(next)) stack.push(next);
+    }
+  }
+};
+
+// Move a tracked mask's layers along with their frames, where order lists the
+// old index of each new frame. Followed layers become painted ones, so every
+// frame keeps the layer it showed. Untracked masks cover every frame already.
+export const reorderMaskLayers = (
+  mask: RegionMask,
+  order: number[]
+): RegionMask => {
+  if (!mask.tracked) return mask;
+
+  const layers = new Map<number, Uint8Array>();
+  let previous: Uint8Array | undefined;
+
+  order.forEach((source, index) => {
+    const layer = getMaskLayer(mask, source);
+    if (layer === previous) return;
+
+    // An empty layer stops an earlier one carrying over to unpainted frames
+    layers.set(index, layer ?? new Uint8Array(mask.width * mask.height));
+    previous = layer;
+  });
+
+  return { ...mask, layers, followed: new Map() };
+};
@@ -0,0 +1,61 @@
+import { rgbKey } from "./color";
+import type { ColorCount, GifFrame } from "./types";
+
+// Color used for pixels whose index is outside the frame's color table,
+// matching how gifuct-js builds the frame patch
+export const MISSING_COLOR: [number, number, number] = [0, 0, 0];
+
+// Extract color palette from all frames, sorted by pixel count (descending)
+export const getPalette = (frames: GifFrame[]): ColorCount[] => {
+  const colorMap = new Map<
+    string,
+    { count: number; rgb: [number, number, number] }
+  >();
+
+  frames.forEach((frame) => {
+    const { pixels, colorTable, transparentIndex } = frame;
+
+    pixels.forEach((pixelIndex) => {
+      // Skip transparent pixels
+      if (pixelIndex === transparentIndex) return;
+
+      const entry = colorTable[pixelIndex] || MISSING_COLOR;
+      const colorKey = rgbKey(entry);
+
+      const current = colorMap.get(colorKey);
+      if (current) {
+        current.count++;
+      } else {
+        // Copy the entry so palette colors are plain tuples, not table views
+        colorMap.set(colorKey, { count: 1, rgb: [entry[0], entry[1], entry[2]] });
+      }
+    });
+  });
+
+  // Convert map to array and sort by count (descending)
+  return Array.from(colorMap.entries())
+    .map(([color, { count, rgb }]) => ({ color, count, rgb }))
+    .sort((a, b) => b.count - a.count);
+};
+
+// Extract a palette from raw RGBA pixels (e.g. a decoded PNG) the same way,
+// skipping fully transparent pixels
+export const getPaletteFromRgba = (data: ArrayLike<number>): ColorCount[] => {
+  const colorMap = new Map<string, ColorCount>();
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+
+    const rgb: [number, number, number] = [data[i], data[i + 1], data[i + 2]];
+    const colorKey = rgbKey(rgb);
+
+    const current = colorMap.get(colorKey);
+    if (current) {
+      current.count++;
+    } else {
+      colorMap.set(colorKey, { color: colorKey, count: 1, rgb });
+    }
+  }
+
+  return Array.from(colorMap.values()).sort((a, b) => b.count - a.count);
+};
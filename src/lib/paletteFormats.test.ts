@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  createPaletteDocument,
+  detectPaletteFormat,
+  formatCssVariables,
+  parsePaletteFile,
+  writePaletteFile,
+} from "./paletteFormats";
+import type { PaletteExportFormat, PaletteFile } from "./paletteFormats";
+import type { ColorCount, ColorMapping } from "./types";
+
+const encoder = new TextEncoder();
+
+const toBuffer = (contents: string | Uint8Array): ArrayBuffer => {
+  const bytes =
+    typeof contents === "string" ? encoder.encode(contents) : contents;
+  return bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength
+  ) as ArrayBuffer;
+};
+
+const palette: PaletteFile = {
+  colors: [{ rgb: [255, 0, 128], name: "Pink" }, { rgb: [0, 16, 32] }],
+};
+
+describe("parsePaletteFile", () => {
+  it("reads GIMP palettes with names and comments", () => {
+    const gpl = "GIMP Palette\nName: Test\nColumns: 4\n#\n255 0 128 Hot pink\n";
+
+    expect(parsePaletteFile("test.gpl", toBuffer(gpl))).toEqual({
+      name: "Test",
+      colors: [{ rgb: [255, 0, 128], name: "Hot pink" }],
+    });
+  });
+
+  it("reads JASC, Paint.NET and hex lists", () => {
+    const jasc = "JASC-PAL\r\n0100\r\n1\r\n1 2 3\r\n";
+    const paintNet = "; comment\nFF0A0B0C\n0d0e0f\n";
+    const hex = "#ff0000\n00ff00\n";
+
+    expect(parsePaletteFile("a.pal", toBuffer(jasc)).colors).toEqual([
+      { rgb: [1, 2, 3] },
+    ]);
+    expect(parsePaletteFile("a.txt", toBuffer(paintNet)).colors).toEqual([
+      { rgb: [10, 11, 12] },
+      { rgb: [13, 14, 15] },
+    ]);
+    expect(parsePaletteFile("a.hex", toBuffer(hex)).colors).toEqual([
+      { rgb: [255, 0, 0] },
+      { rgb: [0, 255, 0] },
+    ]);
+  });
+
+  it("reports the line of a bad color", () => {
+    expect(() =>
+      parsePaletteFile("a.gpl", toBuffer("GIMP Palette\n1 2 300\n"))
+    ).toThrow("Invalid color on line 2");
+    expect(() => parsePaletteFile("a.hex", toBuffer("ff00\n"))).toThrow(
+      "Invalid color on line 1"
+    );
+  });
+
+  it("rejects unknown and empty files", () => {
+    expect(() => parsePaletteFile("a.png", toBuffer("x"))).toThrow(
+      "Unsupported palette file: a.png"
+    );
+    expect(() => parsePaletteFile("a.hex", toBuffer("\n"))).toThrow(
+      "No colors found in a.hex"
+    );
+  });
+
+  it("detects the format from the content before the extension", () => {
+    expect(detectPaletteFormat("a.txt", toBuffer("GIMP Palette\n"))).toBe(
+      "gpl"
+    );
+    expect(detectPaletteFormat("a.HEX", toBuffer("ff0000"))).toBe("hex");
+  });
+});
+
+describe("writePaletteFile", () => {
+  const formats: [PaletteExportFormat, string][] = [
+    ["gpl", "a.gpl"],
+    ["pal", "a.pal"],
+    ["hex", "a.hex"],
+    ["ase", "a.ase"],
+  ];
+
+  it.each(formats)("writes %s files that read back", (format, fileName) => {
+    const parsed = parsePaletteFile(
+      fileName,
+      toBuffer(writePaletteFile(palette, format))
+    );
+
+    expect(parsed.colors.map((entry) => entry.rgb)).toEqual([
+      [255, 0, 128],
+      [0, 16, 32],
+    ]);
+  });
+
+  it("keeps color names in ASE files", () => {
+    const parsed = parsePaletteFile(
+      "a.ase",
+      toBuffer(writePaletteFile(palette, "ase"))
+    );
+    expect(parsed.colors[0].name).toBe("Pink");
+  });
+
+  it("writes numbered CSS variables", () => {
+    expect(formatCssVariables(palette)).toBe(
+      ":root {\n  --color-1: #ff0080; /* Pink */\n  --color-2: #001020;\n}\n"
+    );
+  });
+});
+
+describe("createPaletteDocument", () => {
+  it("lists what each color becomes and the mapping pairs", () => {
+    const counts: ColorCount[] = [
+      { color: "rgb(255,0,0)", count: 3, rgb: [255, 0, 0] },
+      { color: "rgb(0,0,255)", count: 1, rgb: [0, 0, 255] },
+    ];
+    const mapping: ColorMapping = {
+      originalColor: "rgb(255,0,0)",
+      originalRgb: [255, 0, 0],
+      newColor: "#00ff00",
+      newRgb: [0, 255, 0],
+    };
+
+    const document = createPaletteDocument(counts, counts, [mapping]);
+
+    expect(document.colors.map((entry) => entry.newRgb)).toEqual([
+      [0, 255, 0],
+      [0, 0, 255],
+    ]);
+    expect(document.mappings).toEqual([
+      { from: "#ff0000", to: "#00ff00" },
+    ]);
+  });
+});
@@ -0,0 +1,452 @@
+import { hexToRgb, rgbToHex } from "./color";
+import { labToRgb } from "./lab";
+import { buildColorLookup } from "./remap";
+import type { ColorCount, ColorMapping, FrameScope } from "./types";
+
+export interface PaletteEntry {
+  rgb: [number, number, number];
+  name?: string;
+}
+
+export interface PaletteFile {
+  name?: string;
+  colors: PaletteEntry[];
+}
+
+export type PaletteFormat = "gpl" | "pal" | "txt" | "hex" | "ase";
+
+// Formats palettes can be written as
+export type PaletteExportFormat = "gpl" | "pal" | "hex" | "ase" | "css";
+
+// Export document with usage counts and original -> new pairs
+export interface PaletteDocument {
+  name?: string;
+  colors: {
+    color: string;
+    rgb: [number, number, number];
+    count: number;
+    // What the color becomes, including colors captured by tolerance
+    newColor: string;
+    newRgb: [number, number, number];
+  }[];
+  remapped: {
+    color: string;
+    rgb: [number, number, number];
+    count: number;
+  }[];
+  mappings: {
+    from: string;
+    to: string;
+    tolerance?: number;
+    frames?: FrameScope;
+    maskId?: string;
+  }[];
+}
+
+const textDecoder = new TextDecoder();
+
+const clampChannel = (value: number) =>
+  Math.round(Math.min(255, Math.max(0, value)));
+
+// Non-empty lines with surrounding whitespace removed
+const readLines = (text: string): string[] =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+const parseChannels = (
+  parts: string[],
+  lineNumber: number
+): [number, number, number] => {
+  const rgb = parts.slice(0, 3).map(Number);
+  const isChannel = (c: number) => Number.isInteger(c) && c >= 0 && c <= 255;
+  if (rgb.length < 3 || !rgb.every(isChannel)) {
+    throw new Error(`Invalid color on line ${lineNumber}`);
+  }
+  return rgb as [number, number, number];
+};
+
+// GIMP palette: "GIMP Palette" header, optional Name/Columns, "R G B name"
+export const parseGpl = (text: string): PaletteFile => {
+  const lines = text.split(/\r?\n/);
+  if (lines[0]?.trim() !== "GIMP Palette") {
+    throw new Error("Missing GIMP Palette header");
+  }
+
+  const palette: PaletteFile = { colors: [] };
+
+  lines.slice(1).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+
+    if (/^name:/i.test(line)) {
+      palette.name = line.slice(5).trim();
+      return;
+    }
+    if (/^columns:/i.test(line)) return;
+
+    const parts = line.split(/\s+/);
+    const rgb = parseChannels(parts, index + 2);
+    const name = parts.slice(3).join(" ");
+    palette.colors.push(name ? { rgb, name } : { rgb });
+  });
+
+  return palette;
+};
+
+// JASC-PAL (Paint Shop Pro): header, version, count, then "R G B" lines
+export const parseJascPal = (text: string): PaletteFile => {
+  const lines = readLines(text);
+  if (lines[0] !== "JASC-PAL") {
+    throw new Error("Missing JASC-PAL header");
+  }
+
+  const count = Number(lines[2]);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error("Invalid JASC-PAL color count");
+  }
+
+  const colorLines = lines.slice(3, 3 + count);
+  if (colorLines.length < count) {
+    throw new Error(`Expected ${count} colors, found ${colorLines.length}`);
+  }
+
+  return {
+    colors: colorLines.map((line, index) => ({
+      rgb: parseChannels(line.split(/\s+/), index + 4),
+    })),
+  };
+};
+
+// Paint.NET: ";" comments, one AARRGGBB (alpha ignored) or RRGGBB per line
+export const parsePaintNet = (text: string): PaletteFile => {
+  const colors: PaletteEntry[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith(";")) return;
+
+    const match = /^(?:[a-f\d]{2})?([a-f\d]{6})$/i.exec(line);
+    if (!match) throw new Error(`Invalid color on line ${index + 1}`);
+    colors.push({ rgb: hexToRgb(match[1]) });
+  });
+
+  return { colors };
+};
+
+// Lospec .hex: one RRGGBB per line
+export const parseHexList = (text: string): PaletteFile => {
+  const colors: PaletteEntry[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    if (!/^#?[a-f\d]{6}$/i.test(line)) {
+      throw new Error(`Invalid color on line ${index + 1}`);
+    }
+    colors.push({ rgb: hexToRgb(line) });
+  });
+
+  return { colors };
+};
+
+// Adobe Swatch Exchange: big-endian binary with color and group blocks
+export const parseAse = (buffer: ArrayBuffer): PaletteFile => {
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  const need = (bytes: number) => {
+    if (offset + bytes > view.byteLength) {
+      throw new Error("Unexpected end of ASE file");
+    }
+  };
+
+  need(12);
+  const signature = textDecoder.decode(new Uint8Array(buffer, 0, 4));
+  if (signature !== "ASEF") throw new Error("Missing ASEF signature");
+  offset = 8; // Skip signature and version
+  const blockCount = view.getUint32(offset);
+  offset += 4;
+
+  const colors: PaletteEntry[] = [];
+
+  for (let block = 0; block < blockCount; block++) {
+    need(6);
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    offset += 6;
+    need(length);
+    const blockEnd = offset + length;
+
+    // 0x0001 is a color entry; group start/end blocks carry no colors
+    if (type === 0x0001) {
+      const nameLength = view.getUint16(offset);
+      offset += 2;
+
+      let name = "";
+      for (let i = 0; i < nameLength; i++) {
+        const code = view.getUint16(offset + i * 2);
+        if (code !== 0) name += String.fromCharCode(code);
+      }
+      offset += nameLength * 2;
+
+      const model = textDecoder.decode(new Uint8Array(buffer, offset, 4));
+      offset += 4;
+      const value = (index: number) => view.getFloat32(offset + index * 4);
+
+      let rgb: [number, number, number];
+      switch (model) {
+        case "RGB ":
+          rgb = [value(0), value(1), value(2)].map((c) =>
+            clampChannel(c * 255)
+          ) as [number, number, number];
+          break;
+        case "CMYK": {
+          const k = value(3);
+          rgb = [value(0), value(1), value(2)].map((c) =>
+            clampChannel(255 * (1 - c) * (1 - k))
+          ) as [number, number, number];
+          break;
+        }
+        case "LAB ":
+          // Lightness is stored as 0..1
+          rgb = labToRgb([value(0) * 100, value(1), value(2)]);
+          break;
+        case "Gray": {
+          const gray = clampChannel(value(0) * 255);
+          rgb = [gray, gray, gray];
+          break;
+        }
+        default:
+          throw new Error(`Unsupported ASE color model "${model}"`);
+      }
+
+      colors.push(name ? { rgb, name } : { rgb });
+    }
+
+    offset = blockEnd;
+  }
+
+  return { colors };
+};
+
+// Guess the format from the file extension, then from the content
+export const detectPaletteFormat = (
+  fileName: string,
+  buffer: ArrayBuffer
+): PaletteFormat | null => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  const head = textDecoder.decode(
+    new Uint8Array(buffer, 0, Math.min(16, buffer.byteLength))
+  );
+
+  if (head.startsWith("ASEF")) return "ase";
+  if (head.startsWith("GIMP Palette")) return "gpl";
+  if (head.startsWith("JASC-PAL")) return "pal";
+
+  switch (extension) {
+    case "gpl":
+    case "pal":
+    case "txt":
+    case "hex":
+    case "ase":
+      return extension;
+    default:
+      return null;
+  }
+};
+
+// Parse any supported palette file. Throws with a readable message if the
+// file is malformed or the format is unknown.
+export const parsePaletteFile = (
+  fileName: string,
+  buffer: ArrayBuffer
+): PaletteFile => {
+  const format = detectPaletteFormat(fileName, buffer);
+  const text = () => textDecoder.decode(buffer);
+
+  let palette: PaletteFile;
+  switch (format) {
+    case "gpl":
+      palette = parseGpl(text());
+      break;
+    case "pal":
+      palette = parseJascPal(text());
+      break;
+    case "txt":
+      palette = parsePaintNet(text());
+      break;
+    case "hex":
+      palette = parseHexList(text());
+      break;
+    case "ase":
+      palette = parseAse(buffer);
+      break;
+    default:
+      throw new Error(`Unsupported palette file: ${fileName}`);
+  }
+
+  if (palette.colors.length === 0) {
+    throw new Error(`No colors found in ${fileName}`);
+  }
+  return palette;
+};
+
+// Palette file contents for a counted palette, most used colors first
+export const toPaletteFile = (
+  palette: ColorCount[],
+  name?: string
+): PaletteFile => ({
+  ...(name ? { name } : {}),
+  colors: palette.map((color) => ({
+    rgb: [color.rgb[0], color.rgb[1], color.rgb[2]],
+  })),
+});
+
+export const formatGpl = (palette: PaletteFile): string => {
+  const lines = ["GIMP Palette"];
+  if (palette.name) lines.push(`Name: ${palette.name}`);
+  lines.push("#");
+  palette.colors.forEach(({ rgb, name }) => {
+    const channels = rgb.map((c) => String(c).padStart(3)).join(" ");
+    lines.push(`${channels}\t${name || rgbToHex(rgb)}`);
+  });
+  return lines.join("\n") + "\n";
+};
+
+export const formatJascPal = (palette: PaletteFile): string =>
+  [
+    "JASC-PAL",
+    "0100",
+    String(palette.colors.length),
+    ...palette.colors.map(({ rgb }) => rgb.join(" ")),
+  ].join("\r\n") + "\r\n";
+
+export const formatHexList = (palette: PaletteFile): string =>
+  palette.colors.map(({ rgb }) => rgbToHex(rgb).slice(1)).join("\n") + "\n";
+
+// CSS custom properties, e.g. "--color-1: #ff0080;"
+export const formatCssVariables = (
+  palette: PaletteFile,
+  prefix = "color"
+): string => {
+  const lines = palette.colors.map(
+    ({ rgb, name }, index) =>
+      `  --${prefix}-${index + 1}: ${rgbToHex(rgb)};` +
+      (name ? ` /* ${name} */` : "")
+  );
+  const header = palette.name ? `/* ${palette.name} */\n` : "";
+  return `${header}:root {\n${lines.join("\n")}\n}\n`;
+};
+
+// Adobe Swatch Exchange with one RGB color block per entry
+export const formatAse = (palette: PaletteFile): Uint8Array => {
+  const blocks = palette.colors.map(({ rgb, name }) => ({
+    rgb,
+    // UTF-16 name including the terminating null
+    name: `${name || rgbToHex(rgb)}\0`,
+  }));
+  const blockLength = (name: string) => 2 + name.length * 2 + 4 + 12 + 2;
+  const totalLength = blocks.reduce(
+    (total, block) => total + 6 + blockLength(block.name),
+    12
+  );
+
+  const bytes = new Uint8Array(totalLength);
+  const view = new DataView(bytes.buffer);
+  const writeAscii = (text: string, at: number) => {
+    for (let i = 0; i < text.length; i++) bytes[at + i] = text.charCodeAt(i);
+  };
+
+  writeAscii("ASEF", 0);
+  view.setUint16(4, 1); // Version 1.0
+  view.setUint16(6, 0);
+  view.setUint32(8, blocks.length);
+
+  let offset = 12;
+  blocks.forEach(({ rgb, name }) => {
+    view.setUint16(offset, 0x0001);
+    view.setUint32(offset + 2, blockLength(name));
+    offset += 6;
+
+    view.setUint16(offset, name.length);
+    offset += 2;
+    for (let i = 0; i < name.length; i++) {
+      view.setUint16(offset, name.charCodeAt(i));
+      offset += 2;
+    }
+
+    writeAscii("RGB ", offset);
+    offset += 4;
+    rgb.forEach((channel) => {
+      view.setFloat32(offset, channel / 255);
+      offset += 4;
+    });
+    view.setUint16(offset, 2); // Normal (not global or spot) color
+    offset += 2;
+  });
+
+  return bytes;
+};
+
+export const writePaletteFile = (
+  palette: PaletteFile,
+  format: PaletteExportFormat
+): string | Uint8Array => {
+  switch (format) {
+    case "gpl":
+      return formatGpl(palette);
+    case "pal":
+      return formatJascPal(palette);
+    case "hex":
+      return formatHexList(palette);
+    case "ase":
+      return formatAse(palette);
+    case "css":
+      return formatCssVariables(palette);
+  }
+};
+
+// Describe the original palette, what each color becomes and the resulting
+// palette, for generating design tokens or engine lookup tables
+export const createPaletteDocument = (
+  palette: ColorCount[],
+  remappedPalette: ColorCount[],
+  mappings: ColorMapping[],
+  name?: string
+): PaletteDocument => {
+  // Per-color results reflect the global mappings; frame-scoped and masked
+  // ones are listed in the pairs only
+  const lookup = buildColorLookup(
+    palette.map((color) => color.rgb),
+    mappings.filter((mapping) => !mapping.frames && !mapping.maskId)
+  );
+
+  return {
+    ...(name ? { name } : {}),
+    colors: palette.map((color) => {
+      const newRgb = lookup.get(color.color)?.rgb ?? color.rgb;
+      return {
+        color: rgbToHex(color.rgb),
+        rgb: [color.rgb[0], color.rgb[1], color.rgb[2]],
+        count: color.count,
+        newColor: rgbToHex(newRgb),
+        newRgb: [newRgb[0], newRgb[1], newRgb[2]],
+      };
+    }),
+    remapped: remappedPalette.map((color) => ({
+      color: rgbToHex(color.rgb),
+      rgb: [color.rgb[0], color.rgb[1], color.rgb[2]],
+      count: color.count,
+    })),
+    mappings: mappings.map((mapping) => ({
+      from: rgbToHex(mapping.originalRgb),
+      to: mapping.newColor,
+      ...(mapping.tolerance ? { tolerance: mapping.tolerance } : {}),
+      ...(mapping.frames ? { frames: mapping.frames } : {}),
+      ...(mapping.maskId ? { maskId: mapping.maskId } : {}),
+    })),
+  };
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { rgbKey } from "./color";
+import { proposeMappings, solveAssignment } from "./paletteTransfer";
+import type { ColorCount } from "./types";
+
+const color = (rgb: [number, number, number], count = 1): ColorCount => ({
+  color: rgbKey(rgb),
+  count,
+  rgb,
+});
+
+describe("solveAssignment", () => {
+  it("finds the cheapest one-to-one assignment", () => {
+    expect(
+      solveAssignment([
+        [4, 1, 3],
+        [2, 0, 5],
+        [3, 2, 2],
+      ])
+    ).toEqual([1, 0, 2]);
+  });
+
+  it("leaves extra columns unused", () => {
+    expect(solveAssignment([[5, 1, 9]])).toEqual([1]);
+  });
+});
+
+describe("proposeMappings", () => {
+  const source = [color([250, 10, 10]), color([10, 10, 250])];
+  const reference = [color([0, 0, 200]), color([200, 0, 0])];
+
+  it("pairs each source color with its nearest free reference color", () => {
+    const mappings = proposeMappings(source, reference);
+
+    expect(mappings.map((mapping) => mapping.newRgb)).toEqual([
+      [200, 0, 0],
+      [0, 0, 200],
+    ]);
+  });
+
+  it("keeps the light-to-dark order in luminance mode", () => {
+    const mappings = proposeMappings(
+      [color([20, 20, 20]), color([230, 230, 230])],
+      [color([250, 250, 0]), color([0, 0, 90])],
+      "luminance"
+    );
+
+    expect(mappings.map((mapping) => mapping.newRgb)).toEqual([
+      [0, 0, 90],
+      [250, 250, 0],
+    ]);
+  });
+
+  it("sends extra source colors to their cheapest match", () => {
+    const mappings = proposeMappings(
+      [...source, color([240, 20, 20])],
+      reference
+    );
+    expect(mappings[2].newRgb).toEqual([200, 0, 0]);
+  });
+
+  it("clusters large references and only proposes their colors", () => {
+    // 512 grays, the darker half used more
+    const grays = Array.from({ length: 512 }, (_, i) => {
+      const value = Math.floor(i / 2);
+      return color([value, value, i % 2], i < 256 ? 5 : 1);
+    });
+    const sources = Array.from({ length: 300 }, (_, i) =>
+      color([i % 256, Math.floor(i / 256), 128])
+    );
+
+    const mappings = proposeMappings(sources, grays);
+    const referenceKeys = new Set(grays.map((gray) => gray.color));
+    const targets = new Set(mappings.map((mapping) => rgbKey(mapping.newRgb)));
+
+    expect(mappings).toHaveLength(300);
+    expect([...targets].every((key) => referenceKeys.has(key))).toBe(true);
+    expect(targets.size).toBeLessThanOrEqual(256);
+  });
+});
@@ -0,0 +1,211 @@
+import { rgbToHex } from "./color";
+import { deltaE, labToLch, rgbToLab } from "./lab";
+import { medianCut } from "./quantize";
+import type { ColorCount, ColorMapping } from "./types";
+
+// How source colors are matched to reference colors:
+// - "distance": perceptual distance (CIEDE2000), for palettes that are similar
+// - "luminance": keep the light-to-dark ordering, then hue, for full recolors
+export type TransferMethod = "distance" | "luminance";
+
+// Minimum-cost assignment of rows to columns (Hungarian algorithm with
+// potentials). Requires rows <= columns; returns the column of every row.
+export const solveAssignment = (cost: number[][]): number[] => {
+  const rows = cost.length;
+  if (rows === 0) return [];
+  const columns = cost[0].length;
+
+  // 1-based arrays as in the classic formulation; column 0 is a sentinel
+  const u = new Array(rows + 1).fill(0);
+  const v = new Array(columns + 1).fill(0);
+  const rowOfColumn = new Array(columns + 1).fill(0);
+  const way = new Array(columns + 1).fill(0);
+
+  for (let row = 1; row <= rows; row++) {
+    rowOfColumn[0] = row;
+    let column0 = 0;
+    const minValue = new Array(columns + 1).fill(Infinity);
+    const used = new Array(columns + 1).fill(false);
+
+    do {
+      used[column0] = true;
+      const row0 = rowOfColumn[column0];
+      let delta = Infinity;
+      let column1 = 0;
+
+      for (let column = 1; column <= columns; column++) {
+        if (used[column]) continue;
+        const reduced = cost[row0 - 1][column - 1] - u[row0] - v[column];
+        if (reduced < minValue[column]) {
+          minValue[column] = reduced;
+          way[column] = column0;
+        }
+        if (minValue[column] < delta) {
+          delta = minValue[column];
+          column1 = column;
+        }
+      }
+
+      for (let column = 0; column <= columns; column++) {
+        if (used[column]) {
+          u[rowOfColumn[column]] += delta;
+          v[column] -= delta;
+        } else {
+          minValue[column] -= delta;
+        }
+      }
+      column0 = column1;
+    } while (rowOfColumn[column0] !== 0);
+
+    // Walk back along the augmenting path
+    do {
+      const column1 = way[column0];
+      rowOfColumn[column0] = rowOfColumn[column1];
+      column0 = column1;
+    } while (column0 !== 0);
+  }
+
+  const assignment = new Array(rows).fill(-1);
+  for (let column = 1; column <= columns; column++) {
+    if (rowOfColumn[column] !== 0) {
+      assignment[rowOfColumn[column] - 1] = column;
+    }
+  }
+  return assignment.map((column) => column - 1);
+};
+
+// Smallest angle between two hues, in degrees
+const hueDifference = (a: number, b: number): number => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+// Rank of each value in ascending order, normalized to 0..1
+const normalizedRanks = (values: number[]): number[] => {
+  const order = values
+    .map((value, index) => ({ value, index }))
+    .sort((a, b) => a.value - b.value);
+  const ranks = new Array(values.length).fill(0);
+  order.forEach(({ index }, rank) => {
+    ranks[index] = values.length > 1 ? rank / (values.length - 1) : 0;
+  });
+  return ranks;
+};
+
+const buildCostMatrix = (
+  source: ColorCount[],
+  reference: ColorCount[],
+  method: TransferMethod
+): number[][] => {
+  const sourceLab = source.map((color) => rgbToLab(color.rgb));
+  const referenceLab = reference.map((color) => rgbToLab(color.rgb));
+
+  if (method === "distance") {
+    return sourceLab.map((lab) => referenceLab.map((ref) => deltaE(lab, ref)));
+  }
+
+  // Match by position in the lightness ordering, with hue as a tie-breaker
+  const sourceRanks = normalizedRanks(sourceLab.map((lab) => lab[0]));
+  const referenceRanks = normalizedRanks(referenceLab.map((lab) => lab[0]));
+  const sourceHues = sourceLab.map((lab) => labToLch(lab)[2]);
+  const referenceHues = referenceLab.map((lab) => labToLch(lab)[2]);
+
+  return source.map((_, i) =>
+    reference.map(
+      (_, j) =>
+        (sourceRanks[i] - referenceRanks[j]) ** 2 +
+        0.1 * (hueDifference(sourceHues[i], referenceHues[j]) / 180)
+    )
+  );
+};
+
+// Reference images such as photos can have thousands of colors, too many for
+// the assignment solver, which grows with the square of the palette size
+const MAX_REFERENCE_COLORS = 256;
+
+// Cluster a large reference palette (median cut in Lab, weighted by pixel
+// count) and keep the most used color of each cluster, so proposals still
+// only use colors the reference has
+const capReferencePalette = (reference: ColorCount[]): ColorCount[] => {
+  if (reference.length <= MAX_REFERENCE_COLORS) return reference;
+
+  const labs = reference.map((color) => rgbToLab(color.rgb));
+  const centers = medianCut(
+    labs.map((value, i) => ({ value, weight: reference[i].count })),
+    MAX_REFERENCE_COLORS
+  );
+  const representatives = centers.map(() => null as ColorCount | null);
+  const counts = centers.map(() => 0);
+
+  labs.forEach((lab, i) => {
+    // Plain Lab distance; CIEDE2000 is too slow for this many pairs
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    centers.forEach((center, index) => {
+      const distance =
+        (lab[0] - center[0]) ** 2 +
+        (lab[1] - center[1]) ** 2 +
+        (lab[2] - center[2]) ** 2;
+      if (distance < nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+
+    counts[nearest] += reference[i].count;
+    const current = representatives[nearest];
+    if (!current || reference[i].count > current.count) {
+      representatives[nearest] = reference[i];
+    }
+  });
+
+  return representatives.flatMap((color, index) =>
+    color ? [{ ...color, count: counts[index] }] : []
+  );
+};
+
+// Propose mappings that move every source color onto a reference color.
+// Colors are paired one-to-one with minimal total cost; if the source has
+// more colors than the reference, the rest go to their cheapest match.
+// References with more than MAX_REFERENCE_COLORS colors are clustered first.
+export const proposeMappings = (
+  source: ColorCount[],
+  allReference: ColorCount[],
+  method: TransferMethod = "distance"
+): ColorMapping[] => {
+  if (source.length === 0 || allReference.length === 0) return [];
+
+  const reference = capReferencePalette(allReference);
+  const cost = buildCostMatrix(source, reference, method);
+  const assignment = new Array<number>(source.length).fill(-1);
+
+  if (source.length <= reference.length) {
+    solveAssignment(cost).forEach((column, row) => {
+      assignment[row] = column;
+    });
+  } else {
+    // Solve the transposed problem: each reference color gets one source
+    const transposed = reference.map((_, j) =>
+      source.map((_, i) => cost[i][j])
+    );
+    solveAssignment(transposed).forEach((row, column) => {
+      assignment[row] = column;
+    });
+  }
+
+  return source.map((color, i) => {
+    let target = assignment[i];
+    if (target < 0) {
+      // Unpaired source colors fall back to their cheapest reference color
+      target = cost[i].indexOf(Math.min(...cost[i]));
+    }
+    const rgb = reference[target].rgb;
+
+    return {
+      originalColor: color.color,
+      originalRgb: color.rgb,
+      newColor: rgbToHex(rgb),
+      newRgb: [rgb[0], rgb[1], rgb[2]],
+    };
+  });
+};
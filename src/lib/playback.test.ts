@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { nextPlaybackPosition, playCount, playbackDelay } from "./playback";
+import type { PlaybackMode, PlaybackPosition } from "./playback";
+
+// Frame indices shown until playback stops, capped for endless modes
+const play = (
+  frameCount: number,
+  mode: PlaybackMode,
+  loopCount?: number,
+  limit = 12
+): number[] => {
+  let position: PlaybackPosition | null = { index: 0, direction: 1, pass: 0 };
+  const shown: number[] = [];
+  while (position && shown.length < limit) {
+    shown.push(position.index);
+    position = nextPlaybackPosition(position, frameCount, mode, loopCount);
+  }
+  return shown;
+};
+
+describe("playbackDelay", () => {
+  it("plays delays of 10ms or less for 100ms like browsers", () => {
+    expect(playbackDelay(0)).toBe(100);
+    expect(playbackDelay(10)).toBe(100);
+    expect(playbackDelay(20)).toBe(20);
+  });
+});
+
+describe("playCount", () => {
+  it("follows the GIF loop count in file mode", () => {
+    expect(playCount("file")).toBe(1);
+    expect(playCount("file", 0)).toBe(Infinity);
+    expect(playCount("file", 2)).toBe(3);
+  });
+
+  it("ignores the loop count in the other modes", () => {
+    expect(playCount("once", 0)).toBe(1);
+    expect(playCount("loop")).toBe(Infinity);
+    expect(playCount("pingPong", 3)).toBe(Infinity);
+  });
+});
+
+describe("nextPlaybackPosition", () => {
+  it("stops after one pass in once mode", () => {
+    expect(play(3, "once")).toEqual([0, 1, 2]);
+  });
+
+  it("repeats the number of times the file asks for", () => {
+    expect(play(2, "file", 1)).toEqual([0, 1, 0, 1]);
+    expect(play(2, "file")).toEqual([0, 1]);
+  });
+
+  it("loops forever in loop mode", () => {
+    expect(play(3, "loop", undefined, 7)).toEqual([0, 1, 2, 0, 1, 2, 0]);
+  });
+
+  it("bounces without showing the end frames twice", () => {
+    expect(play(3, "pingPong", undefined, 7)).toEqual([0, 1, 2, 1, 0, 1, 2]);
+  });
+
+  it("holds a single frame in ping-pong mode", () => {
+    expect(play(1, "pingPong", undefined, 3)).toEqual([0, 0, 0]);
+  });
+
+  it("counts a pass at each bounce", () => {
+    const position = nextPlaybackPosition(
+      { index: 2, direction: 1, pass: 0 },
+      3,
+      "pingPong"
+    );
+    expect(position).toEqual({ index: 1, direction: -1, pass: 1 });
+  });
+});
@@ -0,0 +1,54 @@
+// How the preview continues after the last frame. "file" follows the loop
+// count stored in the animation.
+export type PlaybackMode = "loop" | "pingPong" | "once" | "file";
+
+export interface PlaybackPosition {
+  index: number;
+  // 1 while playing forwards, -1 while playing backwards in ping-pong
+  direction: 1 | -1;
+  // Full passes through the animation completed so far
+  pass: number;
+}
+
+// Browsers show frames with a delay of 10ms or less for 100ms, so previews
+// use the same timing viewers will see
+export const playbackDelay = (delay: number): number =>
+  delay <= 10 ? 100 : delay;
+
+// Number of passes before playback stops. A GIF loop count is the number of
+// repeats after the first pass (0 = forever); without one the GIF plays once.
+export const playCount = (mode: PlaybackMode, loopCount?: number): number => {
+  if (mode === "once") return 1;
+  if (mode === "file") {
+    if (loopCount === undefined) return 1;
+    return loopCount === 0 ? Infinity : loopCount + 1;
+  }
+  return Infinity;
+};
+
+// The position after the current frame's delay, or null when playback ends
+// on the current frame
+export const nextPlaybackPosition = (
+  { index, direction, pass }: PlaybackPosition,
+  frameCount: number,
+  mode: PlaybackMode,
+  loopCount?: number
+): PlaybackPosition | null => {
+  if (mode === "pingPong") {
+    if (frameCount < 2) return { index: 0, direction, pass };
+    const next = index + direction;
+    if (next >= 0 && next < frameCount) {
+      return { index: next, direction, pass };
+    }
+    // Bounce off the end without showing the end frame twice
+    return {
+      index: index - direction,
+      direction: direction === 1 ? -1 : 1,
+      pass: pass + 1,
+    };
+  }
+
+  if (index + 1 < frameCount) return { index: index + 1, direction, pass };
+  if (pass + 1 >= playCount(mode, loopCount)) return null;
+  return { index: 0, direction, pass: pass + 1 };
+};
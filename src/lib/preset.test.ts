@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  PRESET_VERSION,
+  createPreset,
+  matchPresetToPalette,
+  parsePreset,
+  serializePreset,
+} from "./preset";
+import type { ColorCount, ColorMapping } from "./types";
+
+const redToBlue: ColorMapping = {
+  originalColor: "rgb(255,0,0)",
+  originalRgb: [255, 0, 0],
+  newColor: "#0000FF",
+  newRgb: [0, 0, 255],
+};
+
+describe("parsePreset", () => {
+  it("reads back what serializePreset writes", () => {
+    const scoped: ColorMapping = {
+      ...redToBlue,
+      tolerance: 5,
+      frames: { type: "range", start: 1, end: 3 },
+    };
+
+    const preset = parsePreset(serializePreset([scoped], "Night"));
+
+    expect(preset).toEqual(createPreset([scoped], "Night"));
+  });
+
+  it("accepts a bare list of mappings", () => {
+    const preset = parsePreset(JSON.stringify([redToBlue]));
+
+    expect(preset.version).toBe(PRESET_VERSION);
+    expect(preset.mappings).toHaveLength(1);
+  });
+
+  it("derives the keys from the RGB values", () => {
+    const [mapping] = parsePreset(
+      JSON.stringify([
+        {
+          originalColor: "rgb(1,2,3)",
+          originalRgb: [9, 9, 9],
+          newRgb: [1, 1, 1],
+        },
+      ])
+    ).mappings;
+
+    expect(mapping.originalColor).toBe("rgb(9,9,9)");
+    expect(mapping.newRgb).toEqual([1, 1, 1]);
+  });
+
+  it("rejects text that is not JSON", () => {
+    expect(() => parsePreset("{mappings:")).toThrow("Preset is not valid JSON");
+  });
+
+  it("rejects a preset without mappings", () => {
+    expect(() => parsePreset('{"version":1}')).toThrow(
+      "Preset does not contain a mappings list"
+    );
+  });
+
+  it("rejects presets from a newer version", () => {
+    expect(() =>
+      parsePreset(JSON.stringify({ version: PRESET_VERSION + 1, mappings: [] }))
+    ).toThrow(`Unsupported preset version: ${PRESET_VERSION + 1}`);
+  });
+
+  it("names the mapping that is invalid", () => {
+    expect(() =>
+      parsePreset(JSON.stringify([redToBlue, { originalRgb: [300, 0, 0] }]))
+    ).toThrow("Mapping 2 has an invalid originalRgb");
+    expect(() =>
+      parsePreset(
+        JSON.stringify([
+          { ...redToBlue, frames: { type: "range", start: 2, end: 1 } },
+        ])
+      )
+    ).toThrow("Mapping 1 has an invalid frame scope");
+  });
+});
+
+describe("matchPresetToPalette", () => {
+  const palette: ColorCount[] = [
+    { color: "rgb(250,0,0)", count: 4, rgb: [250, 0, 0] },
+    { color: "rgb(0,255,0)", count: 2, rgb: [0, 255, 0] },
+  ];
+
+  it("reports colors the palette lacks", () => {
+    const match = matchPresetToPalette([redToBlue], palette);
+
+    expect(match.mappings).toEqual([]);
+    expect(match.missing).toEqual([redToBlue]);
+  });
+
+  it("snaps missing colors to the nearest palette color", () => {
+    const match = matchPresetToPalette([redToBlue], palette, true);
+
+    expect(match.mappings[0].originalColor).toBe("rgb(250,0,0)");
+    expect(match.snapped[0].from).toBe(redToBlue);
+  });
+});
@@ -0,0 +1,218 @@
+import { rgbKey, rgbToHex, hexToRgb, validateHexColor } from "./color";
+import { mappingKey } from "./frameScope";
+import type { ColorCount, ColorMapping, FrameScope } from "./types";
+
+// Bump when the preset file layout changes
+export const PRESET_VERSION = 1;
+
+export interface MappingPreset {
+  version: number;
+  name?: string;
+  mappings: ColorMapping[];
+}
+
+export interface PresetMatch {
+  // Mappings whose original color can be applied to the palette
+  mappings: ColorMapping[];
+  // Mappings whose original color does not exist in the palette
+  missing: ColorMapping[];
+  // Mappings that were moved onto the nearest existing palette color
+  snapped: { from: ColorMapping; to: ColorMapping }[];
+}
+
+export const createPreset = (
+  mappings: ColorMapping[],
+  name?: string
+): MappingPreset => ({
+  version: PRESET_VERSION,
+  ...(name ? { name } : {}),
+  mappings: mappings.map((mapping) => ({
+    originalColor: mapping.originalColor,
+    originalRgb: [...mapping.originalRgb],
+    newColor: mapping.newColor,
+    newRgb: [...mapping.newRgb],
+    ...(mapping.tolerance ? { tolerance: mapping.tolerance } : {}),
+    ...(mapping.frames ? { frames: mapping.frames } : {}),
+    ...(mapping.maskId ? { maskId: mapping.maskId } : {}),
+  })),
+});
+
+export const serializePreset = (
+  mappings: ColorMapping[],
+  name?: string
+): string => JSON.stringify(createPreset(mappings, name), null, 2);
+
+const isRgb = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) &&
+  value.length === 3 &&
+  value.every(
+    (channel) => Number.isInteger(channel) && channel >= 0 && channel <= 255
+  );
+
+const isFrameIndex = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0;
+
+const parseFrameScope = (value: unknown, index: number): FrameScope => {
+  const scope = (value ?? {}) as Record<string, unknown>;
+
+  if (
+    scope.type === "range" &&
+    isFrameIndex(scope.start) &&
+    isFrameIndex(scope.end) &&
+    scope.start <= scope.end
+  ) {
+    return { type: "range", start: scope.start, end: scope.end };
+  }
+  if (
+    scope.type === "set" &&
+    Array.isArray(scope.frames) &&
+    scope.frames.length > 0 &&
+    scope.frames.every(isFrameIndex)
+  ) {
+    return { type: "set", frames: [...scope.frames] };
+  }
+  throw new Error(`Mapping ${index + 1} has an invalid frame scope`);
+};
+
+// Validate one mapping entry, deriving keys from the RGB values so a
+// hand-edited file cannot end up with mismatched key and color
+const parseMapping = (value: unknown, index: number): ColorMapping => {
+  const entry = (value ?? {}) as Partial<ColorMapping>;
+
+  if (!isRgb(entry.originalRgb)) {
+    throw new Error(`Mapping ${index + 1} has an invalid originalRgb`);
+  }
+
+  const newColor =
+    typeof entry.newColor === "string"
+      ? validateHexColor(entry.newColor)
+      : null;
+  if (!newColor && !isRgb(entry.newRgb)) {
+    throw new Error(`Mapping ${index + 1} has an invalid newColor`);
+  }
+
+  const newRgb = newColor
+    ? hexToRgb(newColor)
+    : (entry.newRgb as [number, number, number]);
+
+  const { tolerance } = entry;
+  if (
+    tolerance !== undefined &&
+    (typeof tolerance !== "number" || !(tolerance >= 0))
+  ) {
+    throw new Error(`Mapping ${index + 1} has an invalid tolerance`);
+  }
+
+  return {
+    originalColor: rgbKey(entry.originalRgb),
+    originalRgb: [...entry.originalRgb],
+    newColor: newColor ?? rgbToHex(newRgb),
+    newRgb,
+    ...(tolerance ? { tolerance } : {}),
+    ...(entry.frames !== undefined
+      ? { frames: parseFrameScope(entry.frames, index) }
+      : {}),
+    // Masks belong to one GIF; the id is kept so the mapping stays inactive
+    // rather than spreading to the whole image when its mask is missing
+    ...(typeof entry.maskId === "string" ? { maskId: entry.maskId } : {}),
+  };
+};
+
+// Parse a preset file. A bare ColorMapping[] array is accepted as well.
+export const parsePreset = (json: string): MappingPreset => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Preset is not valid JSON");
+  }
+
+  const preset = (
+    Array.isArray(data) ? { version: PRESET_VERSION, mappings: data } : data
+  ) as Partial<MappingPreset> | null;
+
+  if (!preset || !Array.isArray(preset.mappings)) {
+    throw new Error("Preset does not contain a mappings list");
+  }
+  if (typeof preset.version !== "number" || preset.version > PRESET_VERSION) {
+    throw new Error(`Unsupported preset version: ${preset.version}`);
+  }
+
+  return {
+    version: PRESET_VERSION,
+    ...(typeof preset.name === "string" ? { name: preset.name } : {}),
+    mappings: preset.mappings.map(parseMapping),
+  };
+};
+
+const distanceSquared = (
+  a: [number, number, number],
+  b: [number, number, number]
+): number =>
+  (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+// Find the palette color closest to the given color
+export const findNearestColor = (
+  rgb: [number, number, number],
+  palette: ColorCount[]
+): ColorCount | null => {
+  let nearest: ColorCount | null = null;
+  let nearestDistance = Infinity;
+
+  palette.forEach((color) => {
+    const distance = distanceSquared(rgb, color.rgb);
+    if (distance < nearestDistance) {
+      nearest = color;
+      nearestDistance = distance;
+    }
+  });
+
+  return nearest;
+};
+
+// Check preset mappings against a GIF's palette, optionally snapping colors
+// that don't exist to the nearest color that does
+export const matchPresetToPalette = (
+  mappings: ColorMapping[],
+  palette: ColorCount[],
+  snapToNearest = false
+): PresetMatch => {
+  const paletteKeys = new Set(palette.map((color) => color.color));
+  const result: PresetMatch = { mappings: [], missing: [], snapped: [] };
+
+  // Exact matches win over snapped ones targeting the same palette color
+  // and frame scope
+  const claimed = new Set(
+    mappings
+      .filter((mapping) => paletteKeys.has(mapping.originalColor))
+      .map(mappingKey)
+  );
+
+  mappings.forEach((mapping) => {
+    if (paletteKeys.has(mapping.originalColor)) {
+      result.mappings.push(mapping);
+      return;
+    }
+
+    const nearest = snapToNearest
+      ? findNearestColor(mapping.originalRgb, palette)
+      : null;
+
+    const snapped: ColorMapping | null = nearest
+      ? { ...mapping, originalColor: nearest.color, originalRgb: nearest.rgb }
+      : null;
+
+    if (!snapped || claimed.has(mappingKey(snapped))) {
+      result.missing.push(mapping);
+      // A tolerance mapping can still recolor similar colors that do exist
+      if (mapping.tolerance) result.mappings.push(mapping);
+      return;
+    }
+
+    claimed.add(mappingKey(snapped));
+    result.mappings.push(snapped);
+    result.snapped.push({ from: mapping, to: snapped });
+  });
+
+  return result;
+};
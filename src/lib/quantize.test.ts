@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { medianCut, type WeightedColor } from "./quantize";
+
+const weighted = (
+  ...colors: [number, number, number, number?][]
+): WeightedColor[] =>
+  colors.map(([r, g, b, weight = 1]) => ({ value: [r, g, b], weight }));
+
+describe("medianCut", () => {
+  it("keeps the colors as they are when they fit", () => {
+    expect(medianCut(weighted([1, 2, 3], [4, 5, 6]), 2)).toEqual([
+      [1, 2, 3],
+      [4, 5, 6],
+    ]);
+  });
+
+  it("splits along the channel with the widest spread", () => {
+    const colors = weighted([0, 0, 0], [5, 200, 0], [10, 0, 0], [15, 200, 0]);
+
+    expect(medianCut(colors, 2)).toEqual([
+      [5, 0, 0],
+      [10, 200, 0],
+    ]);
+  });
+
+  it("splits at the weighted median and averages by weight", () => {
+    // Weighted by pixels, the dark color alone holds half the total
+    const colors = weighted([0, 0, 0, 3], [10, 0, 0], [200, 0, 0], [210, 0, 0]);
+
+    expect(medianCut(colors, 2)).toEqual([
+      [0, 0, 0],
+      [140, 0, 0],
+    ]);
+    expect(medianCut(weighted([0, 0, 0, 3], [100, 0, 0]), 1)).toEqual([
+      [25, 0, 0],
+    ]);
+  });
+
+  it("stops early when no box can be split", () => {
+    expect(medianCut(weighted([7, 7, 7], [7, 7, 7], [7, 7, 7]), 2)).toEqual([
+      [7, 7, 7],
+    ]);
+  });
+});
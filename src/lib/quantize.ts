@@ -0,0 +1,87 @@
+// A color (in any 3-channel space) and how many pixels use it
+export interface WeightedColor {
+  value: [number, number, number];
+  weight: number;
+}
+
+interface ColorBox {
+  colors: WeightedColor[];
+  // Weighted spread of the widest channel, used to pick the next split
+  spread: number;
+  channel: number;
+}
+
+const measureBox = (colors: WeightedColor[]): ColorBox => {
+  let spread = -1;
+  let channel = 0;
+
+  for (let c = 0; c < 3; c++) {
+    let min = Infinity;
+    let max = -Infinity;
+    colors.forEach(({ value }) => {
+      min = Math.min(min, value[c]);
+      max = Math.max(max, value[c]);
+    });
+    if (max - min > spread) {
+      spread = max - min;
+      channel = c;
+    }
+  }
+
+  const weight = colors.reduce((sum, color) => sum + color.weight, 0);
+  return { colors, spread: spread * Math.sqrt(weight), channel };
+};
+
+const averageColor = (colors: WeightedColor[]): [number, number, number] => {
+  const total = colors.reduce((sum, color) => sum + color.weight, 0) || 1;
+  const sum = [0, 1, 2].map((c) =>
+    colors.reduce((acc, color) => acc + color.value[c] * color.weight, 0)
+  );
+  return [sum[0] / total, sum[1] / total, sum[2] / total];
+};
+
+// Reduce colors to at most maxColors representatives with median cut: keep
+// splitting the box with the largest weighted spread at its weighted median.
+// Returns the weighted mean of each box.
+export const medianCut = (
+  colors: WeightedColor[],
+  maxColors: number
+): [number, number, number][] => {
+  if (colors.length === 0 || maxColors < 1) return [];
+  if (colors.length <= maxColors) return colors.map(({ value }) => value);
+
+  const boxes = [measureBox(colors)];
+
+  while (boxes.length < maxColors) {
+    // Split the box where colors differ most, weighted by pixel count
+    let target = -1;
+    boxes.forEach((box, index) => {
+      if (box.colors.length < 2 || box.spread <= 0) return;
+      if (target < 0 || box.spread > boxes[target].spread) target = index;
+    });
+    if (target < 0) break;
+
+    const { colors: boxColors, channel } = boxes[target];
+    const sorted = [...boxColors].sort(
+      (a, b) => a.value[channel] - b.value[channel]
+    );
+    const half =
+      sorted.reduce((sum, color) => sum + color.weight, 0) / 2;
+
+    let split = 1;
+    let running = sorted[0].weight;
+    while (split < sorted.length - 1 && running < half) {
+      running += sorted[split].weight;
+      split++;
+    }
+
+    boxes.splice(
+      target,
+      1,
+      measureBox(sorted.slice(0, split)),
+      measureBox(sorted.slice(split))
+    );
+  }
+
+  return boxes.map((box) => averageColor(box.colors));
+};
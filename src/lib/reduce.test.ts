@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { rgbKey } from "./color";
+import {
+  reduceMappedPalette,
+  reducePalette,
+  remappedPalette,
+} from "./reduce";
+import type { ColorCount, ColorMapping } from "./types";
+
+const color = (rgb: [number, number, number], count: number): ColorCount => ({
+  color: rgbKey(rgb),
+  count,
+  rgb,
+});
+
+// Two clusters of reds and blues, with the most used color of each first
+const palette = [
+  color([250, 0, 0], 10),
+  color([240, 10, 10], 3),
+  color([230, 0, 20], 1),
+  color([0, 0, 250], 8),
+  color([10, 10, 240], 2),
+];
+
+describe("reducePalette", () => {
+  it("does nothing when the palette already fits", () => {
+    expect(reducePalette(palette, 5)).toEqual({ mappings: [], colorCount: 5 });
+  });
+
+  it("merges each cluster into its most used color", () => {
+    const reduction = reducePalette(palette, 2);
+    const targets = new Map(
+      reduction.mappings.map((mapping) => [
+        mapping.originalColor,
+        mapping.newRgb,
+      ])
+    );
+
+    expect(reduction.colorCount).toBe(2);
+    expect(targets.get("rgb(240,10,10)")).toEqual([250, 0, 0]);
+    expect(targets.get("rgb(230,0,20)")).toEqual([250, 0, 0]);
+    expect(targets.get("rgb(10,10,240)")).toEqual([0, 0, 250]);
+    expect(targets.has("rgb(250,0,0)")).toBe(false);
+  });
+
+  it("never merges locked colors away", () => {
+    const locked = new Set(["rgb(230,0,20)"]);
+    const reduction = reducePalette(palette, 2, locked);
+
+    expect(
+      reduction.mappings.some((mapping) => locked.has(mapping.originalColor))
+    ).toBe(false);
+    expect(reduction.colorCount).toBeLessThanOrEqual(2);
+  });
+
+  it("merges into locked colors when they are nearest", () => {
+    const reduction = reducePalette(palette, 1, new Set(["rgb(0,0,250)"]));
+
+    expect(reduction.colorCount).toBe(1);
+    expect(reduction.mappings).toHaveLength(4);
+    expect(
+      reduction.mappings.every((mapping) => mapping.newColor === "#0000fa")
+    ).toBe(true);
+  });
+});
+
+// Maps the least used blue onto the main red
+const blueToRed: ColorMapping = {
+  originalColor: "rgb(10,10,240)",
+  originalRgb: [10, 10, 240],
+  newColor: "#fa0000",
+  newRgb: [250, 0, 0],
+  tolerance: 3,
+};
+
+describe("remappedPalette", () => {
+  it("counts source colors that show the same color together", () => {
+    const shown = remappedPalette(palette, [blueToRed]);
+
+    expect(shown).toHaveLength(4);
+    expect(shown[0]).toEqual(color([250, 0, 0], 12));
+  });
+
+  it("ignores scoped and masked mappings", () => {
+    const scoped = { ...blueToRed, frames: { type: "set", frames: [0] } };
+    const masked = { ...blueToRed, maskId: "mask-1" };
+
+    expect(remappedPalette(palette, [scoped as ColorMapping])).toHaveLength(5);
+    expect(remappedPalette(palette, [masked])).toHaveLength(5);
+  });
+});
+
+describe("reduceMappedPalette", () => {
+  it("matches reducePalette without mappings", () => {
+    const byColor = (a: ColorMapping, b: ColorMapping) =>
+      a.originalColor.localeCompare(b.originalColor);
+    const mapped = reduceMappedPalette(palette, [], 2);
+    const plain = reducePalette(palette, 2);
+
+    expect(mapped.colorCount).toBe(plain.colorCount);
+    expect(mapped.mappings.sort(byColor)).toEqual(plain.mappings.sort(byColor));
+  });
+
+  it("reduces the colors as the mappings show them", () => {
+    // Blues shown as red leave one blue, so one more color fits
+    const reduction = reduceMappedPalette(palette, [blueToRed], 4);
+
+    expect(reduction.colorCount).toBe(4);
+    expect(reduction.mappings).toHaveLength(0);
+  });
+
+  it("maps every source color that shows a merged color", () => {
+    const mapped: ColorMapping = {
+      ...blueToRed,
+      originalColor: "rgb(230,0,20)",
+      originalRgb: [230, 0, 20],
+      newColor: "#0a0af0",
+      newRgb: [10, 10, 240],
+    };
+
+    const reduction = reduceMappedPalette(palette, [mapped], 2);
+    const sources = reduction.mappings.map((mapping) => mapping.originalColor);
+
+    // rgb(230,0,20) shows as the minor blue, which merges into the main one
+    expect(sources).toContain("rgb(230,0,20)");
+    expect(sources).toContain("rgb(10,10,240)");
+    const replaced = reduction.mappings.find(
+      (mapping) => mapping.originalColor === "rgb(230,0,20)"
+    );
+    expect(replaced).toMatchObject({ newRgb: [0, 0, 250], tolerance: 3 });
+  });
+});
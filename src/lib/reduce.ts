@@ -0,0 +1,176 @@
+import { rgbKey, rgbToHex } from "./color";
+import { deltaE, rgbToLab } from "./lab";
+import type { Lab } from "./lab";
+import { medianCut } from "./quantize";
+import { buildColorLookup } from "./remap";
+import type { ColorCount, ColorMapping } from "./types";
+
+export interface PaletteReduction {
+  // Merges of palette colors into the color they are reduced to
+  mappings: ColorMapping[];
+  // Distinct colors left after the merges
+  colorCount: number;
+}
+
+// Merge a palette down to at most maxColors colors. Median cut in Lab,
+// weighted by pixel count, finds where colors cluster; every color then joins
+// the nearest cluster or locked color. Locked colors are never merged away
+// and count towards maxColors. A cluster merges into its most used color, so
+// the reduced palette only has colors the GIF already uses.
+export const reducePalette = (
+  palette: ColorCount[],
+  maxColors: number,
+  locked: Set<string> = new Set()
+): PaletteReduction => {
+  if (palette.length <= maxColors) {
+    return { mappings: [], colorCount: palette.length };
+  }
+
+  const lockedColors = palette.filter((color) => locked.has(color.color));
+  const free = palette.filter((color) => !locked.has(color.color));
+  const labs = new Map<string, Lab>(
+    palette.map((color) => [color.color, rgbToLab(color.rgb)])
+  );
+
+  const centers = medianCut(
+    free.map((color) => ({
+      value: labs.get(color.color)!,
+      weight: color.count,
+    })),
+    // Without locked colors, at least one cluster is needed to merge into
+    Math.max(lockedColors.length > 0 ? 0 : 1, maxColors - lockedColors.length)
+  );
+
+  // Candidates are the locked colors first, then the cluster centers
+  const candidates: Lab[] = [
+    ...lockedColors.map((color) => labs.get(color.color)!),
+    ...centers,
+  ];
+  const groups = candidates.map(() => [] as ColorCount[]);
+
+  free.forEach((color) => {
+    const lab = labs.get(color.color)!;
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    candidates.forEach((candidate, index) => {
+      const distance = deltaE(lab, candidate);
+      if (distance < nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+    groups[nearest].push(color);
+  });
+
+  const mappings: ColorMapping[] = [];
+  let colorCount = lockedColors.length;
+
+  groups.forEach((group, index) => {
+    if (group.length === 0) return;
+
+    const isLocked = index < lockedColors.length;
+    const target = isLocked
+      ? lockedColors[index]
+      : group.reduce((best, color) =>
+          color.count > best.count ? color : best
+        );
+    if (!isLocked) colorCount++;
+
+    group.forEach((color) => {
+      if (color.color === target.color) return;
+      mappings.push({
+        originalColor: color.color,
+        originalRgb: color.rgb,
+        newColor: rgbToHex(target.rgb),
+        newRgb: [target.rgb[0], target.rgb[1], target.rgb[2]],
+      });
+    });
+  });
+
+  return { mappings, colorCount };
+};
+
+const isUnscoped = (mapping: ColorMapping) =>
+  !mapping.frames && !mapping.maskId;
+
+// What each source color shows as under the unscoped mappings
+const resolveShownColors = (
+  palette: ColorCount[],
+  mappings: ColorMapping[]
+): [number, number, number][] => {
+  const lookup = buildColorLookup(
+    palette.map((color) => color.rgb),
+    mappings.filter(isUnscoped)
+  );
+  return palette.map((color) => lookup.get(color.color)?.rgb ?? color.rgb);
+};
+
+// The palette as the mappings show it, most used first. Source colors mapped
+// to the same color are counted as one.
+export const remappedPalette = (
+  palette: ColorCount[],
+  mappings: ColorMapping[]
+): ColorCount[] => {
+  const counts = new Map<string, ColorCount>();
+
+  resolveShownColors(palette, mappings).forEach((rgb, index) => {
+    const key = rgbKey(rgb);
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count += palette[index].count;
+    } else {
+      counts.set(key, {
+        color: key,
+        count: palette[index].count,
+        rgb: [rgb[0], rgb[1], rgb[2]],
+      });
+    }
+  });
+
+  return [...counts.values()].sort((a, b) => b.count - a.count);
+};
+
+// Reduce the palette as the mappings show it (see remappedPalette), with
+// locked colors given as remapped colors. Each merge becomes a mapping of
+// every source color showing the merged color, which keeps the fields of the
+// unscoped mapping it replaces (see mergeMappings).
+export const reduceMappedPalette = (
+  palette: ColorCount[],
+  mappings: ColorMapping[],
+  maxColors: number,
+  locked: Set<string> = new Set()
+): PaletteReduction => {
+  const reduction = reducePalette(
+    remappedPalette(palette, mappings),
+    maxColors,
+    locked
+  );
+  const merges = new Map(
+    reduction.mappings.map((merge) => [merge.originalColor, merge])
+  );
+  const unscoped = new Map(
+    mappings
+      .filter(isUnscoped)
+      .map((mapping) => [mapping.originalColor, mapping])
+  );
+
+  const sourceMappings = resolveShownColors(palette, mappings).flatMap(
+    (rgb, index): ColorMapping[] => {
+      const merge = merges.get(rgbKey(rgb));
+      if (!merge) return [];
+
+      const color = palette[index];
+      return [
+        {
+          ...unscoped.get(color.color),
+          originalColor: color.color,
+          originalRgb: color.rgb,
+          newColor: merge.newColor,
+          newRgb: merge.newRgb,
+        },
+      ];
+    }
+  );
+
+  return { mappings: sourceMappings, colorCount: reduction.colorCount };
+};
@@ -0,0 +1,266 @@
+import { describe, expect, it } from "vitest";
+import { rgbKey } from "./color";
+import { labToLch, rgbDeltaE, rgbToLab } from "./lab";
+import { createMask, editMaskLayer, paintRect, setMaskTracked } from "./mask";
+import { MISSING_COLOR } from "./palette";
+import {
+  applyMappings,
+  buildColorLookup,
+  buildPatch,
+  createRemapEngine,
+} from "./remap";
+import { makeFrame } from "./testFrames";
+import type { ColorMapping, GifFrame } from "./types";
+
+const RED: [number, number, number] = [255, 0, 0];
+const BLUE: [number, number, number] = [0, 0, 255];
+const YELLOW: [number, number, number] = [255, 255, 0];
+
+const mapping = (
+  from: [number, number, number],
+  to: [number, number, number],
+  extra: Partial<ColorMapping> = {}
+): ColorMapping => ({
+  originalColor: rgbKey(from),
+  originalRgb: from,
+  newColor: "#" + to.map((c) => c.toString(16).padStart(2, "0")).join(""),
+  newRgb: to,
+  ...extra,
+});
+
+// Index 2 is transparent and holds red as well, so a red mapping must not
+// make it visible; index 3 points past the end of the table
+const frame = makeFrame({
+  pixels: [0, 1, 2, 3],
+  colorTable: [RED, BLUE, RED],
+  width: 4,
+  height: 1,
+  transparentIndex: 2,
+});
+
+const rgbaAt = (patch: Uint8ClampedArray, i: number) =>
+  Array.from(patch.subarray(i * 4, i * 4 + 4));
+
+describe("buildPatch", () => {
+  it("hides the transparent index and blacks out missing entries", () => {
+    expect(rgbaAt(frame.patch, 0)).toEqual([255, 0, 0, 255]);
+    expect(rgbaAt(frame.patch, 2)[3]).toBe(0);
+    expect(rgbaAt(frame.patch, 3)).toEqual([...MISSING_COLOR, 255]);
+  });
+
+  it("treats every index as opaque without a transparent index", () => {
+    const patch = buildPatch([0, 1], [RED, BLUE]);
+    expect(rgbaAt(patch, 1)).toEqual([0, 0, 255, 255]);
+  });
+});
+
+describe("buildColorLookup", () => {
+  const NEAR_RED: [number, number, number] = [240, 0, 0];
+  const DARK_RED: [number, number, number] = [200, 0, 0];
+  const ORANGE: [number, number, number] = [255, 128, 0];
+  const lch = (rgb: [number, number, number]) => labToLch(rgbToLab(rgb));
+
+  it("captures colors within the ΔE radius and no others", () => {
+    expect(rgbDeltaE(RED, NEAR_RED)).toBeLessThan(10);
+    expect(rgbDeltaE(RED, ORANGE)).toBeGreaterThan(10);
+
+    const lookup = buildColorLookup(
+      [RED, NEAR_RED, ORANGE],
+      [mapping(RED, BLUE, { tolerance: 10 })]
+    );
+
+    expect(lookup.has(rgbKey(NEAR_RED))).toBe(true);
+    expect(lookup.has(rgbKey(ORANGE))).toBe(false);
+  });
+
+  it("prefers an exact mapping over a tolerance mapping", () => {
+    const lookup = buildColorLookup(
+      [NEAR_RED],
+      [mapping(RED, BLUE, { tolerance: 20 }), mapping(NEAR_RED, YELLOW)]
+    );
+
+    expect(lookup.get(rgbKey(NEAR_RED))?.rgb).toEqual(YELLOW);
+  });
+
+  it("applies the nearest of overlapping tolerance mappings", () => {
+    const fromRed = mapping(RED, BLUE, { tolerance: 30 });
+    const fromDarkRed = mapping(DARK_RED, YELLOW, { tolerance: 30 });
+    const lookup = buildColorLookup([[210, 0, 0]], [fromRed, fromDarkRed]);
+
+    expect(lookup.get("rgb(210,0,0)")?.mapping).toBe(fromDarkRed);
+  });
+
+  it("keeps a shade's lightness and chroma offset from the source", () => {
+    const target: [number, number, number] = [60, 90, 150];
+    const lookup = buildColorLookup(
+      [DARK_RED],
+      [mapping(RED, target, { tolerance: 30 })]
+    );
+    const shade = lookup.get(rgbKey(DARK_RED))!.rgb;
+
+    expect(shade).not.toEqual(target);
+    const [lightness, chroma] = lch(shade);
+    expect(lightness).toBeCloseTo(
+      lch(target)[0] + lch(DARK_RED)[0] - lch(RED)[0],
+      0
+    );
+    expect(chroma).toBeCloseTo(
+      lch(target)[1] + lch(DARK_RED)[1] - lch(RED)[1],
+      0
+    );
+  });
+});
+
+describe("applyMappings", () => {
+  it("recolors through the color table and keeps transparency", () => {
+    const [remapped] = applyMappings([frame], [mapping(RED, YELLOW)]);
+
+    expect(remapped.pixels).toEqual(frame.pixels);
+    expect(rgbaAt(remapped.patch, 0)).toEqual([255, 255, 0, 255]);
+    expect(rgbaAt(remapped.patch, 1)).toEqual([0, 0, 255, 255]);
+    expect(rgbaAt(remapped.patch, 2)[3]).toBe(0);
+  });
+
+  it("recolors pixels whose index is missing from the table", () => {
+    const [remapped] = applyMappings([frame], [mapping(MISSING_COLOR, BLUE)]);
+
+    expect(rgbaAt(remapped.patch, 3)).toEqual([0, 0, 255, 255]);
+    expect(rgbaAt(remapped.patch, 0)).toEqual([255, 0, 0, 255]);
+  });
+
+  it("leaves the source frames untouched", () => {
+    applyMappings([frame], [mapping(RED, YELLOW)]);
+    expect(frame.colorTable).toEqual([RED, BLUE, RED]);
+  });
+
+  it("lets scoped mappings override global ones on their frames", () => {
+    const frames = [frame, frame];
+    const remapped = applyMappings(frames, [
+      mapping(RED, YELLOW),
+      mapping(RED, BLUE, { frames: { type: "set", frames: [1] } }),
+    ]);
+
+    expect(rgbaAt(remapped[0].patch, 0)).toEqual([255, 255, 0, 255]);
+    expect(rgbaAt(remapped[1].patch, 0)).toEqual([0, 0, 255, 255]);
+  });
+
+  it("returns the frames unchanged without mappings", () => {
+    expect(applyMappings([frame], [])).toEqual([frame]);
+  });
+});
+
+describe("masked mappings", () => {
+  const red = makeFrame({
+    pixels: [0, 0, 0, 0],
+    colorTable: [RED, BLUE],
+    width: 4,
+    height: 1,
+  });
+  const toYellow = mapping(RED, YELLOW, { maskId: "mask-1" });
+
+  // Mask over the 4x1 screen selecting x from `from` to `to`
+  const maskOver = (from: number, to: number) =>
+    editMaskLayer(createMask("mask-1", "Mask 1", 4, 1), 0, (layer) =>
+      paintRect(layer, 4, 1, [from, 0], [to, 0], 1)
+    );
+  const colorsOf = (frame: GifFrame) =>
+    frame.pixels.map((_, i) => rgbaAt(frame.patch, i).slice(0, 3));
+
+  it("recolors only the pixels inside the mask", () => {
+    const [remapped] = applyMappings([red], [toYellow], [maskOver(0, 1)]);
+
+    expect(colorsOf(remapped)).toEqual([YELLOW, YELLOW, RED, RED]);
+  });
+
+  it("lets a masked mapping override an unmasked one of the same color", () => {
+    const [remapped] = applyMappings(
+      [red],
+      [mapping(RED, BLUE), toYellow],
+      [maskOver(0, 1)]
+    );
+
+    expect(colorsOf(remapped)).toEqual([YELLOW, YELLOW, BLUE, BLUE]);
+  });
+
+  it("places the mask on the screen by the frame's offset", () => {
+    const offset = makeFrame({
+      pixels: [0, 0],
+      colorTable: [RED, BLUE],
+      width: 2,
+      height: 1,
+      left: 2,
+    });
+    const [remapped] = applyMappings([offset], [toYellow], [maskOver(2, 2)]);
+
+    expect(colorsOf(remapped)).toEqual([YELLOW, RED]);
+  });
+
+  it("skips mappings whose mask is missing", () => {
+    const [remapped] = applyMappings([red], [toYellow], []);
+
+    expect(colorsOf(remapped)).toEqual([RED, RED, RED, RED]);
+  });
+
+  it("holds a tracked layer forward onto later frames", () => {
+    const tracked = editMaskLayer(
+      setMaskTracked(createMask("mask-1", "Mask 1", 4, 1), true, 0),
+      1,
+      (layer) => paintRect(layer, 4, 1, [3, 0], [3, 0], 1)
+    );
+    const remapped = applyMappings([red, red, red], [toYellow], [tracked]);
+
+    expect(remapped.map(colorsOf)).toEqual([
+      [RED, RED, RED, RED],
+      [RED, RED, RED, YELLOW],
+      [RED, RED, RED, YELLOW],
+    ]);
+  });
+});
+
+describe("createRemapEngine", () => {
+  const other = makeFrame({
+    pixels: [1, 1],
+    colorTable: [RED, BLUE],
+    width: 2,
+    height: 1,
+  });
+
+  it("only rebuilds frames whose colors change", () => {
+    const engine = createRemapEngine([frame, other]);
+    const job = engine.prepare([mapping(RED, YELLOW)], []);
+
+    expect(job.remapFrame(0)).not.toBeNull();
+    expect(job.remapFrame(1)).toBeNull();
+  });
+
+  it("compares against the last committed job", () => {
+    const engine = createRemapEngine([frame, other]);
+    const first = engine.prepare([mapping(RED, YELLOW)], []);
+    first.remapFrame(0);
+    first.remapFrame(1);
+    first.commit();
+
+    const same = engine.prepare([mapping(RED, YELLOW)], []);
+    expect(same.remapFrame(0)).toBeNull();
+
+    const undo = engine.prepare([], []);
+    const restored = undo.remapFrame(0);
+    expect(restored && rgbaAt(restored.patch, 0)).toEqual([255, 0, 0, 255]);
+  });
+
+  it("rebuilds every frame when asked for a full job", () => {
+    const engine = createRemapEngine([frame, other]);
+    const job = engine.prepare([], [], true);
+
+    const rebuilt = job.remapFrame(1);
+    expect(rebuilt && rgbaAt(rebuilt.patch, 0)).toEqual([0, 0, 255, 255]);
+  });
+
+  it("keeps transparent and missing pixels as they were", () => {
+    const engine = createRemapEngine([frame]);
+    const remapped = engine.prepare([mapping(RED, YELLOW)], []).remapFrame(0);
+
+    expect(remapped && rgbaAt(remapped.patch, 2)[3]).toBe(0);
+    expect(remapped && rgbaAt(remapped.patch, 3)).toEqual([0, 0, 0, 255]);
+  });
+});
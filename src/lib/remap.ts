@@ -0,0 +1,486 @@
+import { rgbKey } from "./color";
+import { isFrameInScope, mappingKey } from "./frameScope";
+import { deltaE, labToLch, labToRgb, lchToLab, rgbToLab } from "./lab";
+import type { Lab } from "./lab";
+import { getMaskLayer } from "./mask";
+import type { RegionMask } from "./mask";
+import { MISSING_COLOR } from "./palette";
+import type { ColorMapping, GifFrame } from "./types";
+
+export interface ResolvedColor {
+  rgb: [number, number, number];
+  // Mapping that produced the color
+  mapping: ColorMapping;
+}
+
+// Hue is meaningless for near-grays, so hue offsets are ignored below this chroma
+const MIN_HUE_CHROMA = 2;
+
+// Recolor a color captured by a tolerance mapping, keeping its lightness,
+// chroma and hue offset from the mapping's source color
+const shiftColor = (
+  colorLab: Lab,
+  sourceLab: Lab,
+  mapping: ColorMapping
+): [number, number, number] => {
+  const source = labToLch(sourceLab);
+  const color = labToLch(colorLab);
+  const target = labToLch(rgbToLab(mapping.newRgb));
+
+  const hueShift =
+    source[1] > MIN_HUE_CHROMA && color[1] > MIN_HUE_CHROMA
+      ? color[2] - source[2]
+      : 0;
+
+  return labToRgb(
+    lchToLab([
+      target[0] + (color[0] - source[0]),
+      Math.max(0, target[1] + (color[1] - source[1])),
+      target[2] + hueShift,
+    ])
+  );
+};
+
+// Resolve what every given color becomes under the mappings. Exact matches
+// win; otherwise the nearest tolerance mapping whose radius contains the
+// color applies. Colors no mapping touches are left out of the result.
+export const buildColorLookup = (
+  colors: ArrayLike<number>[],
+  mappings: ColorMapping[]
+): Map<string, ResolvedColor> => {
+  const lookup = new Map<string, ResolvedColor>();
+  const exact = new Map(
+    mappings.map((mapping) => [mapping.originalColor, mapping])
+  );
+  const tolerant = mappings
+    .filter((mapping) => (mapping.tolerance || 0) > 0)
+    .map((mapping) => ({ mapping, lab: rgbToLab(mapping.originalRgb) }));
+
+  colors.forEach((rgb) => {
+    const key = rgbKey(rgb);
+    if (lookup.has(key)) return;
+
+    const exactMapping = exact.get(key);
+    if (exactMapping) {
+      lookup.set(key, { rgb: exactMapping.newRgb, mapping: exactMapping });
+      return;
+    }
+    if (tolerant.length === 0) return;
+
+    const lab = rgbToLab(rgb);
+    let best: { mapping: ColorMapping; lab: Lab } | null = null;
+    let bestDistance = Infinity;
+
+    for (const candidate of tolerant) {
+      const distance = deltaE(lab, candidate.lab);
+      if (distance <= candidate.mapping.tolerance! && distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+
+    if (best) {
+      const { mapping, lab: sourceLab } = best;
+      lookup.set(key, { rgb: shiftColor(lab, sourceLab, mapping), mapping });
+    }
+  });
+
+  return lookup;
+};
+
+// Deep copy frames so edits never touch the decoded originals
+export const cloneFrames = (frames: GifFrame[]): GifFrame[] =>
+  frames.map((frame) => ({
+    ...frame,
+    colorTable: [...frame.colorTable],
+    patch: new Uint8ClampedArray(frame.patch),
+  }));
+
+// Largest color table a GIF frame can have
+const MAX_TABLE_SIZE = 256;
+
+// Regenerate the RGBA patch of a frame from its pixels and color table. Each
+// index is packed into one 32-bit RGBA value up front, so every pixel is a
+// single write (assumes a little-endian platform, as all browsers are).
+export const buildPatch = (
+  pixels: number[],
+  colorTable: [number, number, number][],
+  transparentIndex?: number
+): Uint8ClampedArray => {
+  const packed = new Uint32Array(MAX_TABLE_SIZE);
+  for (let i = 0; i < MAX_TABLE_SIZE; i++) {
+    const color = colorTable[i] || MISSING_COLOR;
+    const alpha = i !== transparentIndex ? 255 : 0;
+    packed[i] =
+      (color[0] | (color[1] << 8) | (color[2] << 16) | (alpha << 24)) >>> 0;
+  }
+
+  const patch = new Uint8ClampedArray(pixels.length * 4);
+  const words = new Uint32Array(patch.buffer);
+  for (let i = 0; i < pixels.length; i++) {
+    words[i] = packed[pixels[i]];
+  }
+
+  return patch;
+};
+
+// What a frame's pixels refer to, derived once per frame since pixels and
+// the original color table never change while mappings are edited
+interface FrameColors {
+  // Color table indices the pixels use, excluding the transparent index
+  used: number[];
+  // Palette key of each used index
+  keys: Map<number, string>;
+}
+
+const frameColorsCache = new WeakMap<GifFrame, FrameColors>();
+
+const getFrameColors = (frame: GifFrame): FrameColors => {
+  let colors = frameColorsCache.get(frame);
+  if (colors) return colors;
+
+  const seen = new Uint8Array(MAX_TABLE_SIZE);
+  frame.pixels.forEach((pixelIndex) => {
+    seen[pixelIndex] = 1;
+  });
+
+  const used: number[] = [];
+  const keys = new Map<number, string>();
+  seen.forEach((isUsed, index) => {
+    if (!isUsed || index === frame.transparentIndex) return;
+    used.push(index);
+    keys.set(index, rgbKey(frame.colorTable[index] || MISSING_COLOR));
+  });
+
+  colors = { used, keys };
+  frameColorsCache.set(frame, colors);
+  return colors;
+};
+
+// Distinct colors the frames' pixels use
+const collectColors = (frames: GifFrame[]): [number, number, number][] => {
+  const colors = new Map<string, [number, number, number]>();
+  frames.forEach((frame) => {
+    getFrameColors(frame).keys.forEach((key, index) => {
+      if (!colors.has(key)) {
+        colors.set(key, frame.colorTable[index] || MISSING_COLOR);
+      }
+    });
+  });
+  return Array.from(colors.values());
+};
+
+interface MaskedLookup {
+  mask: RegionMask;
+  layer: Uint8Array;
+  lookup: Map<string, ResolvedColor>;
+  // Content of the mask's mappings, used to tell whether a frame changed
+  signature: string;
+}
+
+// Recolor a frame pixel by pixel. Pixels inside a mask take the color of that
+// mask's mappings; the rest use the frame's color table lookup. Colors the
+// table doesn't hold yet go into entries this frame doesn't use, then into
+// new entries, and only fall back to the nearest existing color once the
+// table is full.
+const remapMaskedFrame = (
+  frame: GifFrame,
+  colorTable: [number, number, number][],
+  masked: MaskedLookup[]
+): GifFrame => {
+  const { width, left, top } = frame.dims;
+  const pixels = [...frame.pixels];
+  const table = [...colorTable];
+
+  const used = new Set(frame.pixels);
+  const free: number[] = [];
+  table.forEach((_, index) => {
+    if (!used.has(index) && index !== frame.transparentIndex) free.push(index);
+  });
+  const indexByColor = new Map<string, number>();
+  table.forEach((rgb, index) => {
+    const key = rgbKey(rgb);
+    if (used.has(index) && !indexByColor.has(key)) indexByColor.set(key, index);
+  });
+
+  const indexForColor = (rgb: [number, number, number]): number => {
+    const key = rgbKey(rgb);
+    let index = indexByColor.get(key);
+    if (index !== undefined) return index;
+
+    if (free.length > 0) {
+      index = free.shift()!;
+      table[index] = rgb;
+    } else if (table.length < MAX_TABLE_SIZE) {
+      index = table.push(rgb) - 1;
+    } else {
+      // Table is full: settle for the closest color already in it
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      table.forEach((entry, i) => {
+        if (i === frame.transparentIndex) return;
+        const distance =
+          (entry[0] - rgb[0]) ** 2 +
+          (entry[1] - rgb[1]) ** 2 +
+          (entry[2] - rgb[2]) ** 2;
+        if (distance < nearestDistance) {
+          nearest = i;
+          nearestDistance = distance;
+        }
+      });
+      return nearest;
+    }
+
+    indexByColor.set(key, index);
+    return index;
+  };
+
+  frame.pixels.forEach((pixelIndex, i) => {
+    if (pixelIndex === frame.transparentIndex) return;
+
+    const x = left + (i % width);
+    const y = top + Math.floor(i / width);
+    const originalRgb = frame.colorTable[pixelIndex] || MISSING_COLOR;
+
+    for (const { mask, layer, lookup } of masked) {
+      if (x < 0 || y < 0 || x >= mask.width || y >= mask.height) continue;
+      if (!layer[y * mask.width + x]) continue;
+
+      const resolved = lookup.get(rgbKey(originalRgb));
+      if (resolved) {
+        pixels[i] = indexForColor(resolved.rgb);
+        break;
+      }
+    }
+  });
+
+  return {
+    ...frame,
+    pixels,
+    colorTable: table,
+    patch: buildPatch(pixels, table, frame.transparentIndex),
+  };
+};
+
+// Lookups of every frame for one set of mappings. Frames with the same
+// active scoped or masked mappings share one lookup.
+const planMappings = (
+  colors: [number, number, number][],
+  mappings: ColorMapping[],
+  masks: RegionMask[]
+) => {
+  // Mappings whose mask is not available (e.g. from a preset) are skipped
+  const masksById = new Map(masks.map((mask) => [mask.id, mask]));
+  const maskedMappings = mappings.filter(
+    (mapping) => mapping.maskId && masksById.has(mapping.maskId)
+  );
+  const unmaskedMappings = mappings.filter((mapping) => !mapping.maskId);
+
+  // Resolve each distinct color once rather than per pixel
+  const globalLookup = buildColorLookup(
+    colors,
+    unmaskedMappings.filter((mapping) => !mapping.frames)
+  );
+  const scopedMappings = unmaskedMappings.filter((mapping) => mapping.frames);
+
+  const scopedLookups = new Map<string, Map<string, ResolvedColor>>();
+  const lookupForFrame = (frameIndex: number) => {
+    const active = scopedMappings.filter((mapping) =>
+      isFrameInScope(mapping.frames, frameIndex)
+    );
+    if (active.length === 0) return globalLookup;
+
+    const key = active.map(mappingKey).join("|");
+    let lookup = scopedLookups.get(key);
+    if (!lookup) {
+      lookup = new Map(globalLookup);
+      buildColorLookup(colors, active).forEach((resolved, color) =>
+        lookup!.set(color, resolved)
+      );
+      scopedLookups.set(key, lookup);
+    }
+    return lookup;
+  };
+
+  // Lookups of each mask's mappings active on a frame, in mapping order
+  const maskedLookupCache = new Map<string, Map<string, ResolvedColor>>();
+  const maskedLookupsForFrame = (frameIndex: number): MaskedLookup[] => {
+    const active = maskedMappings.filter((mapping) =>
+      isFrameInScope(mapping.frames, frameIndex)
+    );
+    const maskIds = [...new Set(active.map((mapping) => mapping.maskId!))];
+
+    return maskIds.flatMap((maskId) => {
+      const mask = masksById.get(maskId)!;
+      const layer = getMaskLayer(mask, frameIndex);
+      if (!layer) return [];
+
+      const group = active.filter((mapping) => mapping.maskId === maskId);
+      const signature = group
+        .map(({ newColor, tolerance, ...mapping }) =>
+          [mappingKey(mapping), newColor, tolerance || 0].join(">")
+        )
+        .join("|");
+      let lookup = maskedLookupCache.get(signature);
+      if (!lookup) {
+        lookup = buildColorLookup(colors, group);
+        maskedLookupCache.set(signature, lookup);
+      }
+      return [{ mask, layer, lookup, signature }];
+    });
+  };
+
+  return { lookupForFrame, maskedLookupsForFrame };
+};
+
+// Remapped color table of a frame: each index the pixels use is resolved
+// once, instead of looking up every pixel
+const remapColorTable = (
+  frame: GifFrame,
+  lookup: Map<string, ResolvedColor>
+): [number, number, number][] => {
+  const colorTable = [...frame.colorTable];
+  getFrameColors(frame).keys.forEach((key, index) => {
+    const resolved = lookup.get(key);
+    if (resolved) colorTable[index] = resolved.rgb;
+  });
+  return colorTable;
+};
+
+const renderFrame = (
+  frame: GifFrame,
+  colorTable: [number, number, number][],
+  masked: MaskedLookup[]
+): GifFrame =>
+  masked.length > 0
+    ? remapMaskedFrame(frame, colorTable, masked)
+    : {
+        ...frame,
+        colorTable,
+        patch: buildPatch(frame.pixels, colorTable, frame.transparentIndex),
+      };
+
+// Prepare color mappings for the given frames and return a function that
+// recolors one frame at a time, so long jobs can report progress or stop
+// early. Mappings scoped to a frame override global mappings of the same
+// colors on that frame, and mappings bound to a mask override both inside
+// the mask.
+export const createFrameRemapper = (
+  frames: GifFrame[],
+  mappings: ColorMapping[],
+  masks: RegionMask[] = []
+): ((frameIndex: number) => GifFrame) => {
+  const plan = planMappings(collectColors(frames), mappings, masks);
+
+  return (frameIndex) => {
+    const frame = frames[frameIndex];
+    return renderFrame(
+      frame,
+      remapColorTable(frame, plan.lookupForFrame(frameIndex)),
+      plan.maskedLookupsForFrame(frameIndex)
+    );
+  };
+};
+
+// Apply color mappings to every frame, returning new frames
+export const applyMappings = (
+  frames: GifFrame[],
+  mappings: ColorMapping[],
+  masks: RegionMask[] = []
+): GifFrame[] => {
+  if (mappings.length === 0) return [...frames];
+
+  const remapFrame = createFrameRemapper(frames, mappings, masks);
+  return frames.map((_, frameIndex) => remapFrame(frameIndex));
+};
+
+// What a frame looked like after a remap, enough to tell whether the next
+// remap changes it
+interface RemappedFrameState {
+  colorTable: [number, number, number][];
+  masked: { layer: Uint8Array; signature: string }[];
+}
+
+const isSameColorTable = (
+  a: [number, number, number][],
+  b: [number, number, number][]
+) =>
+  a.length === b.length &&
+  a.every(
+    (color, i) =>
+      color[0] === b[i][0] && color[1] === b[i][1] && color[2] === b[i][2]
+  );
+
+const isSameFrameState = (a: RemappedFrameState, b: RemappedFrameState) =>
+  isSameColorTable(a.colorTable, b.colorTable) &&
+  a.masked.length === b.masked.length &&
+  a.masked.every(
+    (entry, i) =>
+      entry.layer === b.masked[i].layer &&
+      entry.signature === b.masked[i].signature
+  );
+
+export interface RemapJob {
+  // Recolor one frame, or return null when it would look the same as after
+  // the last committed job
+  remapFrame: (frameIndex: number) => GifFrame | null;
+  // Make this job's frames the baseline the next job is compared against
+  commit: () => void;
+}
+
+export interface RemapEngine {
+  // Start remapping for a new set of mappings. With full set, every frame is
+  // rebuilt regardless of the baseline.
+  prepare: (
+    mappings: ColorMapping[],
+    masks: RegionMask[],
+    full?: boolean
+  ) => RemapJob;
+}
+
+// Incremental remapping for one animation. Colors are resolved per color
+// table index, and only frames whose remapped color table or masks differ
+// from the previous committed job are rebuilt, so editing one color touches
+// just the frames that contain it.
+export const createRemapEngine = (frames: GifFrame[]): RemapEngine => {
+  const colors = collectColors(frames);
+  // Before any job, every frame shows its original colors
+  let baseline: RemappedFrameState[] = frames.map((frame) => ({
+    colorTable: frame.colorTable,
+    masked: [],
+  }));
+
+  const prepare = (
+    mappings: ColorMapping[],
+    masks: RegionMask[],
+    full = false
+  ): RemapJob => {
+    const plan = planMappings(colors, mappings, masks);
+    const states = new Map<number, RemappedFrameState>();
+
+    const remapFrame = (frameIndex: number) => {
+      const frame = frames[frameIndex];
+      const colorTable = remapColorTable(
+        frame,
+        plan.lookupForFrame(frameIndex)
+      );
+      const masked = plan.maskedLookupsForFrame(frameIndex);
+      const state: RemappedFrameState = {
+        colorTable,
+        masked: masked.map(({ layer, signature }) => ({ layer, signature })),
+      };
+      states.set(frameIndex, state);
+
+      if (!full && isSameFrameState(baseline[frameIndex], state)) return null;
+      return renderFrame(frame, colorTable, masked);
+    };
+
+    const commit = () => {
+      baseline = baseline.map((state, index) => states.get(index) ?? state);
+    };
+
+    return { remapFrame, commit };
+  };
+
+  return { prepare };
+};
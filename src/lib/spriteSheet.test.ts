@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSpriteSheet,
+  createAsepriteJson,
+  gridSheetFrames,
+  parseAsepriteJson,
+  sliceSpriteSheet,
+} from "./spriteSheet";
+import { makeFrame, pixelAt } from "./testFrames";
+
+const table: [number, number, number][] = [
+  [255, 0, 0],
+  [0, 0, 255],
+  [0, 255, 0],
+];
+
+const frames = [0, 1, 2].map((index) =>
+  makeFrame({
+    pixels: [index, index, index, index],
+    colorTable: table,
+    width: 2,
+    height: 2,
+    delay: 50 * (index + 1),
+  })
+);
+
+describe("buildSpriteSheet", () => {
+  it("lays frames out in a padded grid", () => {
+    const sheet = buildSpriteSheet(frames, 2, 2, {
+      layout: "grid",
+      padding: 1,
+    });
+
+    expect(sheet.width).toBe(7);
+    expect(sheet.height).toBe(7);
+    expect(sheet.rects).toEqual([
+      { x: 1, y: 1, w: 2, h: 2 },
+      { x: 4, y: 1, w: 2, h: 2 },
+      { x: 1, y: 4, w: 2, h: 2 },
+    ]);
+    expect(pixelAt(sheet.data, 7, 4, 1)).toEqual([0, 0, 255, 255]);
+    expect(pixelAt(sheet.data, 7, 0, 0)).toEqual([0, 0, 0, 0]);
+  });
+
+  it("puts frames in one row or column", () => {
+    const row = buildSpriteSheet(frames, 2, 2, {
+      layout: "horizontal",
+      padding: 0,
+    });
+    const column = buildSpriteSheet(frames, 2, 2, {
+      layout: "vertical",
+      padding: 0,
+    });
+
+    expect([row.width, row.height]).toEqual([6, 2]);
+    expect([column.width, column.height]).toEqual([2, 6]);
+  });
+});
+
+describe("Aseprite metadata", () => {
+  it("reads back the rects and durations it writes", () => {
+    const sheet = buildSpriteSheet(frames, 2, 2, {
+      layout: "horizontal",
+      padding: 0,
+    });
+    const json = JSON.stringify(createAsepriteJson(sheet, frames, "run.png"));
+
+    const parsed = parseAsepriteJson(json);
+
+    expect(parsed.width).toBe(2);
+    expect(parsed.height).toBe(2);
+    expect(parsed.frames.map((frame) => frame.duration)).toEqual([
+      50, 100, 150,
+    ]);
+    expect(parsed.frames[2].rect).toEqual({ x: 4, y: 0, w: 2, h: 2 });
+  });
+
+  it("accepts the hash layout", () => {
+    const json = JSON.stringify({
+      frames: {
+        "a 0.png": { frame: { x: 0, y: 0, w: 4, h: 4 }, duration: 80 },
+      },
+    });
+
+    expect(parseAsepriteJson(json).frames[0]).toMatchObject({
+      offsetX: 0,
+      duration: 80,
+    });
+  });
+
+  it("rejects metadata it cannot use", () => {
+    expect(() => parseAsepriteJson("nope")).toThrow(
+      "Sprite sheet metadata is not valid JSON"
+    );
+    expect(() => parseAsepriteJson('{"frames":[]}')).toThrow(
+      "Sprite sheet metadata has no frames"
+    );
+    expect(() =>
+      parseAsepriteJson(
+        JSON.stringify({
+          frames: [{ frame: { x: 0, y: 0, w: 2, h: 2 }, rotated: true }],
+        })
+      )
+    ).toThrow("Frame 1 is rotated, which is not supported");
+  });
+});
+
+describe("slicing sheets", () => {
+  it("cuts equal cells with padding", () => {
+    const cells = gridSheetFrames(7, 7, 2, 2, 1, 60);
+
+    expect(cells).toHaveLength(4);
+    expect(cells[3].rect).toEqual({ x: 4, y: 4, w: 2, h: 2 });
+    expect(cells[0].duration).toBe(60);
+    expect(() => gridSheetFrames(1, 1, 2, 2)).toThrow(
+      "Cell size is larger than the sprite sheet"
+    );
+  });
+
+  it("turns a built sheet back into the same frames", () => {
+    const sheet = buildSpriteSheet(frames, 2, 2, {
+      layout: "grid",
+      padding: 1,
+    });
+    const cells = gridSheetFrames(sheet.width, sheet.height, 2, 2, 1);
+
+    const decoded = sliceSpriteSheet(
+      sheet.data,
+      sheet.width,
+      sheet.height,
+      cells,
+      2,
+      2,
+      true
+    );
+
+    // The empty fourth cell of the grid is dropped
+    expect(decoded.frames).toHaveLength(3);
+    decoded.frames.forEach((frame, index) => {
+      const rgb = frame.colorTable[frame.pixels[0]];
+      expect(Array.from(rgb)).toEqual(table[index]);
+    });
+  });
+});
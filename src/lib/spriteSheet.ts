@@ -0,0 +1,293 @@
+import { compositeFrames } from "./compositor";
+import type { DecodedGif } from "./gifDecoder";
+import { indexRgbaFrames } from "./indexedFrames";
+import type { IndexOptions } from "./indexedFrames";
+import type { GifFrame } from "./types";
+
+export type SheetLayout = "horizontal" | "vertical" | "grid";
+
+export interface SheetOptions {
+  layout: SheetLayout;
+  // Empty pixels between cells and around the sheet edge
+  padding: number;
+  // Cells per row for the grid layout; defaults to a roughly square grid
+  columns?: number;
+}
+
+export interface SheetRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface SpriteSheet {
+  // RGBA pixels of the whole sheet
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+  // Cell of each frame, in frame order
+  rects: SheetRect[];
+}
+
+// One frame as read back from a sheet's metadata
+export interface SheetFrame {
+  rect: SheetRect;
+  // Where the cell sits in the untrimmed frame
+  offsetX: number;
+  offsetY: number;
+  duration: number;
+}
+
+// Aseprite "array" JSON, as written by File > Export Sprite Sheet
+export interface AsepriteSheet {
+  frames: {
+    filename: string;
+    frame: SheetRect;
+    rotated: boolean;
+    trimmed: boolean;
+    spriteSourceSize: SheetRect;
+    sourceSize: { w: number; h: number };
+    duration: number;
+  }[];
+  meta: {
+    app: string;
+    version: string;
+    image: string;
+    format: string;
+    size: { w: number; h: number };
+    scale: string;
+  };
+}
+
+// Delay used for frames without a duration
+const DEFAULT_DURATION = 100;
+
+const sheetColumns = (count: number, options: SheetOptions): number => {
+  switch (options.layout) {
+    case "horizontal":
+      return Math.max(1, count);
+    case "vertical":
+      return 1;
+    case "grid":
+      return Math.max(1, options.columns || Math.ceil(Math.sqrt(count)));
+  }
+};
+
+// Lay the composited frames out on one image
+export const buildSpriteSheet = (
+  frames: GifFrame[],
+  frameWidth: number,
+  frameHeight: number,
+  options: SheetOptions
+): SpriteSheet => {
+  const padding = Math.max(0, Math.floor(options.padding));
+  const columns = Math.min(
+    sheetColumns(frames.length, options),
+    frames.length
+  );
+  const rows = Math.ceil(frames.length / Math.max(1, columns));
+
+  const width = padding + columns * (frameWidth + padding);
+  const height = padding + rows * (frameHeight + padding);
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  const screens = compositeFrames(frames, frameWidth, frameHeight);
+  const rects = screens.map((screen, index) => {
+    const x = padding + (index % columns) * (frameWidth + padding);
+    const row = Math.floor(index / columns);
+    const y = padding + row * (frameHeight + padding);
+
+    for (let line = 0; line < frameHeight; line++) {
+      const start = line * frameWidth * 4;
+      data.set(
+        screen.subarray(start, start + frameWidth * 4),
+        ((y + line) * width + x) * 4
+      );
+    }
+    return { x, y, w: frameWidth, h: frameHeight };
+  });
+
+  return { data, width, height, rects };
+};
+
+// Aseprite-compatible metadata with frame rects and durations from delay
+export const createAsepriteJson = (
+  sheet: SpriteSheet,
+  frames: GifFrame[],
+  imageName: string
+): AsepriteSheet => {
+  const baseName = imageName.replace(/\.[^.]+$/, "");
+
+  return {
+    frames: sheet.rects.map((rect, index) => ({
+      filename: `${baseName} ${index}.png`,
+      frame: rect,
+      rotated: false,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: rect.w, h: rect.h },
+      sourceSize: { w: rect.w, h: rect.h },
+      duration: frames[index]?.delay || DEFAULT_DURATION,
+    })),
+    meta: {
+      app: "color-me-new",
+      version: "1.0",
+      image: imageName,
+      format: "RGBA8888",
+      size: { w: sheet.width, h: sheet.height },
+      scale: "1",
+    },
+  };
+};
+
+const isRect = (value: unknown): value is SheetRect => {
+  const rect = value as Record<string, unknown> | null;
+  return (
+    !!rect &&
+    ["x", "y", "w", "h"].every((key) => Number.isFinite(rect[key])) &&
+    (rect.w as number) > 0 &&
+    (rect.h as number) > 0
+  );
+};
+
+// Read frame rects from Aseprite JSON in either the "array" or "hash" layout
+export const parseAsepriteJson = (
+  json: string
+): { frames: SheetFrame[]; width: number; height: number } => {
+  let data: { frames?: unknown };
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Sprite sheet metadata is not valid JSON");
+  }
+
+  const entries = Array.isArray(data?.frames)
+    ? data.frames
+    : data?.frames && typeof data.frames === "object"
+      ? Object.values(data.frames)
+      : null;
+  if (!entries || entries.length === 0) {
+    throw new Error("Sprite sheet metadata has no frames");
+  }
+
+  let width = 0;
+  let height = 0;
+  const frames = entries.map((value, index): SheetFrame => {
+    const entry = value as Record<string, unknown>;
+    if (!isRect(entry.frame)) {
+      throw new Error(`Frame ${index + 1} has an invalid rect`);
+    }
+    if (entry.rotated) {
+      throw new Error(`Frame ${index + 1} is rotated, which is not supported`);
+    }
+
+    const rect = entry.frame;
+    const source = isRect(entry.spriteSourceSize)
+      ? entry.spriteSourceSize
+      : { x: 0, y: 0, w: rect.w, h: rect.h };
+    const size = entry.sourceSize as { w?: number; h?: number } | undefined;
+    width = Math.max(width, size?.w || 0, source.x + rect.w);
+    height = Math.max(height, size?.h || 0, source.y + rect.h);
+
+    return {
+      rect,
+      offsetX: source.x,
+      offsetY: source.y,
+      duration:
+        typeof entry.duration === "number" && entry.duration > 0
+          ? entry.duration
+          : DEFAULT_DURATION,
+    };
+  });
+
+  return { frames, width, height };
+};
+
+// Frame rects for a sheet cut into equal cells, read left to right and top to
+// bottom, with optional padding between and around cells
+export const gridSheetFrames = (
+  sheetWidth: number,
+  sheetHeight: number,
+  cellWidth: number,
+  cellHeight: number,
+  padding = 0,
+  duration = DEFAULT_DURATION
+): SheetFrame[] => {
+  if (cellWidth <= 0 || cellHeight <= 0) {
+    throw new Error("Cell size must be positive");
+  }
+
+  const columns = Math.floor((sheetWidth - padding) / (cellWidth + padding));
+  const rows = Math.floor((sheetHeight - padding) / (cellHeight + padding));
+  if (columns < 1 || rows < 1) {
+    throw new Error("Cell size is larger than the sprite sheet");
+  }
+
+  const frames: SheetFrame[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      frames.push({
+        rect: {
+          x: padding + column * (cellWidth + padding),
+          y: padding + row * (cellHeight + padding),
+          w: cellWidth,
+          h: cellHeight,
+        },
+        offsetX: 0,
+        offsetY: 0,
+        duration,
+      });
+    }
+  }
+  return frames;
+};
+
+// Cut a sheet's RGBA pixels into frames and index them like a decoded GIF.
+// trimEmptyTail drops fully transparent cells at the end, such as the unused
+// part of a grid's last row.
+export const sliceSpriteSheet = (
+  data: ArrayLike<number>,
+  sheetWidth: number,
+  sheetHeight: number,
+  sheetFrames: SheetFrame[],
+  frameWidth: number,
+  frameHeight: number,
+  trimEmptyTail = false,
+  options: IndexOptions = {}
+): DecodedGif => {
+  const rgbaFrames = sheetFrames.map(({ rect, offsetX, offsetY, duration }) => {
+    if (rect.x + rect.w > sheetWidth || rect.y + rect.h > sheetHeight) {
+      throw new Error("A frame rect lies outside the sprite sheet");
+    }
+
+    const cell = new Uint8ClampedArray(rect.w * rect.h * 4);
+    for (let row = 0; row < rect.h; row++) {
+      for (let i = 0; i < rect.w * 4; i++) {
+        cell[row * rect.w * 4 + i] =
+          data[((rect.y + row) * sheetWidth + rect.x) * 4 + i];
+      }
+    }
+
+    return {
+      data: cell,
+      width: rect.w,
+      height: rect.h,
+      left: offsetX,
+      top: offsetY,
+      delay: duration,
+    };
+  });
+
+  if (trimEmptyTail) {
+    const isEmpty = (cell: Uint8ClampedArray) =>
+      cell.every((value, i) => i % 4 !== 3 || value === 0);
+    while (
+      rgbaFrames.length > 1 &&
+      isEmpty(rgbaFrames[rgbaFrames.length - 1].data)
+    ) {
+      rgbaFrames.pop();
+    }
+  }
+
+  return indexRgbaFrames(rgbaFrames, frameWidth, frameHeight, options);
+};
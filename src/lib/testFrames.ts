@@ -0,0 +1,56 @@
+// Builders for the small hand-made animations used in tests
+import { buildPatch } from "./remap";
+import type { GifFrame } from "./types";
+
+export interface FrameSpec {
+  pixels: number[];
+  colorTable: [number, number, number][];
+  width: number;
+  height: number;
+  left?: number;
+  top?: number;
+  delay?: number;
+  disposalType?: number;
+  transparentIndex?: number;
+  hasLocalColorTable?: boolean;
+}
+
+export const makeFrame = ({
+  pixels,
+  colorTable,
+  width,
+  height,
+  left = 0,
+  top = 0,
+  delay = 100,
+  disposalType = 0,
+  transparentIndex,
+  hasLocalColorTable,
+}: FrameSpec): GifFrame => ({
+  dims: { width, height, left, top },
+  delay,
+  disposalType,
+  pixels,
+  colorTable,
+  transparentIndex,
+  hasLocalColorTable,
+  patch: buildPatch(pixels, colorTable, transparentIndex),
+});
+
+// RGBA of one screen pixel
+export const pixelAt = (
+  screen: ArrayLike<number>,
+  width: number,
+  x: number,
+  y: number
+): number[] => {
+  const offset = (y * width + x) * 4;
+  return [0, 1, 2, 3].map((c) => screen[offset + c]);
+};
+
+// Standalone ArrayBuffer holding the bytes, as decodeGif expects
+export const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer =>
+  bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength
+  ) as ArrayBuffer;
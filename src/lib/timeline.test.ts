@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { DISPOSAL_BACKGROUND, compositeFrames } from "./compositor";
+import {
+  deleteFramesOrder,
+  duplicateFramesOrder,
+  isIdentityOrder,
+  makeFramesIndependent,
+  moveFrameOrder,
+  pingPongOrder,
+  reorderFrames,
+  reverseOrder,
+  setFrameDelays,
+  snapDelay,
+} from "./timeline";
+import { makeFrame, pixelAt } from "./testFrames";
+
+const table: [number, number, number][] = [
+  [255, 0, 0],
+  [0, 0, 255],
+];
+
+describe("frame orders", () => {
+  it("describes reorders, deletions and duplicates", () => {
+    expect(reverseOrder(3)).toEqual([2, 1, 0]);
+    expect(pingPongOrder(4)).toEqual([0, 1, 2, 3, 2, 1]);
+    expect(moveFrameOrder(4, 0, 2)).toEqual([1, 2, 0, 3]);
+    expect(deleteFramesOrder(4, [1, 3])).toEqual([0, 2]);
+    expect(duplicateFramesOrder(3, [1])).toEqual([0, 1, 1, 2]);
+  });
+
+  it("does not repeat a single frame when ping-ponging", () => {
+    expect(pingPongOrder(1)).toEqual([0]);
+    expect(pingPongOrder(2)).toEqual([0, 1]);
+  });
+
+  it("recognizes the order that changes nothing", () => {
+    expect(isIdentityOrder([0, 1, 2], 3)).toBe(true);
+    expect(isIdentityOrder([0, 1], 3)).toBe(false);
+    expect(isIdentityOrder(reverseOrder(3), 3)).toBe(false);
+  });
+});
+
+// A red 2x1 background, then a blue patch drawn over its right half
+const layered = [
+  makeFrame({ pixels: [0, 0], colorTable: table, width: 2, height: 1 }),
+  makeFrame({
+    pixels: [1],
+    colorTable: table,
+    width: 1,
+    height: 1,
+    left: 1,
+    delay: 40,
+  }),
+];
+
+describe("makeFramesIndependent", () => {
+  it("keeps frames that already stand alone and clears them afterwards", () => {
+    const [first] = makeFramesIndependent(layered, 2, 1);
+
+    expect(first.pixels).toEqual([0, 0]);
+    expect(first.disposalType).toBe(DISPOSAL_BACKGROUND);
+  });
+
+  it("flattens frames that build on earlier ones", () => {
+    const [, second] = makeFramesIndependent(layered, 2, 1);
+    const [screen] = compositeFrames([second], 2, 1);
+
+    expect(pixelAt(screen, 2, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(screen, 2, 1, 0)).toEqual([0, 0, 255, 255]);
+    expect(second.delay).toBe(40);
+  });
+});
+
+describe("reorderFrames", () => {
+  it("keeps each frame's look in the new order", () => {
+    const reversed = reorderFrames(layered, reverseOrder(2), 2, 1);
+    const screens = compositeFrames(reversed, 2, 1);
+
+    expect(pixelAt(screens[0], 2, 1, 0)).toEqual([0, 0, 255, 255]);
+    expect(pixelAt(screens[1], 2, 1, 0)).toEqual([255, 0, 0, 255]);
+  });
+
+  it("returns the same frames for the identity order", () => {
+    expect(reorderFrames(layered, [0, 1], 2, 1)).toBe(layered);
+  });
+});
+
+describe("snapDelay", () => {
+  it("rounds to the 10ms steps a GIF can store", () => {
+    expect(snapDelay(33)).toBe(30);
+    expect(snapDelay(35)).toBe(40);
+    expect(snapDelay(100)).toBe(100);
+    expect(snapDelay(-20)).toBe(0);
+  });
+});
+
+describe("setFrameDelays", () => {
+  it("changes only the given frames", () => {
+    const frames = setFrameDelays(layered, [1], 200);
+
+    expect(frames.map((frame) => frame.delay)).toEqual([100, 200]);
+    expect(frames[0]).toBe(layered[0]);
+  });
+});
@@ -0,0 +1,117 @@
+import { DISPOSAL_BACKGROUND, createFrameCompositor } from "./compositor";
+import { indexRgbaFrames } from "./indexedFrames";
+import type { GifFrame } from "./types";
+
+// Frame orders list, for each frame of the new sequence, the index of the
+// frame it comes from, so one order describes any reorder, deletion or
+// duplication.
+
+export const identityOrder = (count: number): number[] =>
+  Array.from({ length: count }, (_, index) => index);
+
+export const isIdentityOrder = (order: number[], count: number): boolean =>
+  order.length === count && order.every((source, index) => source === index);
+
+export const reverseOrder = (count: number): number[] =>
+  identityOrder(count).reverse();
+
+// Play forwards then backwards, without repeating the end frames
+export const pingPongOrder = (count: number): number[] => [
+  ...identityOrder(count),
+  ...identityOrder(count).slice(1, -1).reverse(),
+];
+
+// Move one frame so it ends up at index `to`
+export const moveFrameOrder = (
+  count: number,
+  from: number,
+  to: number
+): number[] => {
+  const order = identityOrder(count);
+  const [moved] = order.splice(from, 1);
+  order.splice(to, 0, moved);
+  return order;
+};
+
+export const deleteFramesOrder = (count: number, indices: number[]) =>
+  identityOrder(count).filter((index) => !indices.includes(index));
+
+// Repeat each given frame right after itself
+export const duplicateFramesOrder = (count: number, indices: number[]) =>
+  identityOrder(count).flatMap((index) =>
+    indices.includes(index) ? [index, index] : [index]
+  );
+
+// Whether two screens show the same image; the color of fully transparent
+// pixels doesn't matter
+const isSameScreen = (a: Uint8ClampedArray, b: Uint8ClampedArray) => {
+  for (let i = 0; i < a.length; i += 4) {
+    if (a[i + 3] !== b[i + 3]) return false;
+    if (a[i + 3] === 0) continue;
+    if (a[i] !== b[i] || a[i + 1] !== b[i + 1] || a[i + 2] !== b[i + 2]) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Make every frame show the same image when drawn on an empty screen as it
+// does in the animation, so frames can be reordered, dropped or repeated.
+// All frames clear their rect afterwards, which keeps the screen empty
+// between frames; frames that build on earlier ones are replaced by their
+// composited screen with its own color table.
+export const makeFramesIndependent = (
+  frames: GifFrame[],
+  width: number,
+  height: number
+): GifFrame[] => {
+  const compositor = createFrameCompositor(frames, width, height);
+
+  return frames.map((frame, index) => {
+    const screen = compositor.render(index);
+    const independent = { ...frame, disposalType: DISPOSAL_BACKGROUND };
+    const alone = createFrameCompositor([independent], width, height);
+    if (isSameScreen(alone.render(0), screen)) return independent;
+
+    try {
+      const [flattened] = indexRgbaFrames(
+        [{ data: screen, width, height, left: 0, top: 0, delay: frame.delay }],
+        width,
+        height
+      ).frames;
+      return { ...flattened, hasLocalColorTable: true };
+    } catch {
+      throw new Error(
+        `Frame ${index + 1} has too many colors to stand on its own`
+      );
+    }
+  });
+};
+
+// Rearrange frames by an order (see identityOrder). Frames are made
+// independent first so each keeps its look in the new sequence.
+export const reorderFrames = (
+  frames: GifFrame[],
+  order: number[],
+  width: number,
+  height: number
+): GifFrame[] => {
+  if (isIdentityOrder(order, frames.length)) return frames;
+
+  const independent = makeFramesIndependent(frames, width, height);
+  return order.map((source) => ({ ...independent[source] }));
+};
+
+// GIFs store delays in hundredths of a second, so a delay entered in
+// milliseconds is rounded to the nearest 10ms that can be saved
+export const snapDelay = (delay: number): number =>
+  Math.max(0, Math.round(delay / 10) * 10);
+
+export const setFrameDelays = (
+  frames: GifFrame[],
+  indices: number[],
+  delay: number
+): GifFrame[] =>
+  frames.map((frame, index) =>
+    indices.includes(index) ? { ...frame, delay } : frame
+  );
@@ -0,0 +1,53 @@
+// Types for our GIF data
+export interface GifFrame {
+  dims: {
+    width: number;
+    height: number;
+    top: number;
+    left: number;
+  };
+  delay: number;
+  disposalType: number;
+  patch: Uint8ClampedArray;
+  pixels: number[];
+  transparentIndex?: number;
+  colorTable: [number, number, number][];
+  // Whether the frame carried its own local color table in the source file
+  hasLocalColorTable?: boolean;
+}
+
+// File-level data that is not part of any single frame
+export interface GifInfo {
+  width: number;
+  height: number;
+  backgroundColorIndex: number;
+  globalColorTable?: [number, number, number][];
+  // Netscape loop count (0 = forever), undefined when the GIF plays once
+  loopCount?: number;
+}
+
+export interface ColorCount {
+  color: string;
+  count: number;
+  rgb: [number, number, number];
+}
+
+// Frames a mapping is limited to (0-based indices). A range is inclusive.
+export type FrameScope =
+  | { type: "range"; start: number; end: number }
+  | { type: "set"; frames: number[] };
+
+export interface ColorMapping {
+  originalColor: string;
+  originalRgb: [number, number, number];
+  newColor: string;
+  newRgb: [number, number, number];
+  // Perceptual radius (CIEDE2000 ΔE) of similar colors this mapping also
+  // recolors; 0 or undefined matches the exact original color only
+  tolerance?: number;
+  // Frames the mapping applies to; undefined applies it to every frame.
+  // Scoped mappings take priority over global ones on their frames.
+  frames?: FrameScope;
+  // Region mask (see RegionMask) limiting the mapping to pixels inside it
+  maskId?: string;
+}
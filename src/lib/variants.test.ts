@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  createVariant,
+  uniqueVariantSlugs,
+  variantSlug,
+  type PaletteVariant,
+} from "./variants";
+
+const named = (name: string, id = "variant-1"): PaletteVariant => ({
+  id,
+  name,
+  mappings: [],
+});
+
+describe("createVariant", () => {
+  it("numbers variants past the highest id in use", () => {
+    const variants = [named("A", "variant-1"), named("B", "variant-4")];
+
+    expect(createVariant(variants)).toEqual({
+      id: "variant-5",
+      name: "Variant 5",
+      mappings: [],
+    });
+  });
+
+  it("starts at one and keeps a given name", () => {
+    expect(createVariant([], [], "Night")).toMatchObject({
+      id: "variant-1",
+      name: "Night",
+    });
+  });
+});
+
+describe("variantSlug", () => {
+  it("reduces the name to lowercase words joined by dashes", () => {
+    expect(variantSlug(named("  Night / Blue!  "))).toBe("night-blue");
+  });
+
+  it("falls back to the id when nothing of the name is left", () => {
+    expect(variantSlug(named("★★", "variant-3"))).toBe("variant-3");
+  });
+});
+
+describe("uniqueVariantSlugs", () => {
+  it("numbers variants whose names reduce to the same slug", () => {
+    const variants = [
+      named("Blue"),
+      named("blue!"),
+      named("Red"),
+      named("BLUE"),
+    ];
+
+    expect(uniqueVariantSlugs(variants)).toEqual([
+      "blue",
+      "blue-2",
+      "red",
+      "blue-3",
+    ]);
+  });
+
+  it("skips numbers another variant already uses", () => {
+    expect(
+      uniqueVariantSlugs([named("Blue 2"), named("Blue"), named("Blue")])
+    ).toEqual(["blue-2", "blue", "blue-3"]);
+  });
+});
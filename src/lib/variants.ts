@@ -0,0 +1,64 @@
+import type { ColorMapping } from "./types";
+
+// A named set of color mappings, so one source GIF can carry several
+// colorways
+export interface PaletteVariant {
+  id: string;
+  name: string;
+  mappings: ColorMapping[];
+}
+
+// Start a variant with the next free number, so ids stay unique after
+// deletions
+export const createVariant = (
+  variants: PaletteVariant[],
+  mappings: ColorMapping[] = [],
+  name?: string
+): PaletteVariant => {
+  const next =
+    variants.reduce(
+      (max, variant) => Math.max(max, Number(variant.id.split("-")[1]) || 0),
+      0
+    ) + 1;
+  return { id: `variant-${next}`, name: name ?? `Variant ${next}`, mappings };
+};
+
+export const setVariantMappings = (
+  variants: PaletteVariant[],
+  id: string,
+  mappings: ColorMapping[]
+): PaletteVariant[] =>
+  variants.map((variant) =>
+    variant.id === id ? { ...variant, mappings } : variant
+  );
+
+// Apply the same change to the mappings of every variant, e.g. when the frames
+// or masks they refer to change
+export const mapVariantMappings = (
+  variants: PaletteVariant[],
+  update: (mappings: ColorMapping[]) => ColorMapping[]
+): PaletteVariant[] =>
+  variants.map((variant) => ({
+    ...variant,
+    mappings: update(variant.mappings),
+  }));
+
+// File name safe version of a variant's name
+export const variantSlug = (variant: PaletteVariant): string =>
+  variant.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || variant.id;
+
+// File name safe names for every variant, numbering repeats so that variants
+// with the same name don't overwrite each other in a zip
+export const uniqueVariantSlugs = (variants: PaletteVariant[]): string[] => {
+  const used = new Set<string>();
+  return variants.map((variant) => {
+    const slug = variantSlug(variant);
+    let unique = slug;
+    for (let n = 2; used.has(unique); n++) unique = `${slug}-${n}`;
+    used.add(unique);
+    return unique;
+  });
+};
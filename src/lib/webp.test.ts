@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { parseWebp } from "./webp";
+
+const uint24 = (value: number) => [
+  value & 0xff,
+  (value >>> 8) & 0xff,
+  (value >>> 16) & 0xff,
+];
+
+const uint32 = (value: number) => [...uint24(value), value >>> 24];
+
+const fourCC = (type: string) => [...type].map((c) => c.charCodeAt(0));
+
+// RIFF chunk, padded to an even size
+const chunk = (type: string, data: number[]) => [
+  ...fourCC(type),
+  ...uint32(data.length),
+  ...data,
+  ...(data.length % 2 ? [0] : []),
+];
+
+const webp = (...chunks: number[][]) => {
+  const body = [...fourCC("WEBP"), ...chunks.flat()];
+  return new Uint8Array([...fourCC("RIFF"), ...uint32(body.length), ...body]);
+};
+
+// Lossless bitstream header: signature, then 14-bit width and height - 1
+const vp8l = (width: number, height: number) =>
+  chunk("VP8L", [0x2f, ...uint32((width - 1) | ((height - 1) << 14)), 0]);
+
+const vp8x = (flags: number, width: number, height: number) =>
+  chunk("VP8X", [flags, 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1)]);
+
+const anim = (loopCount: number) =>
+  chunk("ANIM", [0, 0, 0, 0, loopCount & 0xff, loopCount >>> 8]);
+
+const anmf = (
+  [left, top, width, height]: number[],
+  delay: number,
+  flags: number,
+  ...frameChunks: number[][]
+) =>
+  chunk("ANMF", [
+    ...uint24(left / 2),
+    ...uint24(top / 2),
+    ...uint24(width - 1),
+    ...uint24(height - 1),
+    ...uint24(delay),
+    flags,
+    ...frameChunks.flat(),
+  ]);
+
+describe("parseWebp", () => {
+  it("returns a still WebP as one frame of itself", () => {
+    const bytes = webp(vp8l(3, 2));
+    const { width, height, frames } = parseWebp(bytes);
+
+    expect([width, height]).toEqual([3, 2]);
+    expect(frames).toHaveLength(1);
+    expect(frames[0].data).toBe(bytes);
+  });
+
+  it("splits ANMF frames into still WebPs", () => {
+    const alpha = chunk("ALPH", [1, 2, 3]);
+    const lossy = chunk("VP8 ", [4, 5, 6, 7]);
+    const { width, height, loopCount, frames } = parseWebp(
+      webp(
+        vp8x(0x12, 8, 6),
+        anim(2),
+        anmf([2, 0, 3, 2], 80, 0, vp8l(3, 2)),
+        anmf([4, 2, 2, 2], 120, 0x03, alpha, lossy)
+      )
+    );
+
+    expect([width, height, loopCount]).toEqual([8, 6, 2]);
+    expect(frames).toHaveLength(2);
+    expect(frames[0]).toMatchObject({
+      width: 3,
+      height: 2,
+      left: 2,
+      top: 0,
+      delay: 80,
+      dispose: "none",
+      blend: "over",
+    });
+    expect(frames[1]).toMatchObject({
+      width: 2,
+      height: 2,
+      left: 4,
+      top: 2,
+      delay: 120,
+      dispose: "background",
+      blend: "source",
+    });
+
+    expect(frames[0].data).toEqual(webp(vp8l(3, 2)));
+    // Lossy frames need a VP8X header for their alpha chunk
+    expect(frames[1].data).toEqual(webp(vp8x(0x10, 2, 2), alpha, lossy));
+  });
+
+  it("reads chunks past odd-sized padding", () => {
+    const { frames } = parseWebp(
+      webp(
+        vp8x(0x02, 1, 1),
+        anim(0),
+        chunk("XMP ", [1, 2, 3]),
+        anmf([0, 0, 1, 1], 50, 0, vp8l(1, 1))
+      )
+    );
+
+    expect(frames).toHaveLength(1);
+  });
+
+  it("rejects animations without frames", () => {
+    expect(() => parseWebp(webp(vp8x(0x02, 1, 1), anim(0)))).toThrow(
+      "WebP animation has no frames"
+    );
+  });
+});
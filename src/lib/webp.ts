@@ -0,0 +1,175 @@
+import type { EncodedAnimation, EncodedFrame } from "./animation";
+
+interface RiffChunk {
+  type: string;
+  // Payload without the chunk header or padding
+  data: Uint8Array;
+}
+
+const fourCC = (bytes: Uint8Array, offset: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const readUint24 = (bytes: Uint8Array, offset: number): number =>
+  bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  (readUint24(bytes, offset) | (bytes[offset + 3] << 24)) >>> 0;
+
+const writeUint24 = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >>> 8) & 0xff;
+  bytes[offset + 2] = (value >>> 16) & 0xff;
+};
+
+const writeUint32 = (bytes: Uint8Array, offset: number, value: number) => {
+  writeUint24(bytes, offset, value);
+  bytes[offset + 3] = value >>> 24;
+};
+
+export const isWebp = (bytes: Uint8Array): boolean =>
+  bytes.length >= 12 &&
+  fourCC(bytes, 0) === "RIFF" &&
+  fourCC(bytes, 8) === "WEBP";
+
+const readChunks = (bytes: Uint8Array, start: number): RiffChunk[] => {
+  const chunks: RiffChunk[] = [];
+  let offset = start;
+
+  while (offset + 8 <= bytes.length) {
+    const type = fourCC(bytes, offset);
+    const size = readUint32(bytes, offset + 4);
+    const end = offset + 8 + size;
+    if (end > bytes.length) throw new Error("WebP file is truncated");
+
+    chunks.push({ type, data: bytes.subarray(offset + 8, end) });
+    // Chunks are padded to an even size
+    offset = end + (size % 2);
+  }
+  return chunks;
+};
+
+// Wrap chunks in a RIFF WEBP container
+const writeWebp = (chunks: RiffChunk[]): Uint8Array => {
+  const size = chunks.reduce(
+    (sum, chunk) => sum + 8 + chunk.data.length + (chunk.data.length % 2),
+    12
+  );
+  const bytes = new Uint8Array(size);
+  bytes.set([82, 73, 70, 70]); // "RIFF"
+  writeUint32(bytes, 4, size - 8);
+  bytes.set([87, 69, 66, 80], 8); // "WEBP"
+
+  let offset = 12;
+  chunks.forEach(({ type, data }) => {
+    for (let i = 0; i < 4; i++) bytes[offset + i] = type.charCodeAt(i);
+    writeUint32(bytes, offset + 4, data.length);
+    bytes.set(data, offset + 8);
+    offset += 8 + data.length + (data.length % 2);
+  });
+  return bytes;
+};
+
+// Build a still WebP from one ANMF frame's ALPH and VP8/VP8L chunks. Lossy
+// frames with alpha need a VP8X header for the ALPH chunk to be read.
+const stillWebp = (
+  chunks: RiffChunk[],
+  width: number,
+  height: number
+): Uint8Array => {
+  const alpha = chunks.find((chunk) => chunk.type === "ALPH");
+  const image = chunks.find(
+    (chunk) => chunk.type === "VP8 " || chunk.type === "VP8L"
+  );
+  if (!image) throw new Error("WebP frame has no image data");
+  if (!alpha) return writeWebp([image]);
+
+  const header = new Uint8Array(10);
+  header[0] = 0x10; // Alpha flag
+  writeUint24(header, 4, width - 1);
+  writeUint24(header, 7, height - 1);
+  return writeWebp([{ type: "VP8X", data: header }, alpha, image]);
+};
+
+// Image size of a still WebP, from the VP8X canvas or the bitstream header
+const stillSize = (chunks: RiffChunk[]): [number, number] => {
+  for (const { type, data } of chunks) {
+    if (type === "VP8X") {
+      return [readUint24(data, 4) + 1, readUint24(data, 7) + 1];
+    }
+    if (type === "VP8L") {
+      // 14-bit width and height minus one, after the 0x2f signature
+      const bits = readUint32(data, 1);
+      return [(bits & 0x3fff) + 1, ((bits >>> 14) & 0x3fff) + 1];
+    }
+    if (type === "VP8 ") {
+      // 14-bit sizes follow the frame tag and the 9d 01 2a start code
+      return [
+        (data[6] | (data[7] << 8)) & 0x3fff,
+        (data[8] | (data[9] << 8)) & 0x3fff,
+      ];
+    }
+  }
+  throw new Error("WebP file has no image data");
+};
+
+// Split a WebP into its frames. A WebP without an ANIM chunk is a single
+// frame; each ANMF frame becomes a standalone still WebP.
+export const parseWebp = (bytes: Uint8Array): EncodedAnimation => {
+  if (!isWebp(bytes)) throw new Error("Not a WebP file");
+
+  const chunks = readChunks(bytes, 12);
+  const extended = chunks.find((chunk) => chunk.type === "VP8X");
+  const control = chunks.find((chunk) => chunk.type === "ANIM");
+
+  if (!extended || !control) {
+    const [width, height] = stillSize(chunks);
+    return {
+      width,
+      height,
+      loopCount: 0,
+      frames: [
+        {
+          data: bytes,
+          mimeType: "image/webp",
+          width,
+          height,
+          left: 0,
+          top: 0,
+          delay: 0,
+          dispose: "none",
+          blend: "source",
+        },
+      ],
+    };
+  }
+
+  const frames: EncodedFrame[] = chunks
+    .filter((chunk) => chunk.type === "ANMF")
+    .map(({ data }) => {
+      const width = readUint24(data, 6) + 1;
+      const height = readUint24(data, 9) + 1;
+      const flags = data[15];
+
+      return {
+        data: stillWebp(readChunks(data, 16), width, height),
+        mimeType: "image/webp",
+        width,
+        height,
+        // Offsets are stored divided by two
+        left: readUint24(data, 0) * 2,
+        top: readUint24(data, 3) * 2,
+        delay: readUint24(data, 12),
+        dispose: flags & 0x01 ? "background" : "none",
+        blend: flags & 0x02 ? "source" : "over",
+      };
+    });
+
+  if (frames.length === 0) throw new Error("WebP animation has no frames");
+
+  return {
+    width: readUint24(extended.data, 4) + 1,
+    height: readUint24(extended.data, 7) + 1,
+    loopCount: control.data[4] | (control.data[5] << 8),
+    frames,
+  };
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { crc32 } from "./crc32";
+import { createZip } from "./zip";
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// Read the entries back through the central directory, as unzip tools do
+const readZip = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  return Array.from({ length: count }, () => {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = textDecoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength)
+    );
+    offset += 46 + nameLength;
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const dataStart = local + 30 + view.getUint16(local + 26, true);
+    return { name, crc, data: bytes.slice(dataStart, dataStart + size) };
+  });
+};
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(textEncoder.encode("123456789"))).toBe(0xcbf43926);
+  });
+});
+
+describe("createZip", () => {
+  it("stores every entry under its name", () => {
+    const entries = [
+      { name: "walk-day.gif", data: textEncoder.encode("GIF89a day") },
+      { name: "walk-nuit-é.gif", data: new Uint8Array([0, 255, 7]) },
+    ];
+
+    const files = readZip(createZip(entries));
+
+    expect(files.map((file) => file.name)).toEqual([
+      "walk-day.gif",
+      "walk-nuit-é.gif",
+    ]);
+    files.forEach((file, index) => {
+      expect(file.data).toEqual(entries[index].data);
+      expect(file.crc).toBe(crc32(entries[index].data));
+    });
+  });
+
+  it("writes an empty archive", () => {
+    expect(readZip(createZip([]))).toEqual([]);
+  });
+
+  it("records the modification date in MS-DOS format", () => {
+    const bytes = createZip(
+      [{ name: "a", data: new Uint8Array() }],
+      new Date(2024, 4, 6, 13, 30, 10)
+    );
+    const view = new DataView(bytes.buffer);
+
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (30 << 5) | 5);
+    expect(view.getUint16(12, true)).toBe((44 << 9) | (5 << 5) | 6);
+  });
+});
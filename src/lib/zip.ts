@@ -0,0 +1,117 @@
+// Minimal zip archive writer. Entries are stored without compression, which
+// suits already compressed files such as GIFs and keeps the writer small.
+import { crc32 } from "./crc32";
+
+export interface ZipEntry {
+  // Path inside the archive, with "/" between folders
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+// Version 2.0, the first to support folders and the stored method
+const ZIP_VERSION = 20;
+// General purpose flag marking names as UTF-8
+const UTF8_NAMES = 0x0800;
+
+const textEncoder = new TextEncoder();
+
+// MS-DOS date and time, to 2-second precision, in local time
+const dosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    (Math.max(0, date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+// Bundle files into one zip archive, all dated modified
+export const createZip = (
+  entries: ZipEntry[],
+  modified: Date = new Date()
+): Uint8Array => {
+  const { time, date } = dosDateTime(modified);
+  const files = entries.map((entry) => ({
+    name: textEncoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+  }));
+
+  const localSize = files.reduce(
+    (total, file) => total + 30 + file.name.length + file.data.length,
+    0
+  );
+  const centralSize = files.reduce(
+    (total, file) => total + 46 + file.name.length,
+    0
+  );
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  const u16 = (value: number) => {
+    view.setUint16(offset, value, true);
+    offset += 2;
+  };
+  const u32 = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const array = (data: Uint8Array) => {
+    bytes.set(data, offset);
+    offset += data.length;
+  };
+
+  // Fields shared by the local and central headers, from version needed on
+  const commonFields = (file: (typeof files)[number]) => {
+    u16(ZIP_VERSION);
+    u16(UTF8_NAMES);
+    u16(0); // Stored, no compression
+    u16(time);
+    u16(date);
+    u32(file.crc);
+    u32(file.data.length); // Compressed size
+    u32(file.data.length);
+    u16(file.name.length);
+    u16(0); // Extra field length
+  };
+
+  const localOffsets = files.map((file) => {
+    const start = offset;
+    u32(LOCAL_HEADER);
+    commonFields(file);
+    array(file.name);
+    array(file.data);
+    return start;
+  });
+
+  const centralStart = offset;
+  files.forEach((file, index) => {
+    u32(CENTRAL_HEADER);
+    u16(ZIP_VERSION); // Version made by
+    commonFields(file);
+    u16(0); // Comment length
+    u16(0); // Disk number
+    u16(0); // Internal attributes
+    u32(0); // External attributes
+    u32(localOffsets[index]);
+    array(file.name);
+  });
+
+  const centralLength = offset - centralStart;
+  u32(END_OF_CENTRAL_DIRECTORY);
+  u16(0); // This disk
+  u16(0); // Disk with the central directory
+  u16(files.length);
+  u16(files.length);
+  u32(centralLength);
+  u32(centralStart);
+  u16(0); // Comment length
+
+  return bytes;
+};
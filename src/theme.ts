@@ -0,0 +1,9 @@
+// Minimal dark mode colors
+export const colors = {
+  background: "#121212",
+  surface: "#1E1E1E",
+  text: "#E1E1E1",
+  accent: "#555555",
+  border: "#333333",
+  primary: "#BB86FC",
+};
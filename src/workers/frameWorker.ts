@@ -0,0 +1,149 @@
+import {
+  createFrameRemapper,
+  createRemapEngine,
+  getPalette,
+  loadGif,
+} from "../lib";
+import type { GifFrame, RemapEngine } from "../lib";
+import type { WorkerRequest, WorkerResponse } from "./messages";
+
+// Progress is reported in steps of this fraction to avoid flooding the page
+const PROGRESS_STEP = 0.05;
+
+// Longest stretch of remapping between checks for newer requests
+const YIELD_INTERVAL_MS = 16;
+
+// Remaps the current animation. Frame patches are transferred to the page
+// after decoding; remapping only needs pixels and color tables.
+let frames: GifFrame[] = [];
+let engine: RemapEngine = createRemapEngine(frames);
+
+// Id of the request whose frames the engine last committed
+let committed = 0;
+
+// Id of the latest decode, load or remap; older remaps stop when they see it
+let latestJob = 0;
+
+const post = (response: WorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+const patchBuffers = (list: (GifFrame | null)[]): Transferable[] =>
+  list.flatMap((frame) => (frame ? [frame.patch.buffer as ArrayBuffer] : []));
+
+const setFrames = (id: number, next: GifFrame[]) => {
+  frames = next;
+  engine = createRemapEngine(frames);
+  committed = id;
+};
+
+const progressReporter = (id: number) => {
+  let lastStep = -1;
+  return (done: number, total: number) => {
+    const step = Math.floor(done / total / PROGRESS_STEP);
+    if (step === lastStep) return;
+    lastStep = step;
+    post({ type: "progress", id, done, total });
+  };
+};
+
+// Let queued messages run, so a newer request can supersede the current one
+const yieldToMessages = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+const remap = async (
+  request: Extract<WorkerRequest, { type: "remap" }>
+) => {
+  const { id, baseline, mappings, masks } = request;
+  const source = frames;
+  // Send every frame when the page holds a different result than the engine
+  const job = engine.prepare(mappings, masks, baseline !== committed);
+  const reportProgress = progressReporter(id);
+  const remapped: (GifFrame | null)[] = [];
+  let sliceStart = performance.now();
+
+  for (let index = 0; index < source.length; index++) {
+    if (performance.now() - sliceStart > YIELD_INTERVAL_MS) {
+      await yieldToMessages();
+      if (latestJob !== id) {
+        post({ type: "cancelled", id });
+        return;
+      }
+      sliceStart = performance.now();
+    }
+
+    remapped.push(job.remapFrame(index));
+    reportProgress(index + 1, source.length);
+  }
+
+  job.commit();
+  committed = id;
+  post({ type: "remapped", id, frames: remapped }, patchBuffers(remapped));
+};
+
+// Stateless remap of every frame. It still yields now and then, so a remap
+// of the mappings being edited can run in between.
+const remapVariant = async (
+  request: Extract<WorkerRequest, { type: "remapVariant" }>
+) => {
+  const { id, mappings, masks } = request;
+  const source = frames;
+  const remapFrame = createFrameRemapper(source, mappings, masks);
+  const remapped: GifFrame[] = [];
+  let sliceStart = performance.now();
+
+  for (let index = 0; index < source.length; index++) {
+    if (performance.now() - sliceStart > YIELD_INTERVAL_MS) {
+      await yieldToMessages();
+      sliceStart = performance.now();
+    }
+    remapped.push(remapFrame(index));
+  }
+
+  post(
+    { type: "variantRemapped", id, frames: remapped },
+    patchBuffers(remapped)
+  );
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case "decode": {
+        latestJob = request.id;
+        const decoded = loadGif(request.buffer, progressReporter(request.id));
+        setFrames(request.id, decoded.frames);
+        const palette = getPalette(frames);
+        post(
+          { type: "decoded", id: request.id, decoded, palette },
+          patchBuffers(frames)
+        );
+        break;
+      }
+      case "load":
+        latestJob = request.id;
+        setFrames(request.id, request.frames);
+        post({
+          type: "loaded",
+          id: request.id,
+          palette: request.palette ? getPalette(frames) : null,
+        });
+        break;
+      case "remap":
+        latestJob = request.id;
+        await remap(request);
+        break;
+      case "remapVariant":
+        await remapVariant(request);
+        break;
+    }
+  } catch (err) {
+    post({
+      type: "error",
+      id: request.id,
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+};
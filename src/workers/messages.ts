@@ -0,0 +1,44 @@
+import type {
+  ColorCount,
+  ColorMapping,
+  DecodedGif,
+  GifFrame,
+  RegionMask,
+} from "../lib";
+
+// Messages sent to the frame worker. Every request carries an id, increasing
+// with each request, that its responses echo back.
+export type WorkerRequest =
+  // Decode a GIF file; the worker keeps the frames for later remaps
+  | { type: "decode"; id: number; buffer: ArrayBuffer }
+  // Hand the worker frames decoded elsewhere, optionally getting their palette
+  | { type: "load"; id: number; frames: GifFrame[]; palette: boolean }
+  // Recolor the loaded frames. A newer remap or load cancels this one.
+  // baseline is the id of the last result the page has applied; when it
+  // matches the worker's, only frames that changed since are sent back.
+  | {
+      type: "remap";
+      id: number;
+      baseline: number;
+      mappings: ColorMapping[];
+      masks: RegionMask[];
+    }
+  // Recolor the loaded frames with another set of mappings, e.g. a palette
+  // variant, sending every frame back. It leaves the remap baseline alone
+  // and neither cancels nor is cancelled by other requests.
+  | {
+      type: "remapVariant";
+      id: number;
+      mappings: ColorMapping[];
+      masks: RegionMask[];
+    };
+
+export type WorkerResponse =
+  | { type: "progress"; id: number; done: number; total: number }
+  | { type: "decoded"; id: number; decoded: DecodedGif; palette: ColorCount[] }
+  | { type: "loaded"; id: number; palette: ColorCount[] | null }
+  // null marks a frame unchanged since the baseline
+  | { type: "remapped"; id: number; frames: (GifFrame | null)[] }
+  | { type: "variantRemapped"; id: number; frames: GifFrame[] }
+  | { type: "cancelled"; id: number }
+  | { type: "error"; id: number; message: string };